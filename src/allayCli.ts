@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { AllaySubcommand, DEFAULT_SUBCOMMANDS, parseSubcommands } from './cliParser';
+
+// How long reading `allay --help` may take before the default subcommands are assumed
+const HELP_TIMEOUT = 10 * 1000;
+
+/**
+ * How to run the Allay executable for a project, from the `allay.path`, `allay.args` and
+ * `allay.env` settings.
+ */
+export interface AllayCli {
+    executable: string;
+    /** Variables added to the environment of the process. */
+    env: { [name: string]: string };
+    /** `--root <root> <subcommand>`, then the arguments configured for the subcommand and `extra`. */
+    getArgs(subcommand: string, ...extra: string[]): string[];
+}
+
+export function getAllayCli(projectRoot: string): AllayCli {
+    const config = vscode.workspace.getConfiguration('allay', vscode.Uri.file(projectRoot));
+    const args = config.get<{ [subcommand: string]: string[] }>('args', {});
+    return {
+        executable: config.get<string>('path') || 'allay',
+        env: config.get<{ [name: string]: string }>('env', {}),
+        getArgs: (subcommand, ...extra) => ['--root', projectRoot, subcommand, ...(args[subcommand] ?? []), ...extra],
+    };
+}
+
+// Subcommands per executable; the help of one executable is read once per session
+const subcommands = new Map<string, Promise<AllaySubcommand[]>>();
+
+/**
+ * Returns the subcommands the executable lists in its `--help`, or build and serve if it cannot be run.
+ */
+export function getSubcommands(executable: string): Promise<AllaySubcommand[]> {
+    let result = subcommands.get(executable);
+    if (!result) {
+        result = new Promise(resolve => {
+            execFile(executable, ['--help'], { timeout: HELP_TIMEOUT }, (error, stdout) => {
+                const parsed = error ? [] : parseSubcommands(stdout);
+                resolve(parsed.length > 0 ? parsed : DEFAULT_SUBCOMMANDS);
+            });
+        });
+        subcommands.set(executable, result);
+    }
+    return result;
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { AllayDocument, Span, parse } from './parser';
+
+/**
+ * Languages that may contain Allay markup.
+ */
+export const ALLAY_LANGUAGES = ['markdown', 'html'];
+
+const cache = new Map<string, { version: number; document: AllayDocument }>();
+
+/**
+ * Returns the parsed Allay AST for a text document.
+ * Results are cached per document version so providers triggered by the same edit share one parse.
+ */
+export function getAllayDocument(document: vscode.TextDocument): AllayDocument {
+    const key = document.uri.toString();
+    const cached = cache.get(key);
+    if (cached && cached.version === document.version) {
+        return cached.document;
+    }
+    const parsed = parse(document.getText());
+    cache.set(key, { version: document.version, document: parsed });
+    return parsed;
+}
+
+export function isAllayDocument(document: vscode.TextDocument): boolean {
+    return ALLAY_LANGUAGES.includes(document.languageId);
+}
+
+/**
+ * Drops the cached AST of a closed document.
+ */
+export function forgetAllayDocument(document: vscode.TextDocument): void {
+    cache.delete(document.uri.toString());
+}
+
+/**
+ * Converts an AST span to a range in the given document.
+ */
+export function toRange(document: vscode.TextDocument, span: Span): vscode.Range {
+    return new vscode.Range(document.positionAt(span.start), document.positionAt(span.end));
+}
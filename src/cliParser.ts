@@ -0,0 +1,78 @@
+/**
+ * Reads what the Allay command line offers from its `--help` output, and where a build writes to
+ * from the arguments it is given.
+ */
+
+export interface AllaySubcommand {
+    name: string;
+    description: string;
+}
+
+/**
+ * Subcommands assumed when the executable's help cannot be read.
+ */
+export const DEFAULT_SUBCOMMANDS: AllaySubcommand[] = [
+    { name: 'build', description: 'Build the site' },
+    { name: 'serve', description: 'Serve the site and rebuild it on changes' },
+];
+
+/**
+ * Folder below the project root a build writes to unless told otherwise.
+ */
+export const DEFAULT_OUTPUT_DIR = 'public';
+
+// "Commands:" (clap 3+) or "SUBCOMMANDS:" (clap 2)
+const SECTION_PATTERN = /^(?:sub)?commands:\s*$/i;
+
+// "  build  Build the site" or "  b, build    Build the site"
+const SUBCOMMAND_PATTERN = /^\s+(?:[\w-]+,\s*)*([A-Za-z][\w-]*)(?:\s{2,}(.*))?$/;
+
+const OUTPUT_OPTIONS = ['-o', '--output', '--output-dir', '--out-dir'];
+
+/**
+ * Lists the subcommands in the help text of the Allay executable, leaving out `help`. Returns an
+ * empty list when the text has no commands section.
+ */
+export function parseSubcommands(help: string): AllaySubcommand[] {
+    const subcommands: AllaySubcommand[] = [];
+    let inSection = false;
+    for (const line of help.split(/\r?\n/)) {
+        if (SECTION_PATTERN.test(line.trim()) && !/^\s/.test(line)) {
+            inSection = true;
+            continue;
+        }
+        if (!inSection) {
+            continue;
+        }
+        if (!line.trim()) {
+            if (subcommands.length > 0) {
+                break;
+            }
+            continue;
+        }
+        const match = SUBCOMMAND_PATTERN.exec(line);
+        if (!match) {
+            break;
+        }
+        if (match[1] !== 'help') {
+            subcommands.push({ name: match[1], description: match[2]?.trim() ?? '' });
+        }
+    }
+    return subcommands;
+}
+
+/**
+ * Returns the output folder passed with `--output` (or `-o`, `--output-dir`, `--out-dir`), if any.
+ */
+export function findOutputDirectory(args: string[]): string | undefined {
+    let found: string | undefined;
+    args.forEach((arg, index) => {
+        const equals = arg.indexOf('=');
+        if (equals !== -1 && OUTPUT_OPTIONS.includes(arg.slice(0, equals))) {
+            found = arg.slice(equals + 1);
+        } else if (OUTPUT_OPTIONS.includes(arg) && index + 1 < args.length) {
+            found = args[index + 1];
+        }
+    });
+    return found;
+}
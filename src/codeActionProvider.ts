@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayDocument, toRange } from './allayDocument';
+import {
+    AllayDocument, IMPLICIT_LOOP_VARIABLES, TextEdit, analyzeVariables, checkExtraction, findBlockAt, findSymbolAt,
+    getBlockDefinitions, getClosingInsertion, getExtractedText, getSetInsertion
+} from './parser';
+import { getLayoutSkeleton, getPageTemplateSkeleton, getPartialSkeleton, getShortcodeSkeleton } from './skeletons';
+import { SHORTCODE_NAME, TEMPLATE_NAME, isInSameProject } from './workspace';
+import { findConfig, findShortcodeFiles, findTemplateFiles } from './workspaceIndex';
+
+type ExtractionKind = 'include' | 'shortcode';
+
+/**
+ * Quick fixes for common mistakes: a missing `{- end -}` or closing shortcode tag, an undefined
+ * `$var`, and templates or shortcodes that do not exist yet. Selected markup can be extracted into
+ * a new template or shortcode with `allay.extractSelection`.
+ */
+export class AllayCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorExtract];
+
+    public async provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+        const allayDocument = getAllayDocument(document);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source === 'allay') {
+                actions.push(...await this.getFixes(document, allayDocument, diagnostic));
+            }
+        }
+        actions.push(...await this.getCreateFileFixes(document, allayDocument, range));
+
+        if (!range.isEmpty) {
+            const span = { start: document.offsetAt(range.start), end: document.offsetAt(range.end) };
+            const reason = checkExtraction(allayDocument, span);
+            for (const kind of ['include', 'shortcode'] as const) {
+                const action = new vscode.CodeAction(kind === 'include' ? 'Extract to template' : 'Extract to shortcode', vscode.CodeActionKind.RefactorExtract.append(kind));
+                if (reason) {
+                    action.disabled = { reason };
+                } else {
+                    action.command = { command: 'allay.extractSelection', title: action.title, arguments: [document.uri, range, kind] };
+                }
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+
+    private async getFixes(document: vscode.TextDocument, allayDocument: AllayDocument, diagnostic: vscode.Diagnostic): Promise<vscode.CodeAction[]> {
+        const offset = document.offsetAt(diagnostic.range.start);
+        switch (diagnostic.code) {
+            case 'unclosed-control':
+            case 'unclosed-shortcode': {
+                const header = allayDocument.blocks.find(block => block.span.start === offset);
+                const insertion = header && getClosingInsertion(allayDocument, header);
+                if (!insertion) {
+                    return [];
+                }
+                return [this.createFix(`Insert \`${insertion.newText.trim()}\``, document, insertion, diagnostic)];
+            }
+            case 'undefined-variable': {
+                const use = analyzeVariables(allayDocument).undefinedUses.find(candidate => candidate.span.start === offset);
+                if (!use || IMPLICIT_LOOP_VARIABLES.includes(use.name)) {
+                    return [];
+                }
+                return [this.createFix(`Set \`${use.name}\` above this line`, document, getSetInsertion(allayDocument, use), diagnostic)];
+            }
+            case 'unknown-template': {
+                // The front-matter value, possibly quoted
+                const name = document.getText(diagnostic.range).trim().replace(/^(["'])(.*)\1$/, '$2');
+                const action = await this.createFileAction(document.uri, 'templates', name, getPageTemplateSkeleton());
+                if (action) {
+                    action.diagnostics = [diagnostic];
+                }
+                return action ? [action] : [];
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Offers to create the template or shortcode under the cursor when the project has none.
+     */
+    private async getCreateFileFixes(document: vscode.TextDocument, allayDocument: AllayDocument, range: vscode.Range): Promise<vscode.CodeAction[]> {
+        const offset = document.offsetAt(range.start);
+        const symbol = findSymbolAt(allayDocument, offset);
+        if (symbol?.kind === 'template') {
+            if ((await findTemplateFiles(symbol.name)).some(file => isInSameProject(file, document.uri))) {
+                return [];
+            }
+            const block = findBlockAt(allayDocument, offset);
+            const extended = block?.kind === 'command' && block.command.kind === 'extends';
+            const contents = extended
+                ? getLayoutSkeleton(getBlockDefinitions(allayDocument).map(definition => definition.name))
+                : getPartialSkeleton(symbol.name);
+            const action = await this.createFileAction(document.uri, 'templates', symbol.name, contents);
+            return action ? [action] : [];
+        }
+        if (symbol?.kind === 'shortcode') {
+            if ((await findShortcodeFiles(symbol.name)).some(file => isInSameProject(file, document.uri))) {
+                return [];
+            }
+            const block = findBlockAt(allayDocument, offset);
+            const parameters = block?.kind === 'shortcode' ? block.args.flatMap(arg => arg.name ? [arg.name.name] : []) : [];
+            const action = await this.createFileAction(document.uri, 'shortcodes', symbol.name, getShortcodeSkeleton(symbol.name, parameters));
+            return action ? [action] : [];
+        }
+        return [];
+    }
+
+    private createFix(title: string, document: vscode.TextDocument, insertion: TextEdit, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, toRange(document, insertion.span), insertion.newText);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    /**
+     * Creates `<project>/<directory>/<name>.html` and opens it, or returns undefined outside a
+     * project or for names that cannot be file names.
+     */
+    private async createFileAction(near: vscode.Uri, directory: 'templates' | 'shortcodes', name: string, contents: string): Promise<vscode.CodeAction | undefined> {
+        const config = await findConfig(near);
+        if (!config || !(directory === 'templates' ? TEMPLATE_NAME : SHORTCODE_NAME).test(name)) {
+            return undefined;
+        }
+        const uri = vscode.Uri.file(path.join(config.root, directory, `${name}.html`));
+        const action = new vscode.CodeAction(`Create ${directory}/${name}.html`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.createFile(uri, { ignoreIfExists: true, contents: new TextEncoder().encode(contents) });
+        action.command = { command: 'vscode.open', title: 'Open', arguments: [uri] };
+        return action;
+    }
+}
+
+/**
+ * Moves the selected markup into a new template or shortcode, asking for its name, and replaces it
+ * with an `include` or a shortcode tag.
+ */
+export async function extractSelection(uri: vscode.Uri, range: vscode.Range, kind: ExtractionKind): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const config = await findConfig(uri);
+    if (!config) {
+        vscode.window.showErrorMessage(`${path.basename(uri.fsPath)} is not part of an Allay project, so there is no \`templates/\` or \`shortcodes/\` folder to extract to.`);
+        return;
+    }
+
+    const directory = kind === 'include' ? 'templates' : 'shortcodes';
+    const name = await vscode.window.showInputBox({
+        title: kind === 'include' ? 'Extract to Template' : 'Extract to Shortcode',
+        prompt: `Name of the new file in ${directory}/`,
+        validateInput: async value => {
+            if (!(kind === 'include' ? TEMPLATE_NAME : SHORTCODE_NAME).test(value)) {
+                return `\`${value}\` is not a valid ${kind === 'include' ? 'template' : 'shortcode'} name.`;
+            }
+            const existing = kind === 'include' ? await findTemplateFiles(value) : await findShortcodeFiles(value);
+            return existing.some(file => isInSameProject(file, uri)) ? `${directory}/${value} already exists.` : undefined;
+        },
+    });
+    if (!name) {
+        return;
+    }
+
+    const allayDocument = getAllayDocument(document);
+    const span = { start: document.offsetAt(range.start), end: document.offsetAt(range.end) };
+    const edit = new vscode.WorkspaceEdit();
+    const target = vscode.Uri.file(path.join(config.root, directory, `${name}.html`));
+    edit.createFile(target, { contents: new TextEncoder().encode(getExtractedText(allayDocument, span)) });
+    // Whole selected lines stay whole lines
+    const selected = document.getText(range);
+    const call = kind === 'include' ? `{- include "${name}" -}` : `{< ${name} />}`;
+    edit.replace(uri, range, /^[ \t]*/.exec(selected)![0] + call + (/\r?\n$/.exec(selected)?.[0] ?? ''));
+    await vscode.workspace.applyEdit(edit);
+}
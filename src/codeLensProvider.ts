@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findOverridden, findVersions, getAncestors, getDescendants, getTemplateLabel, readTemplate } from './inheritance';
+
+/**
+ * Shows on each `{: block "name" :}` which parent block it overrides and how many templates
+ * extending this one override it in turn.
+ */
+export class AllayCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    /**
+     * Recomputes the lenses, e.g. after a template was saved, created or deleted.
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const template = await readTemplate(document.uri);
+        if (template.blocks.length === 0 || token.isCancellationRequested) {
+            return [];
+        }
+
+        const { ancestors } = await getAncestors(template);
+        // Only templates can be extended
+        const descendants = path.basename(path.dirname(document.uri.fsPath)) === 'templates' ? await getDescendants(template) : [];
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const block of template.blocks) {
+            const range = template.file.rangeOf(block.span);
+
+            const overridden = findOverridden(ancestors, block.name);
+            if (overridden) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: `overrides ${getTemplateLabel(overridden.template)}`,
+                    command: 'editor.action.goToLocations',
+                    arguments: [document.uri, range.start, [overridden.template.file.locationOf(overridden.block.span)], 'goto', 'No parent block found'],
+                }));
+            }
+
+            const overrides = findVersions(descendants, block.name);
+            if (overrides.length > 0) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: `overridden in ${overrides.length} template${overrides.length === 1 ? '' : 's'}`,
+                    command: 'editor.action.showReferences',
+                    arguments: [document.uri, range.start, overrides.map(version => version.template.file.locationOf(version.block.span))],
+                }));
+            }
+        }
+        return lenses;
+    }
+}
@@ -1,5 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { getAllayDocument } from './allayDocument';
+import { BUILTIN_DOCS, IMPLICIT_VARIABLE_DOCS, getKeywordDocumentation } from './languageDocs';
+import {
+    AllayDocument, AllayType, BUILTIN_VARIABLES, Block, ShortcodeBlock, describeType, findBlockAt, findMemberAt, getFields, getScopeType,
+    getVisibleVariables, inferType
+} from './parser';
+import { getFileStem, isInSameProject } from './workspace';
+import { findShortcodeFiles, findTemplateFiles } from './workspaceIndex';
+import { getAncestors, getTemplateLabel, readTemplate } from './inheritance';
+import { describeParameter, readShortcode } from './shortcodeSignatures';
+import { getTypeEnvironment } from './typeEnvironment';
 
 export class AllayCompletionItemProvider implements vscode.CompletionItemProvider {
 
@@ -23,45 +34,72 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
             allItems.push(...blockCompletion);
         }
 
+        const offset = document.offsetAt(position);
+        const allayDocument = getAllayDocument(document);
+        const block = findBlockAt(allayDocument, offset);
+        if (!block) {
+            return allItems.length > 0 ? allItems : undefined;
+        }
+
         // 1. Handle Path Completion (include/extends)
-        const includeMatch = linePrefix.match(/\{-(?:\s*)(?:include|extends)\s+"([^"]*)$/);
-        if (includeMatch) {
-            const pathItems = await this.getTemplateFileCompletions();
-            return [...allItems, ...pathItems];
+        if (block.kind === 'command' && (block.command.kind === 'include' || block.command.kind === 'extends')) {
+            const target = block.command.target;
+            if (target && target.kind === 'string' && offset > target.span.start && (offset < target.span.end || !target.terminated)) {
+                const pathItems = await this.getTemplateFileCompletions(document.uri);
+                return [...allItems, ...pathItems];
+            }
+        }
+
+        // 1b. Handle Block Names ({: block "...), offering the blocks of the parent templates
+        const definitionName = block.kind === 'expression' ? block.definition?.name : undefined;
+        if (definitionName?.kind === 'string' && offset > definitionName.span.start && (offset < definitionName.span.end || !definitionName.terminated)) {
+            const blockItems = await this.getParentBlockCompletions(document);
+            return [...allItems, ...blockItems];
         }
 
-        // 2. Handle Dot Access (site.xxx)
-        if (linePrefix.match(/(\{:|\{-)([^}]+)$/)) {
-            const dotMatch = linePrefix.match(/([a-zA-Z0-9_.]*)\.$/);
-            if (dotMatch) {
-                const fieldItems = await this.getFieldCompletions(dotMatch[1], document);
-                return [...allItems, ...fieldItems];
+        // 2. Handle Dot Access (site.xxx, $post.author.xxx), following the inferred type of the object
+        if (block.kind === 'command' || block.kind === 'expression') {
+            const member = findMemberAt(block, offset);
+            if (member) {
+                const environment = await getTypeEnvironment(document, allayDocument);
+                const object = member.object
+                    ? inferType(allayDocument, member.object, environment)
+                    : getScopeType(allayDocument, member.span.start, environment);
+                return [...allItems, ...this.getFieldCompletions(object)];
             }
         }
 
         // 3. Handle Command Block {- ...
-        // Strategy: Provide Control Keywords + Common Expressions (variables/functions)
-        // Regex matches "{-" (empty content) as well, so this will trigger together with Step 0
-        if (linePrefix.match(/\{-([^}]*)$/)) {
-            const commandKeywords = this.getControlKeywords();
-            const commonExpressions = this.getCommonExpressions(document, position); 
-            allItems.push(...commandKeywords, ...commonExpressions);
+        // Strategy: Provide Control Keywords (at the start of the block) + Common Expressions (variables/functions)
+        // An empty "{-" is a command block as well, so this will trigger together with Step 0
+        if (block.kind === 'command') {
+            if (this.isFirstWord(allayDocument, block, offset)) {
+                allItems.push(...this.getControlKeywords());
+            }
+            allItems.push(...this.getCommonExpressions(document, position, allayDocument));
         }
 
         // 4. Handle Expression Block {: ...
         // Strategy: Provide Output Keywords (block) + Common Expressions
-        if (linePrefix.match(/\{:([^}]*)$/)) {
-            const outputKeywords = this.getOutputKeywords();
-            const commonExpressions = this.getCommonExpressions(document, position);
-            allItems.push(...outputKeywords, ...commonExpressions);
+        if (block.kind === 'expression') {
+            if (this.isFirstWord(allayDocument, block, offset)) {
+                allItems.push(...this.getOutputKeywords());
+            }
+            allItems.push(...this.getCommonExpressions(document, position, allayDocument));
         }
 
-        // 5. Shortcodes
-        if (linePrefix.match(/\{<\/?([^>}]*)$/)) {
-            const shortcodeItems = await this.getShortcodeCompletions();
+        // 5. Shortcodes (tag name position only)
+        if (block.kind === 'shortcode' && (!block.name || offset <= block.name.span.end)) {
+            const shortcodeItems = await this.getShortcodeCompletions(document.uri);
             allItems.push(...shortcodeItems);
         }
 
+        // 5b. Shortcode arguments, offering the parameters the shortcode reads
+        if (block.kind === 'shortcode' && !block.closing && block.name && offset > block.name.span.end) {
+            const parameterItems = await this.getShortcodeParameterCompletions(block.name.name, block, offset, document);
+            allItems.push(...parameterItems);
+        }
+
         // Return undefined if no items were found to allow VS Code default behavior,
         // otherwise return the accumulated list.
         return allItems.length > 0 ? allItems : undefined;
@@ -195,6 +233,15 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
         return undefined;
     }
 
+    /**
+     * Checks whether the cursor is on the first word of a block, where keywords are allowed.
+     */
+    private isFirstWord(allayDocument: AllayDocument, block: Block, offset: number): boolean {
+        return !allayDocument.tokens.some(token =>
+            token.start >= block.open.end && token.end < offset && token.kind !== 'unknown'
+        );
+    }
+
     /**
      * Keywords strictly for Control Flow (inside {- ... -})
      */
@@ -208,6 +255,7 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
         return keywords.map(word => {
             const item = new vscode.CompletionItem(word, vscode.CompletionItemKind.Keyword);
             item.detail = `Allay Command`;
+            item.documentation = getKeywordDocumentation(word);
             return item;
         });
     }
@@ -219,7 +267,7 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
     private getOutputKeywords(): vscode.CompletionItem[] {
         const item = new vscode.CompletionItem('block', vscode.CompletionItemKind.Keyword);
         item.detail = 'Allay Block Definition';
-        item.documentation = new vscode.MarkdownString('Define a block for template inheritance: `{: block "name" :}`');
+        item.documentation = getKeywordDocumentation('block');
         return [item];
     }
 
@@ -227,13 +275,14 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
      * Common items available in BOTH Command and Expression blocks.
      * Includes: Variables, Built-in Functions, Constants.
      */
-    private getCommonExpressions(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    private getCommonExpressions(document: vscode.TextDocument, position: vscode.Position, allayDocument: AllayDocument): vscode.CompletionItem[] {
         const items: vscode.CompletionItem[] = [];
         const range = document.getWordRangeAtPosition(position, /[$a-zA-Z0-9_]+/);
 
-        ['this', 'site', 'pages', 'param'].forEach(v => {
+        BUILTIN_VARIABLES.forEach(v => {
             const item = new vscode.CompletionItem(v, vscode.CompletionItemKind.Variable);
             item.detail = 'Allay Built-in Variable';
+            item.documentation = new vscode.MarkdownString(BUILTIN_DOCS[v]);
             if (range) { item.range = range; }
             items.push(item);
         });
@@ -252,37 +301,33 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
             items.push(item);
         });
 
-        const text = document.getText();
         const existingLabels = new Set(items.map(i => i.label));
 
-        const varRegex = /\{-\s*(?:set|for)\s+([\$a-zA-Z0-9_,\s]+)(?:=|:)/g;
-        
-        let match;
-        while ((match = varRegex.exec(text)) !== null) {
-            const vars = match[1].split(',').map(v => v.trim()).filter(v => v.startsWith('$'));
-            
-            vars.forEach(v => {
-                if (!existingLabels.has(v)) {
-                    const item = new vscode.CompletionItem(v, vscode.CompletionItemKind.Variable);
-                    item.detail = 'User Defined Variable';
-                    if (range) { item.range = range; }
-                    items.push(item);
-                    existingLabels.add(v);
+        // Variables bound by {- set ... -} and {- for ... -} that are in scope here, and `$index` inside loops
+        getVisibleVariables(allayDocument, document.offsetAt(position)).forEach(({ name: v, binding }) => {
+            if (!existingLabels.has(v)) {
+                const item = new vscode.CompletionItem(v, vscode.CompletionItemKind.Variable);
+                item.detail = binding ? 'User Defined Variable' : 'Implicit Loop Variable';
+                if (!binding) {
+                    item.documentation = new vscode.MarkdownString(IMPLICIT_VARIABLE_DOCS[v]);
                 }
-            });
-        }
+                if (range) { item.range = range; }
+                items.push(item);
+                existingLabels.add(v);
+            }
+        });
 
         return items;
     }
 
     /**
-     * Scans the workspace for files in the `templates` directory.
+     * Scans the workspace for files in the `templates` directory of the project containing `near`.
      * Used for 'include' and 'extends' autocompletion.
      * Strips file extensions from the completion label.
      */
-    private async getTemplateFileCompletions(): Promise<vscode.CompletionItem[]> {
-        // Find all HTML and Markdown files in any 'templates' directory
-        const files = await vscode.workspace.findFiles('**/templates/*.{html,md}');
+    private async getTemplateFileCompletions(near: vscode.Uri): Promise<vscode.CompletionItem[]> {
+        // Find all HTML and Markdown files in the project's 'templates' directory
+        const files = (await findTemplateFiles()).filter(file => isInSameProject(file, near));
 
         return files.map(file => {
             const name = path.parse(file.fsPath).name;
@@ -296,15 +341,41 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
     }
 
     /**
-     * Scans the workspace for shortcode files.
+     * Lists the blocks defined along the `extends` chain, nearest parent first.
+     * Blocks this template already overrides are sorted last.
+     */
+    private async getParentBlockCompletions(document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
+        const template = await readTemplate(document.uri);
+        const { ancestors } = await getAncestors(template);
+        const defined = new Set(template.blocks.map(block => block.name));
+        const seen = new Set<string>();
+
+        const items: vscode.CompletionItem[] = [];
+        for (const ancestor of ancestors) {
+            for (const block of ancestor.blocks) {
+                if (seen.has(block.name)) {
+                    continue;
+                }
+                seen.add(block.name);
+                const item = new vscode.CompletionItem(block.name, vscode.CompletionItemKind.Module);
+                item.detail = `Block from ${getTemplateLabel(ancestor)}`;
+                item.documentation = new vscode.MarkdownString(`Defined in \`${vscode.workspace.asRelativePath(ancestor.file.uri)}\``);
+                item.sortText = `${defined.has(block.name) ? 1 : 0}${String(items.length).padStart(3, '0')}`;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    /**
+     * Scans the workspace for shortcode files of the project containing `near`.
      */
-    private async getShortcodeCompletions(): Promise<vscode.CompletionItem[]> {
-        const files = await vscode.workspace.findFiles('**/shortcodes/*.{html,md}');
+    private async getShortcodeCompletions(near: vscode.Uri): Promise<vscode.CompletionItem[]> {
+        const files = (await findShortcodeFiles()).filter(file => isInSameProject(file, near));
         const shortcodeNames = new Set<string>();
 
         files.forEach(file => {
-            const name = path.basename(file.fsPath, path.extname(file.fsPath));
-            shortcodeNames.add(name);
+            shortcodeNames.add(getFileStem(file));
         });
 
         const completionItems: vscode.CompletionItem[] = [];
@@ -319,140 +390,47 @@ export class AllayCompletionItemProvider implements vscode.CompletionItemProvide
     }
 
     /**
-     * Provides field completions based on the parent object.
+     * Offers the parameters of a shortcode that are not passed yet as `name="..."` snippets.
+     * Nothing is offered while typing a value.
      */
-    private async getFieldCompletions(parent: string, document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
-        
-        if (parent === 'site') {
-            const configKeys =  await this.getAllayConfigKeys();
-            const configMetadata = await this.getAllayConfigMetadata();
-            return [...configKeys, ...configMetadata];
+    private async getShortcodeParameterCompletions(name: string, block: ShortcodeBlock, offset: number, document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
+        const current = block.args.find(arg => offset >= arg.span.start && offset <= arg.span.end);
+        if (current && (current.name ? offset > current.name.span.end : current.value?.kind !== 'identifier')) {
+            return [];
         }
 
-        // Matches current page scope (empty string or ending in .page)
-        if (parent === '' || parent === 'this') {
-            return this.getMarkdownPageKeys(document);
+        const shortcode = await readShortcode(name, document.uri);
+        if (!shortcode) {
+            return [];
         }
 
-        return [];
-    }
-
-    private async getAllayConfigMetadata(): Promise<vscode.CompletionItem[]> {
-        const items: vscode.CompletionItem[] = [];
-        const files = await vscode.workspace.findFiles('allay.toml', null, 1);
-        
-        if (files.length === 0) { return []; }
-
-        try {
-            const doc = await vscode.workspace.openTextDocument(files[0]);
-            const text = doc.getText();
-
-            const lines = text.split(/\r?\n/);
-            const rootLines: string[] = [];
-            
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (trimmed.startsWith('[')) {
-                    break;
-                }
-                rootLines.push(line);
-            }
-            
-            const rootContent = rootLines.join('\n');
-
-            const keyRegex = /^\s*([a-zA-Z0-9_-]+)\s*=/gm;
-            let match;
-            
-            while ((match = keyRegex.exec(rootContent)) !== null) {
-                const key = match[1];
-                items.push(this.createFieldItem(key, `Allay config metadata from allay.toml`));
-            }
-
-        } catch (e) {
-            console.error('Error parsing allay.toml root config', e);
-        }
-
-        return items;
-    }
-
-    /**
-     * Scans `allay.toml` for global configuration keys under [Params].
-     */
-    private async getAllayConfigKeys(): Promise<vscode.CompletionItem[]> {
-        const items: vscode.CompletionItem[] = [];
-        const files = await vscode.workspace.findFiles('allay.toml', null, 1);
-        
-        if (files.length === 0) { return []; }
-
-        try {
-            const doc = await vscode.workspace.openTextDocument(files[0]);
-            const text = doc.getText();
-            
-            // Simple regex to find the [Params] section content
-            const paramBlockRegex = /\[Params\]([\s\S]*?)(?:\[|$)/i;
-            const match = text.match(paramBlockRegex);
-            
-            if (match) {
-                const paramContent = match[1];
-                // Match "key =" pattern
-                const keyRegex = /^\s*([a-zA-Z0-9_-]+)\s*=/gm;
-                let keyMatch;
-                while ((keyMatch = keyRegex.exec(paramContent)) !== null) {
-                    items.push(this.createFieldItem(keyMatch[1], `Config from allay.toml`));
-                }
-            }
-        } catch (e) {
-            console.error('Error parsing allay.toml', e);
-        }
-
-        return items;
+        const passed = new Set(block.args.filter(arg => arg !== current && arg.name).map(arg => arg.name!.name));
+        return shortcode.signature.parameters
+            .filter(parameter => !passed.has(parameter.name))
+            .map((parameter, index) => {
+                const item = new vscode.CompletionItem(parameter.name, vscode.CompletionItemKind.Property);
+                item.insertText = new vscode.SnippetString().appendText(`${parameter.name}=`).appendPlaceholder(parameter.defaultValue ?? '""');
+                item.detail = describeParameter(parameter);
+                item.documentation = new vscode.MarkdownString(`Parameter of shortcode \`${shortcode.name}\``);
+                // Required parameters first, then in the order positional arguments bind
+                item.sortText = `${parameter.required ? 0 : 1}${String(index).padStart(3, '0')}`;
+                return item;
+            });
     }
 
     /**
-     * Provides keys for the current markdown page.
-     * Includes standard Front-matter fields and custom fields found in the file.
+     * Lists the fields of a value, e.g. the keys of `allay.toml` for `site` or the front-matter
+     * fields of a page for `this` or `$post` in `{- for $post : pages -}`.
      */
-    private getMarkdownPageKeys(document: vscode.TextDocument): vscode.CompletionItem[] {
-        const items: vscode.CompletionItem[] = [];
-        const existingKeys = new Set<string>();
-
-        // 1. Add Standard Front-matter Fields
-        const standardFields = [
-            'title', 'date', 'description', 'tags', 'template', 'url', 'head', 'content'
-        ];
-
-        standardFields.forEach(field => {
-            items.push(this.createFieldItem(field, 'Standard Page Metadata'));
-            existingKeys.add(field);
+    private getFieldCompletions(type: AllayType): vscode.CompletionItem[] {
+        return Object.entries(getFields(type)).map(([name, field]) => {
+            const kind = field.type.kind === 'object' ? vscode.CompletionItemKind.Module : vscode.CompletionItemKind.Field;
+            const item = new vscode.CompletionItem(name, kind);
+            item.detail = field.detail ?? describeType(field.type);
+            const documentation = new vscode.MarkdownString(field.documentation ?? '');
+            documentation.appendMarkdown(`${field.documentation ? '\n\n' : ''}Type: \`${describeType(field.type)}\``);
+            item.documentation = documentation;
+            return item;
         });
-
-        // 2. Scan Custom Fields in current file's Front-matter
-        const text = document.getText();
-        const yamlMatch = text.match(/^---\s*([\s\S]*?)\s*---/);
-        
-        if (yamlMatch) {
-            const yamlContent = yamlMatch[1];
-            // Match keys at the start of the line (e.g., "custom_field:")
-            const keyRegex = /^\s*([a-zA-Z0-9_-]+):/gm;
-            
-            let keyMatch;
-            while ((keyMatch = keyRegex.exec(yamlContent)) !== null) {
-                const key = keyMatch[1];
-                if (!existingKeys.has(key)) {
-                    items.push(this.createFieldItem(key, 'Front-matter variable from current file'));
-                }
-            }
-        }
-
-        return items;
-    }
-
-    /**
-     * Helper to create a completion item for an object field.
-     */
-    private createFieldItem(label: string, doc: string): vscode.CompletionItem {
-        const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Field);
-        item.detail = doc;
-        return item;
     }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CONFIG_FILE } from './site';
+import { TomlError, parseToml } from './toml';
+import { WorkspaceIndex } from './workspaceIndex';
+
+/**
+ * Reports syntax errors in `allay.toml` files: while typing for open files, as saved on disk for
+ * all others.
+ */
+export class ConfigDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('allay-config');
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly index: WorkspaceIndex) {
+        this.disposables.push(
+            this.collection,
+            index.onDidChange(kind => {
+                if (kind === 'config') {
+                    this.validateAll();
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.validate(event.document)),
+            // Unsaved changes are discarded on close, so fall back to the saved file
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (isConfigDocument(document)) {
+                    this.validateAll();
+                }
+            })
+        );
+        this.validateAll();
+    }
+
+    public async validateAll(): Promise<void> {
+        const configs = await this.index.findConfigs();
+        this.collection.clear();
+        for (const config of configs) {
+            const open = vscode.workspace.textDocuments.find(document => !document.isClosed && document.uri.toString() === config.uri.toString());
+            if (open) {
+                this.validate(open);
+            } else {
+                this.collection.set(config.uri, toDiagnostics(config.text, config.toml.errors));
+            }
+        }
+    }
+
+    private validate(document: vscode.TextDocument): void {
+        if (isConfigDocument(document)) {
+            const text = document.getText();
+            this.collection.set(document.uri, toDiagnostics(text, parseToml(text).errors));
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function isConfigDocument(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === 'file' && path.basename(document.uri.fsPath) === CONFIG_FILE;
+}
+
+/**
+ * Marks each error from its column to the end of the line.
+ */
+function toDiagnostics(text: string, errors: TomlError[]): vscode.Diagnostic[] {
+    const lines = text.split(/\r?\n/);
+    return errors.map(error => {
+        const end = Math.max(lines[error.line]?.length ?? 0, error.column);
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(error.line, error.column, error.line, end), error.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'allay';
+        diagnostic.code = 'toml-syntax';
+        return diagnostic;
+    });
+}
@@ -0,0 +1,141 @@
+import * as path from 'path';
+import { FrontMatter } from './frontMatter';
+
+/**
+ * How the Pages view groups the pages of a project.
+ */
+export type PageGrouping = 'section' | 'date' | 'draft';
+
+/**
+ * What the content views show of a page.
+ */
+export interface ContentPage {
+    /** Path below `content/` with `/` separators, e.g. `posts/hello.md`. */
+    path: string;
+    /** The front-matter `title`, or the file name without extension. */
+    title: string;
+    /** `YYYY-MM-DD` from the front-matter `date`. */
+    date?: string;
+    draft: boolean;
+    tags: string[];
+}
+
+export interface PageGroup {
+    label: string;
+    pages: ContentPage[];
+}
+
+export interface TagCount {
+    tag: string;
+    pages: ContentPage[];
+}
+
+/**
+ * A template with the templates extending it.
+ */
+export interface TemplateNode {
+    name: string;
+    children: TemplateNode[];
+}
+
+const NO_SECTION = '(top level)';
+const NO_DATE = 'No date';
+
+export function toContentPage(relativePath: string, frontMatter?: FrontMatter): ContentPage {
+    const data = frontMatter?.data ?? {};
+    const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : path.posix.parse(relativePath).name;
+    const date = typeof data.date === 'string' ? /^\d{4}-\d{2}-\d{2}/.exec(data.date)?.[0] : undefined;
+    const tags = Array.isArray(data.tags) ? data.tags : [data.tags];
+    return {
+        path: relativePath,
+        title,
+        date,
+        draft: data.draft === true,
+        tags: [...new Set(tags.filter((tag): tag is string => typeof tag === 'string' && tag !== ''))],
+    };
+}
+
+/**
+ * Groups pages by the folder below `content/` they are in, by the month of their date (newest
+ * first, undated pages last) or into drafts and published pages. Pages in a group are sorted by
+ * date, newest first, when grouped by date and by title otherwise.
+ */
+export function groupPages(pages: ContentPage[], by: PageGrouping): PageGroup[] {
+    const groups = new Map<string, ContentPage[]>();
+    for (const page of pages) {
+        const label = getGroupLabel(page, by);
+        groups.set(label, [...(groups.get(label) ?? []), page]);
+    }
+
+    const byTitle = (a: ContentPage, b: ContentPage) => a.title.localeCompare(b.title) || a.path.localeCompare(b.path);
+    const byDate = (a: ContentPage, b: ContentPage) => (b.date ?? '').localeCompare(a.date ?? '') || byTitle(a, b);
+    return [...groups]
+        .map(([label, grouped]) => ({ label, pages: grouped.sort(by === 'date' ? byDate : byTitle) }))
+        .sort((a, b) => compareGroups(a.label, b.label, by));
+}
+
+/**
+ * Counts the pages per tag, most used tags first.
+ */
+export function countTags(pages: ContentPage[]): TagCount[] {
+    const tags = new Map<string, ContentPage[]>();
+    for (const page of pages) {
+        for (const tag of page.tags) {
+            tags.set(tag, [...(tags.get(tag) ?? []), page]);
+        }
+    }
+    return [...tags]
+        .map(([tag, tagged]) => ({ tag, pages: tagged.sort((a, b) => a.title.localeCompare(b.title)) }))
+        .sort((a, b) => b.pages.length - a.pages.length || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Arranges templates by their `extends` parent. Templates without a parent, or whose parent is
+ * not among `templates`, are roots; a template in an `extends` cycle is listed once, as a root.
+ */
+export function buildTemplateTree(templates: { name: string; parent?: string }[]): TemplateNode[] {
+    const names = new Set(templates.map(template => template.name));
+    const children = new Map<string, string[]>();
+    for (const template of templates) {
+        if (template.parent !== undefined && template.parent !== template.name && names.has(template.parent)) {
+            children.set(template.parent, [...(children.get(template.parent) ?? []), template.name]);
+        }
+    }
+
+    const placed = new Set<string>();
+    const build = (name: string): TemplateNode => {
+        placed.add(name);
+        const nested = (children.get(name) ?? []).filter(child => !placed.has(child)).sort();
+        return { name, children: nested.map(build) };
+    };
+    const isRoot = (template: { name: string; parent?: string }) =>
+        template.parent === undefined || template.parent === template.name || !names.has(template.parent);
+    const roots = [...names].filter(name => templates.some(template => template.name === name && isRoot(template))).sort().map(build);
+    // What is left extends itself in a cycle
+    for (const name of [...names].sort()) {
+        if (!placed.has(name)) {
+            roots.push(build(name));
+        }
+    }
+    return roots;
+}
+
+function getGroupLabel(page: ContentPage, by: PageGrouping): string {
+    switch (by) {
+        case 'section':
+            return path.posix.dirname(page.path) === '.' ? NO_SECTION : path.posix.dirname(page.path);
+        case 'date':
+            return page.date?.slice(0, 7) ?? NO_DATE;
+        case 'draft':
+            return page.draft ? 'Drafts' : 'Published';
+    }
+}
+
+function compareGroups(a: string, b: string, by: PageGrouping): number {
+    // The group of pages without a section or date goes last
+    const fallback = by === 'section' ? NO_SECTION : NO_DATE;
+    if (a === fallback || b === fallback) {
+        return Number(a === fallback) - Number(b === fallback);
+    }
+    return by === 'date' ? b.localeCompare(a) : a.localeCompare(b);
+}
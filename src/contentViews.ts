@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContentPage, PageGrouping, TemplateNode, buildTemplateTree, countTags, groupPages, toContentPage } from './contentTree';
+import { readTemplate } from './inheritance';
+import { getShortcodeReferences } from './parser';
+import { AllayProject, AllayProjects } from './projects';
+import { CONTENT_DIR, findProjectRoot } from './site';
+import { FileKind, SourceFile, getFileStem } from './workspace';
+import { WorkspaceIndex } from './workspaceIndex';
+
+const GROUPING_KEY = 'allay.pages.groupBy';
+
+const GROUPINGS: (vscode.QuickPickItem & { grouping: PageGrouping })[] = [
+    { label: '$(folder) Section', description: 'The folder below content/', grouping: 'section' },
+    { label: '$(calendar) Date', description: 'The month of the front-matter date', grouping: 'date' },
+    { label: '$(edit) Draft State', description: 'Drafts and published pages', grouping: 'draft' },
+];
+
+class ProjectItem extends vscode.TreeItem {
+    constructor(public readonly project: AllayProject) {
+        super(project.name, vscode.TreeItemCollapsibleState.Expanded);
+        this.tooltip = project.root;
+        this.iconPath = new vscode.ThemeIcon('root-folder');
+    }
+}
+
+/**
+ * An item whose children are known when it is created.
+ */
+class ParentItem extends vscode.TreeItem {
+    constructor(label: string, public readonly children: vscode.TreeItem[], state = vscode.TreeItemCollapsibleState.Collapsed) {
+        super(label, children.length > 0 ? state : vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * A page, labelled with its title. Clicking it opens the file; the inline action previews it.
+ */
+class PageItem extends vscode.TreeItem {
+    constructor(page: ContentPage, uri: vscode.Uri, description: string | undefined) {
+        super(page.title);
+        this.resourceUri = uri;
+        this.description = description;
+        this.contextValue = 'allayPage';
+        this.iconPath = new vscode.ThemeIcon(page.draft ? 'edit' : 'file');
+        this.command = { title: 'Open Page', command: 'vscode.open', arguments: [uri] };
+
+        const tooltip = new vscode.MarkdownString(`**${page.title}**\n\n\`${CONTENT_DIR}/${page.path}\``);
+        if (page.date) {
+            tooltip.appendMarkdown(`\n\nDate: ${page.date}`);
+        }
+        if (page.tags.length > 0) {
+            tooltip.appendMarkdown(`\n\nTags: ${page.tags.join(', ')}`);
+        }
+        if (page.draft) {
+            tooltip.appendMarkdown('\n\nDraft');
+        }
+        this.tooltip = tooltip;
+    }
+}
+
+/**
+ * Common ground of the content views: one node per project when there are several, otherwise
+ * the items of the only project; refreshed when the workspace index sees files of the given
+ * kinds change.
+ */
+abstract class ContentTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    protected readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        protected readonly projects: AllayProjects,
+        protected readonly index: WorkspaceIndex,
+        kinds: FileKind[]
+    ) {
+        this.disposables.push(
+            index.onDidChange(kind => {
+                if (kinds.includes(kind)) {
+                    this.refresh();
+                }
+            }),
+            projects.onDidChange(() => this.refresh())
+        );
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element instanceof ProjectItem) {
+            return this.getProjectItems(element.project);
+        }
+        if (element) {
+            return element instanceof ParentItem ? element.children : [];
+        }
+        const projects = await this.projects.getProjects();
+        if (projects.length === 1) {
+            return this.getProjectItems(projects[0]);
+        }
+        return projects.map(project => new ProjectItem(project));
+    }
+
+    protected abstract getProjectItems(project: AllayProject): Promise<vscode.TreeItem[]>;
+
+    protected async getPages(project: AllayProject): Promise<{ page: ContentPage; uri: vscode.Uri }[]> {
+        const contentDir = path.join(project.root, CONTENT_DIR);
+        return (await this.index.findPages(project.root)).map(info => ({
+            page: toContentPage(path.relative(contentDir, info.uri.fsPath).split(path.sep).join('/'), info.frontMatter),
+            uri: info.uri,
+        }));
+    }
+
+    /**
+     * Returns whether a template or shortcode file belongs to the project, i.e. lives in a folder
+     * right below its root.
+     */
+    protected isProjectFile(project: AllayProject, uri: vscode.Uri): boolean {
+        return path.dirname(path.dirname(uri.fsPath)) === project.root;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * The Pages view: the pages of each project by section, date or draft state.
+ */
+export class AllayPagesProvider extends ContentTreeProvider {
+    private grouping: PageGrouping;
+
+    constructor(projects: AllayProjects, index: WorkspaceIndex, private readonly state: vscode.Memento) {
+        super(projects, index, ['page', 'config']);
+        this.grouping = state.get<PageGrouping>(GROUPING_KEY, 'section');
+    }
+
+    /**
+     * Asks how to group the pages and remembers the choice for the workspace.
+     */
+    public async pickGrouping(): Promise<void> {
+        const items = GROUPINGS.map(item => ({ ...item, picked: item.grouping === this.grouping }));
+        const picked = await vscode.window.showQuickPick(items, { title: 'Group Pages By' });
+        if (picked) {
+            this.grouping = picked.grouping;
+            await this.state.update(GROUPING_KEY, picked.grouping);
+            this.refresh();
+        }
+    }
+
+    protected async getProjectItems(project: AllayProject): Promise<vscode.TreeItem[]> {
+        const pages = await this.getPages(project);
+        const uris = new Map(pages.map(({ page, uri }) => [page, uri]));
+        return groupPages(pages.map(({ page }) => page), this.grouping).map(group => {
+            const children = group.pages.map(page => new PageItem(page, uris.get(page)!, this.grouping === 'section' ? page.date : page.path));
+            const item = new ParentItem(group.label, children,
+                this.grouping === 'draft' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `${project.root}:${this.grouping}:${group.label}`;
+            item.description = `${group.pages.length}`;
+            item.iconPath = new vscode.ThemeIcon(this.grouping === 'date' ? 'calendar' : this.grouping === 'draft' ? 'edit' : 'folder');
+            return item;
+        });
+    }
+}
+
+/**
+ * The Tags view: the tags of each project's pages, most used first, with the pages using them.
+ */
+export class AllayTagsProvider extends ContentTreeProvider {
+
+    constructor(projects: AllayProjects, index: WorkspaceIndex) {
+        super(projects, index, ['page', 'config']);
+    }
+
+    protected async getProjectItems(project: AllayProject): Promise<vscode.TreeItem[]> {
+        const pages = await this.getPages(project);
+        const uris = new Map(pages.map(({ page, uri }) => [page, uri]));
+        return countTags(pages.map(({ page }) => page)).map(({ tag, pages: tagged }) => {
+            const item = new ParentItem(tag, tagged.map(page => new PageItem(page, uris.get(page)!, page.path)));
+            item.id = `${project.root}:${tag}`;
+            item.description = `${tagged.length} page${tagged.length === 1 ? '' : 's'}`;
+            item.iconPath = new vscode.ThemeIcon('tag');
+            return item;
+        });
+    }
+}
+
+/**
+ * The Templates view: each project's templates nested below the template they extend.
+ */
+export class AllayTemplatesProvider extends ContentTreeProvider {
+
+    constructor(projects: AllayProjects, index: WorkspaceIndex) {
+        super(projects, index, ['template', 'config']);
+    }
+
+    protected async getProjectItems(project: AllayProject): Promise<vscode.TreeItem[]> {
+        const files = (await this.index.findTemplateFiles()).filter(uri => this.isProjectFile(project, uri));
+        const templates = await Promise.all(files.map(readTemplate));
+        const uris = new Map(templates.map(template => [template.name, template.file.uri]));
+
+        const parents = new Map(templates.map(template => [template.name, template.parent?.name]));
+        const toItem = (node: TemplateNode): vscode.TreeItem => {
+            const uri = uris.get(node.name)!;
+            const item = new ParentItem(node.name, node.children.map(toItem), vscode.TreeItemCollapsibleState.Expanded);
+            const parent = parents.get(node.name);
+            item.id = uri.toString();
+            item.resourceUri = uri;
+            // A root with a parent extends a template that does not exist or is part of a cycle
+            item.description = parent !== undefined && !uris.has(parent) ? `extends "${parent}" (not found)` : undefined;
+            item.iconPath = new vscode.ThemeIcon('layout');
+            item.command = { title: 'Open Template', command: 'vscode.open', arguments: [uri] };
+            return item;
+        };
+        const nodes = buildTemplateTree(templates.map(template => ({ name: template.name, parent: parents.get(template.name) })));
+        return nodes.map(toItem);
+    }
+}
+
+/**
+ * The Shortcodes view: each project's shortcodes with how often its pages and templates use them.
+ */
+export class AllayShortcodesProvider extends ContentTreeProvider {
+
+    constructor(projects: AllayProjects, index: WorkspaceIndex) {
+        super(projects, index, ['shortcode', 'template', 'page', 'config']);
+    }
+
+    protected async getProjectItems(project: AllayProject): Promise<vscode.TreeItem[]> {
+        const roots = (await this.projects.getProjects()).map(candidate => candidate.root);
+        const uses = new Map<string, { count: number; files: number }>();
+        for (const uri of await this.index.findSourceFiles()) {
+            if (findProjectRoot(roots, uri.fsPath) !== project.root) {
+                continue;
+            }
+            const file = await SourceFile.read(uri);
+            const names = getShortcodeReferences(file.allayDocument).filter(reference => !reference.closing).map(reference => reference.name);
+            for (const name of new Set(names)) {
+                const counted = uses.get(name) ?? { count: 0, files: 0 };
+                uses.set(name, { count: counted.count + names.filter(candidate => candidate === name).length, files: counted.files + 1 });
+            }
+        }
+
+        const files = (await this.index.findShortcodeFiles()).filter(uri => this.isProjectFile(project, uri));
+        return files
+            .map(uri => ({ uri, name: getFileStem(uri), use: uses.get(getFileStem(uri)) ?? { count: 0, files: 0 } }))
+            .sort((a, b) => b.use.count - a.use.count || a.name.localeCompare(b.name))
+            .map(({ uri, name, use }) => {
+                const item = new vscode.TreeItem(name);
+                item.id = uri.toString();
+                item.resourceUri = uri;
+                item.description = use.count === 0
+                    ? 'unused'
+                    : `${use.count} use${use.count === 1 ? '' : 's'} in ${use.files} file${use.files === 1 ? '' : 's'}`;
+                item.iconPath = new vscode.ThemeIcon('symbol-snippet');
+                item.contextValue = 'allayShortcode';
+                item.command = { title: 'Open Shortcode', command: 'vscode.open', arguments: [uri] };
+                return item;
+            });
+    }
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { AllayServer, ServerState } from './server';
+import { ServerManager } from './serverManager';
+import { AllayProject, AllayProjects } from './projects';
+
+const STATE_LABELS: Record<ServerState, string> = {
+    stopped: 'Stopped',
+    starting: 'Starting',
+    running: 'Running',
+    crashed: 'Crashed',
+};
+
+const STATE_ICONS: Record<ServerState, vscode.ThemeIcon> = {
+    stopped: new vscode.ThemeIcon('circle-slash'),
+    starting: new vscode.ThemeIcon('loading~spin'),
+    running: new vscode.ThemeIcon('radio-tower', new vscode.ThemeColor('testing.iconPassed')),
+    crashed: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')),
+};
+
+class ProjectItem extends vscode.TreeItem {
+    constructor(public readonly project: AllayProject, server: AllayServer | undefined) {
+        super(project.name, vscode.TreeItemCollapsibleState.Expanded);
+        const state = server?.state ?? 'stopped';
+        this.id = project.root;
+        this.description = describeState(server);
+        this.tooltip = project.root;
+        this.iconPath = STATE_ICONS[state];
+    }
+}
+
+/**
+ * The Allay Control view: for each Allay project, its server status, uptime and root, followed by
+ * the server actions that apply to the current state. A single project is shown without a project node.
+ */
+export class AllayControlProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private uptimeTimer: NodeJS.Timeout | undefined;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private readonly manager: ServerManager,
+        private readonly projects: AllayProjects
+    ) {
+        this.disposables.push(
+            manager.onDidChange(() => this.refresh()),
+            projects.onDidChange(() => this.refresh())
+        );
+    }
+
+    public refresh(): void {
+        // Keep the uptime ticking while a server runs
+        const running = this.manager.all.some(server => server.state === 'running');
+        if (running && !this.uptimeTimer) {
+            this.uptimeTimer = setInterval(() => this.changeEmitter.fire(), 1000);
+        } else if (!running && this.uptimeTimer) {
+            clearInterval(this.uptimeTimer);
+            this.uptimeTimer = undefined;
+        }
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element instanceof ProjectItem) {
+            return this.getProjectItems(element.project);
+        }
+        if (element) {
+            return [];
+        }
+
+        // No project leaves the view empty, which shows the welcome content
+        const projects = await this.projects.getProjects();
+        if (projects.length === 1) {
+            return this.getProjectItems(projects[0]);
+        }
+        return projects.map(project => new ProjectItem(project, this.manager.get(project.root)));
+    }
+
+    private getProjectItems(project: AllayProject): vscode.TreeItem[] {
+        const server = this.manager.get(project.root);
+        const state = server?.state ?? 'stopped';
+        const items: vscode.TreeItem[] = [];
+
+        const status = new vscode.TreeItem('Status');
+        status.description = describeState(server);
+        status.iconPath = STATE_ICONS[state];
+        status.tooltip = state === 'crashed' ? server?.lastError : server?.url;
+        items.push(status);
+
+        if (state === 'running' && server?.startedAt !== undefined) {
+            const uptime = new vscode.TreeItem('Uptime');
+            uptime.description = formatDuration(Date.now() - server.startedAt);
+            uptime.iconPath = new vscode.ThemeIcon('clock');
+            items.push(uptime);
+        }
+
+        const root = new vscode.TreeItem('Project Root');
+        root.description = project.root;
+        root.tooltip = project.root;
+        root.iconPath = new vscode.ThemeIcon('root-folder');
+        root.command = { title: 'Reveal in Explorer', command: 'revealInExplorer', arguments: [vscode.Uri.file(project.root)] };
+        items.push(root);
+
+        const action = (label: string, command: string, icon: string) => {
+            const item = new vscode.TreeItem(label);
+            item.iconPath = new vscode.ThemeIcon(icon);
+            item.command = { title: label, command, arguments: [project.root] };
+            items.push(item);
+        };
+        if (state === 'stopped' || state === 'crashed') {
+            action('Start Server', 'allay.startServer', 'play');
+        } else {
+            action('Stop Server', 'allay.stopServer', 'debug-stop');
+        }
+        if (state !== 'stopped') {
+            action('Restart Server', 'allay.restartService', 'debug-restart');
+        }
+        if (state === 'running') {
+            action('Open in Browser', 'allay.openInBrowser', 'globe');
+        }
+        action('Open Preview', 'allay.preview', 'open-preview');
+        action('Show Log', 'allay.showLog', 'output');
+
+        return items;
+    }
+
+    dispose(): void {
+        if (this.uptimeTimer) {
+            clearInterval(this.uptimeTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.changeEmitter.dispose();
+    }
+}
+
+function describeState(server: AllayServer | undefined): string {
+    const state = server?.state ?? 'stopped';
+    return state === 'running' ? `${STATE_LABELS[state]} on port ${server?.port}` : STATE_LABELS[state];
+}
+
+/**
+ * Formats milliseconds as e.g. `42s`, `5m 03s` or `2h 05m`.
+ */
+function formatDuration(milliseconds: number): string {
+    const seconds = Math.floor(milliseconds / 1000);
+    const minutes = Math.floor(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    if (hours > 0) {
+        return `${hours}h ${pad(minutes % 60)}m`;
+    }
+    if (minutes > 0) {
+        return `${minutes}m ${pad(seconds % 60)}s`;
+    }
+    return `${seconds}s`;
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { getAllayDocument, toRange } from './allayDocument';
+import { findSymbolAt, findVariableBinding } from './parser';
+import { findOverridden, getAncestors, readTemplate } from './inheritance';
+import { findSiteEntry } from './site';
+import { findFrontMatterKeyLine, isInSameProject } from './workspace';
+import { findConfig, findShortcodeFiles, findTemplateFiles } from './workspaceIndex';
+
+/**
+ * Resolves Allay names to where they are defined:
+ * include/extends targets and shortcode tags to their files, `$var` to its `set`/`for` binding,
+ * `site.X` to the key in `allay.toml`, `this.X` to the front-matter key and a `block` name to
+ * the parent block it overrides.
+ */
+export class AllayDefinitionProvider implements vscode.DefinitionProvider {
+
+    public async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Definition | vscode.LocationLink[] | undefined> {
+        const allayDocument = getAllayDocument(document);
+        const offset = document.offsetAt(position);
+        const symbol = findSymbolAt(allayDocument, offset);
+        if (!symbol) {
+            return undefined;
+        }
+
+        const originSelectionRange = toRange(document, symbol.span);
+        // Only the files of this document's project; other projects may use the same names
+        const fileLinks = (files: vscode.Uri[]): vscode.LocationLink[] => files.filter(file => isInSameProject(file, document.uri)).map(file => ({
+            originSelectionRange,
+            targetUri: file,
+            targetRange: new vscode.Range(0, 0, 0, 0),
+        }));
+
+        switch (symbol.kind) {
+            case 'template':
+                return fileLinks(await findTemplateFiles(symbol.name));
+
+            case 'shortcode':
+                return fileLinks(await findShortcodeFiles(symbol.name));
+
+            case 'block': {
+                const { ancestors } = await getAncestors(await readTemplate(document.uri));
+                const overridden = findOverridden(ancestors, symbol.name);
+                if (!overridden) {
+                    return undefined;
+                }
+                return [{
+                    originSelectionRange,
+                    targetUri: overridden.template.file.uri,
+                    targetRange: overridden.template.file.rangeOf(overridden.block.span),
+                }];
+            }
+
+            case 'variable': {
+                const binding = findVariableBinding(allayDocument, symbol.name, offset);
+                if (!binding) {
+                    return undefined;
+                }
+                return new vscode.Location(document.uri, toRange(document, binding.span));
+            }
+
+            case 'field':
+                return this.getFieldDefinition(symbol.path, document);
+        }
+        return undefined;
+    }
+
+    private async getFieldDefinition(fieldPath: string, document: vscode.TextDocument): Promise<vscode.Location | undefined> {
+        const segments = fieldPath.split('.');
+        if (segments[0] === 'site' && segments.length > 1) {
+            const config = await findConfig(document.uri);
+            const entry = config && findSiteEntry(config.toml, segments.slice(1));
+            return entry && new vscode.Location(config.uri, new vscode.Position(entry.line, entry.column));
+        }
+        if (segments.length !== 2) {
+            return undefined;
+        }
+        const [parent, key] = segments;
+
+        if (parent === '' || parent === 'this') {
+            const line = findFrontMatterKeyLine(document.getText(), key);
+            return line === undefined ? undefined : new vscode.Location(document.uri, new vscode.Position(line, 0));
+        }
+
+        return undefined;
+    }
+}
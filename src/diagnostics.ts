@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { getAllayDocument, isAllayDocument, toRange } from './allayDocument';
+import { AllayDocument, IMPLICIT_LOOP_VARIABLES, analyzeVariables, getVariableBindings } from './parser';
+import { AllayProjects } from './projects';
+
+/**
+ * Produces diagnostics for one parsed document.
+ */
+export type AllayValidator = (document: vscode.TextDocument, allayDocument: AllayDocument) => vscode.Diagnostic[] | Promise<vscode.Diagnostic[]>;
+
+const VALIDATION_DELAY = 300;
+
+/**
+ * Live diagnostics for Allay markup in Markdown and HTML files of an Allay project; other
+ * documents, such as files outside any project, diffs and untitled buffers, are left alone.
+ * Documents are re-validated shortly after each edit; syntax and structure errors from the
+ * parser and variable scoping are always checked, further checks can be plugged in with `addValidator`.
+ */
+export class AllayDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('allay');
+    private readonly validators: AllayValidator[] = [parseErrors, variableUsage];
+    private readonly pending = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly projects: AllayProjects,
+        private readonly logChannel: vscode.LogOutputChannel
+    ) {
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancel(document);
+                this.collection.delete(document.uri);
+            }),
+            // Files become part of a project when its allay.toml appears, and leave it when it goes
+            projects.onDidChange(() => this.validateAll())
+        );
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    public addValidator(validator: AllayValidator): void {
+        this.validators.push(validator);
+        this.validateAll();
+    }
+
+    /**
+     * Re-validates every open document, e.g. after project files they depend on changed.
+     */
+    public validateAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    public async validate(document: vscode.TextDocument): Promise<void> {
+        this.cancel(document);
+        if (!isAllayDocument(document) || document.uri.scheme !== 'file') {
+            return;
+        }
+        await this.projects.getProjects();
+        if (!this.projects.findProject(document.uri)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const version = document.version;
+        const allayDocument = getAllayDocument(document);
+        // Validators reading other files may fail, e.g. on a file deleted meanwhile; the others still report
+        const results = await Promise.allSettled(this.validators.map(async validator => validator(document, allayDocument)));
+
+        // Drop stale results if the document changed or was closed meanwhile
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const result of results) {
+            if (result.status === 'fulfilled') {
+                diagnostics.push(...result.value);
+            } else {
+                const reason = result.reason instanceof Error ? result.reason.message : result.reason;
+                this.logChannel.warn(`Could not validate ${document.uri.fsPath}: ${reason}`);
+            }
+        }
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        this.cancel(document);
+        const key = document.uri.toString();
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.validate(document);
+        }, VALIDATION_DELAY));
+    }
+
+    private cancel(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const timer = this.pending.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.pending.delete(key);
+        }
+    }
+
+    dispose(): void {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.pending.clear();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Reports syntax errors and unbalanced structure found by the parser.
+ */
+function parseErrors(document: vscode.TextDocument, allayDocument: AllayDocument): vscode.Diagnostic[] {
+    return allayDocument.errors.map(error => {
+        const diagnostic = new vscode.Diagnostic(toRange(document, error.span), error.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'allay';
+        if (error.code) {
+            diagnostic.code = error.code;
+        }
+        return diagnostic;
+    });
+}
+
+/**
+ * Warns about variables used where no `set` or `for` binds them and hints at bindings that are
+ * never used.
+ */
+function variableUsage(document: vscode.TextDocument, allayDocument: AllayDocument): vscode.Diagnostic[] {
+    const { undefinedUses, unusedVariables } = analyzeVariables(allayDocument);
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const use of undefinedUses) {
+        const bindings = getVariableBindings(allayDocument, use.name);
+        let message: string;
+        if (IMPLICIT_LOOP_VARIABLES.includes(use.name)) {
+            message = `\`${use.name}\` is only defined inside a \`for\` loop.`;
+        } else if (bindings.length === 0) {
+            message = `\`${use.name}\` is not defined.`;
+        } else if (bindings.every(binding => binding.span.start > use.span.start)) {
+            message = `\`${use.name}\` is used before it is set.`;
+        } else {
+            message = `\`${use.name}\` is used outside the \`for\` or branch that defines it.`;
+        }
+        const diagnostic = new vscode.Diagnostic(toRange(document, use.span), message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = 'allay';
+        diagnostic.code = 'undefined-variable';
+        diagnostics.push(diagnostic);
+    }
+
+    for (const variable of unusedVariables) {
+        const diagnostic = new vscode.Diagnostic(toRange(document, variable.binding!.span), `\`${variable.name}\` is never used.`, vscode.DiagnosticSeverity.Hint);
+        diagnostic.source = 'allay';
+        diagnostic.code = 'unused-variable';
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        diagnostics.push(diagnostic);
+    }
+    return diagnostics;
+}
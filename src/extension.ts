@@ -1,31 +1,62 @@
 import * as vscode from 'vscode';
-import { ChildProcess, spawn } from 'child_process';
 import { AllayCompletionItemProvider } from './completionProvider';
-
-let serverProcess: ChildProcess | null = null;
-let previewPanel: vscode.WebviewPanel | null = null;
+import { AllayDiagnostics } from './diagnostics';
+import { ALLAY_LANGUAGES, forgetAllayDocument } from './allayDocument';
+import { ServerProblems } from './serverProblems';
+import { AllayDefinitionProvider } from './definitionProvider';
+import { AllayReferenceProvider } from './referenceProvider';
+import { AllayRenameProvider } from './renameProvider';
+import { AllayHoverProvider } from './hoverProvider';
+import { AllayDocumentSymbolProvider } from './symbolProvider';
+import { AllayFoldingRangeProvider } from './foldingProvider';
+import { AllayCodeLensProvider } from './codeLensProvider';
+import { AllayImplementationProvider } from './implementationProvider';
+import { validateBlockOverrides } from './inheritance';
+import { AllaySignatureHelpProvider } from './signatureHelpProvider';
+import { validateShortcodeCalls } from './shortcodeSignatures';
+import { AllayFrontMatterCompletionProvider, validatePageFrontMatter } from './frontMatterProvider';
+import { AllayFormattingProvider } from './formattingProvider';
+import { AllayCodeActionProvider, extractSelection } from './codeActionProvider';
+import { AllaySemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokensProvider';
+import { WorkspaceIndex } from './workspaceIndex';
+import { ConfigDiagnostics } from './configDiagnostics';
+import { AllayServer } from './server';
+import { ServerManager } from './serverManager';
+import { ServerStatusBar } from './serverStatusBar';
+import { AllayControlProvider } from './controlView';
+import { AllayPagesProvider, AllayShortcodesProvider, AllayTagsProvider, AllayTemplatesProvider } from './contentViews';
+import { AllayProject, AllayProjects, checkProjectStructure, getProjectName } from './projects';
+import { parseFrontMatter } from './frontMatter';
+import { getPageUrl } from './site';
+import { AllayPreviewPanel } from './previewPanel';
+import { ALLAY_TASK_TYPE, AllayTaskProvider } from './taskProvider';
+import { buildSite } from './siteBuild';
+import { SiteChecker } from './siteChecker';
+import { newPage, newShortcode, newTemplate } from './scaffolding';
+
+let serverManager: ServerManager | null = null;
+const previewPanels = new Map<string, AllayPreviewPanel>();
 let logChannel: vscode.LogOutputChannel;
 
-const ALLAY_PORT = 8000;
-
 export function activate(context: vscode.ExtensionContext) {
 
-	// Register an empty TreeDataProvider to create the Allay view
-	vscode.window.registerTreeDataProvider('allay-view', new class implements vscode.TreeDataProvider<vscode.TreeItem> {
-		getTreeItem(element: any): vscode.TreeItem {
-			return element;
-		}
-		getChildren(element?: any): vscode.ProviderResult<vscode.TreeItem[]> {
-			return [];
-		}
-	});
-
 	// Create a log output channel
 	logChannel = vscode.window.createOutputChannel('Allay', { log: true });
 
+	// Index templates, shortcodes, allay.toml files and page front matter once, for all providers
+	const index = new WorkspaceIndex(logChannel);
+	context.subscriptions.push(index);
+
+	// Report syntax errors in allay.toml files
+	context.subscriptions.push(new ConfigDiagnostics(index));
+
+	// Find Allay projects by their allay.toml files
+	const projects = new AllayProjects(index);
+	context.subscriptions.push(projects);
+
 	// Register the completion provider for Markdown and HTML files
     const completionProvider = vscode.languages.registerCompletionItemProvider(
-        ['markdown', 'html'],
+        ALLAY_LANGUAGES,
         new AllayCompletionItemProvider(),
         ' ',  // Triggers general completions after a space
 		'-',  // Triggers command block completion (e.g., "{-")
@@ -39,238 +70,304 @@ export function activate(context: vscode.ExtensionContext) {
     );
 	context.subscriptions.push(completionProvider);
 
-	const startService = (projectRoot: string) => {
-		// If a server process is already running, kill it
-		if (serverProcess) {
-			logChannel.info('Killing existing Allay server process.');
-			serverProcess.kill();
+	// Go to Definition and Find All References for templates, shortcodes, variables and fields
+	context.subscriptions.push(vscode.languages.registerDefinitionProvider(ALLAY_LANGUAGES, new AllayDefinitionProvider()));
+	context.subscriptions.push(vscode.languages.registerReferenceProvider(ALLAY_LANGUAGES, new AllayReferenceProvider()));
+
+	// Rename variables within their scope, and shortcodes, templates and blocks across the project
+	context.subscriptions.push(vscode.languages.registerRenameProvider(ALLAY_LANGUAGES, new AllayRenameProvider()));
+
+	// Hover documentation for keywords, built-ins, config keys and shortcodes
+	context.subscriptions.push(vscode.languages.registerHoverProvider(ALLAY_LANGUAGES, new AllayHoverProvider()));
+
+	// Outline, breadcrumbs and folding for control regions and shortcode pairs
+	context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider(ALLAY_LANGUAGES, new AllayDocumentSymbolProvider(), { label: 'Allay' }));
+	context.subscriptions.push(vscode.languages.registerFoldingRangeProvider(ALLAY_LANGUAGES, new AllayFoldingRangeProvider()));
+
+	// Semantic highlighting, flagging undefined variables and unknown shortcodes
+	const semanticTokensProvider = new AllaySemanticTokensProvider();
+	context.subscriptions.push(semanticTokensProvider);
+	context.subscriptions.push(vscode.languages.registerDocumentSemanticTokensProvider(ALLAY_LANGUAGES, semanticTokensProvider, SEMANTIC_TOKENS_LEGEND));
+
+	// Format Document / Format Selection: block spacing and control-flow indentation
+	const formattingProvider = new AllayFormattingProvider();
+	context.subscriptions.push(vscode.languages.registerDocumentFormattingEditProvider(ALLAY_LANGUAGES, formattingProvider));
+	context.subscriptions.push(vscode.languages.registerDocumentRangeFormattingEditProvider(ALLAY_LANGUAGES, formattingProvider));
+
+	// Report malformed blocks and unbalanced control flow while typing
+	const diagnostics = new AllayDiagnostics(projects, logChannel);
+	context.subscriptions.push(diagnostics);
+	context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(forgetAllayDocument));
+
+	// Template inheritance: parent/child block navigation, override lenses and unknown block warnings
+	const codeLensProvider = new AllayCodeLensProvider();
+	context.subscriptions.push(vscode.languages.registerCodeLensProvider(ALLAY_LANGUAGES, codeLensProvider));
+	context.subscriptions.push(vscode.languages.registerImplementationProvider(ALLAY_LANGUAGES, new AllayImplementationProvider()));
+	diagnostics.addValidator(validateBlockOverrides);
+
+	// Shortcode parameters: signature help while typing arguments and warnings for mismatched calls
+	context.subscriptions.push(vscode.languages.registerSignatureHelpProvider(ALLAY_LANGUAGES, new AllaySignatureHelpProvider(), ' ', '='));
+	diagnostics.addValidator(validateShortcodeCalls);
+
+	// Front matter of content pages: completion and validation against the project's schema
+	context.subscriptions.push(vscode.languages.registerCompletionItemProvider(ALLAY_LANGUAGES, new AllayFrontMatterCompletionProvider(), ' ', '[', ','));
+	diagnostics.addValidator(validatePageFrontMatter);
+
+	// Quick fixes for unclosed regions, undefined variables and missing files; extracting markup into a template or shortcode
+	context.subscriptions.push(vscode.languages.registerCodeActionsProvider(ALLAY_LANGUAGES, new AllayCodeActionProvider(), {
+		providedCodeActionKinds: AllayCodeActionProvider.providedCodeActionKinds,
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('allay.extractSelection', extractSelection));
+
+	// Templates, shortcodes and allay.toml changed on disk affect lenses and warnings in other files
+	context.subscriptions.push(index.onDidChange(kind => {
+		if (kind === 'template') {
+			codeLensProvider.refresh();
 		}
+		if (kind === 'shortcode') {
+			semanticTokensProvider.refresh();
+		}
+		if (kind === 'template' || kind === 'shortcode' || kind === 'config') {
+			diagnostics.validateAll();
+		}
+	}));
+
+	// Map errors printed by the Allay server to the Problems panel
+	const serverProblems = new ServerProblems(logChannel);
+	context.subscriptions.push(serverProblems);
+
+	// Own one Allay server per project and show their state in the status bar and the Allay Control view
+	const manager = new ServerManager(logChannel, serverProblems);
+	serverManager = manager;
+	context.subscriptions.push(manager);
+	context.subscriptions.push(new ServerStatusBar(manager, projects));
+
+	const controlProvider = new AllayControlProvider(manager, projects);
+	context.subscriptions.push(controlProvider);
+	context.subscriptions.push(vscode.window.registerTreeDataProvider('allay-view', controlProvider));
+	context.subscriptions.push(manager.onDidChange(() => {
+		vscode.commands.executeCommand('setContext', 'allay.serverState', manager.current?.state ?? 'stopped');
+	}));
+	vscode.commands.executeCommand('setContext', 'allay.serverState', 'stopped');
+
+	// The status bar shows the server of the project containing the active editor
+	const updateActiveProject = () => {
+		const document = vscode.window.activeTextEditor?.document;
+		const project = document?.uri.scheme === 'file' ? projects.findProject(document.uri) : undefined;
+		if (project) {
+			manager.setActiveProject(project.root);
+		}
+	};
+	context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(updateActiveProject));
+	context.subscriptions.push(projects.onDidChange(updateActiveProject));
 
-		// Get configuration settings
-		const config = vscode.workspace.getConfiguration('allay');
-
-		// Get the path to the Allay server executable
-		const allayExecutable = config.get<string>('path') || 'allay';
-		vscode.window.showInformationMessage('Using Allay executable at: ' + allayExecutable);
-		logChannel.info('Using Allay executable at: ' + allayExecutable);
-
-		// Start a new Allay server process
-		serverProcess = spawn(allayExecutable, ['--root', projectRoot, 'serve'], {
-			cwd: projectRoot,
-			shell: false // Set to false for security, and because we don't need shell features
-		});
+	// Commands run from the Allay view pass the project root; otherwise the project is picked
+	const resolveProject = async (projectRoot: unknown, placeHolder: string): Promise<AllayProject | undefined> => {
+		if (typeof projectRoot === 'string') {
+			return { root: projectRoot, name: getProjectName(projectRoot) };
+		}
+		return projects.pick(placeHolder);
+	};
 
-		serverProcess.stdout?.on('data', (data) => {
-			logChannel.info(`Allay stdout: ${data}`);
-		});
+	const startServer = async (projectRoot?: unknown) => {
+		const project = await resolveProject(projectRoot, 'Select the Allay project to serve');
+		if (project && await checkProjectStructure(project, logChannel)) {
+			await manager.start(manager.getServer(project.root));
+		}
+	};
 
-		serverProcess.stderr?.on('data', (data) => {
-			logChannel.error(`Allay stderr: ${data}`);
-			vscode.window.showErrorMessage(`Allay error: ${data}`);
-		});
+	// Servers picked for stop, restart and open: the given project, else the one in the status bar
+	const resolveServer = (projectRoot?: unknown): AllayServer | undefined => {
+		return typeof projectRoot === 'string' ? manager.get(projectRoot) : manager.current;
 	};
 
-	const previewCommand = vscode.commands.registerCommand('allay.preview', () => {
-		// Check workspace folder
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
-			logChannel.error('No workspace folder is open.');
-			vscode.window.showErrorMessage('Please open a workspace folder to use Allay Preview.');
+	const previewCommand = vscode.commands.registerCommand('allay.preview', async (projectRoot?: unknown) => {
+		const project = await resolveProject(projectRoot, 'Select the Allay project to preview');
+		if (!project) {
 			return;
 		}
-		const projectRoot = workspaceFolders[0].uri.fsPath;
-		logChannel.info('Using workspace folder: ' + projectRoot);
-
-		// Check structure of workspace folder
-		// PASS, implement later
+		logChannel.info('Using Allay project: ' + project.root);
 
 		// Display the preview panel if it has already been created
-		if (previewPanel) {
+		const existing = previewPanels.get(project.root);
+		if (existing) {
 			logChannel.info('Revealing existing preview panel.');
-			previewPanel.reveal(vscode.ViewColumn.Two);
+			existing.reveal();
+			return;
+		}
+
+		// Check structure of the project
+		if (!await checkProjectStructure(project, logChannel)) {
 			return;
 		}
 
 		// Create and show a new webview panel
 		logChannel.info('Creating new preview panel.');
-		previewPanel = vscode.window.createWebviewPanel(
-			'allayPreview',
-			'Allay Preview',
-			vscode.ViewColumn.Two, // Show in second column
-			{
-				enableScripts: true,
-				retainContextWhenHidden: true
-			}
-		);
+		const server = manager.getServer(project.root);
+		const title = (await projects.getProjects()).length > 1 ? `Allay Preview: ${project.name}` : 'Allay Preview';
+		const panel = new AllayPreviewPanel(server, title, logChannel, () => manager.start(server));
+		previewPanels.set(project.root, panel);
+		panel.onDidDispose(() => previewPanels.delete(project.root));
+
+		// Start the Allay server unless it is already running
+		if (server.state === 'stopped' || server.state === 'crashed') {
+			await manager.start(server);
+		}
+	});
 
-		// Start the Allay server process
-		startService(projectRoot);
-
-		// Listen message form webview to handle navigation
-		previewPanel.webview.onDidReceiveMessage(
-			async (message) => {
-				switch (message.command)
-				{
-					case 'openExternal':
-						if (message.url) {
-							const uri = vscode.Uri.parse(message.url);
-							await vscode.env.openExternal(uri);
-						}
-						break;
-					// ... more commands later, maybe
-				}
-			},
-			undefined,
-			context.subscriptions
-		);
+	const restartCommand = vscode.commands.registerCommand('allay.restartService', async (projectRoot?: unknown) => {
+		const server = resolveServer(projectRoot);
+		if (server) {
+			await manager.start(server);
+		} else {
+			await startServer(projectRoot);
+		}
+	});
 
-		// Set the webview panel's HTML to load the Allay server
-		previewPanel.webview.html = getWebviewContent(ALLAY_PORT);
+	const startCommand = vscode.commands.registerCommand('allay.startServer', startServer);
 
-		// Handle panel disposal
-		previewPanel.onDidDispose(() => {
-			if (serverProcess) {
-				serverProcess.kill();
-				serverProcess = null;
-			}
-			previewPanel = null;
-		}, null, context.subscriptions);
+	const stopCommand = vscode.commands.registerCommand('allay.stopServer', (projectRoot?: unknown) => {
+		resolveServer(projectRoot)?.stop();
+	});
 
+	const toggleCommand = vscode.commands.registerCommand('allay.toggleServer', async () => {
+		const server = manager.current;
+		if (server?.state === 'starting' || server?.state === 'running') {
+			server.stop();
+		} else if (server) {
+			await manager.start(server);
+		} else {
+			await startServer();
+		}
 	});
 
-	const restartCommand = vscode.commands.registerCommand('allay.restartService', () => {
-        if (!serverProcess) {
-            return;
-        } else {
-			serverProcess.kill();
+	const openInBrowserCommand = vscode.commands.registerCommand('allay.openInBrowser', async (projectRoot?: unknown) => {
+		const server = resolveServer(projectRoot);
+		if (server?.state !== 'running' || !server.url) {
+			vscode.window.showWarningMessage('The Allay server is not running.');
+			return;
 		}
+		const path = previewPanels.get(server.projectRoot)?.currentPath ?? '/';
+		await vscode.env.openExternal(vscode.Uri.parse(server.url + path));
+	});
 
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            return;
-        }
-        const projectRoot = workspaceFolders[0].uri.fsPath;
-
-        startService(projectRoot);
-        vscode.window.showInformationMessage('Allay Service Restarted');
-        
-        if (previewPanel) {
-             previewPanel.webview.html = getWebviewContent(ALLAY_PORT);
-        }
+	// Broken links, missing assets and unknown templates or shortcodes, checked on save or for a whole project
+	const siteChecker = new SiteChecker(projects, index, logChannel);
+	context.subscriptions.push(siteChecker);
+	const checkSiteCommand = vscode.commands.registerCommand('allay.checkSite', async (projectRoot?: unknown) => {
+		const project = await resolveProject(projectRoot, 'Select the Allay project to check');
+		const result = project && await siteChecker.checkSite(project);
+		if (!project || !result) {
+			return;
+		}
+		logChannel.info(`Checked ${result.files} files of ${project.root}: ${result.problems} problems.`);
+		if (result.problems === 0) {
+			vscode.window.showInformationMessage(`Checked ${result.files} files of ${project.name}: no broken links or missing files.`);
+			return;
+		}
+		const action = await vscode.window.showWarningMessage(
+			`Checked ${result.files} files of ${project.name}: ${result.problems} problem${result.problems === 1 ? '' : 's'} found.`,
+			'Show Problems'
+		);
+		if (action) {
+			vscode.commands.executeCommand('workbench.actions.view.problems');
+		}
+	});
+
+	// Browse the site by pages, tags, templates and shortcodes; a page can be opened in the preview
+	const pagesProvider = new AllayPagesProvider(projects, index, context.workspaceState);
+	const contentViews: [string, vscode.TreeDataProvider<vscode.TreeItem> & vscode.Disposable][] = [
+		['allay-pages', pagesProvider],
+		['allay-tags', new AllayTagsProvider(projects, index)],
+		['allay-templates', new AllayTemplatesProvider(projects, index)],
+		['allay-shortcodes', new AllayShortcodesProvider(projects, index)],
+	];
+	for (const [viewId, provider] of contentViews) {
+		context.subscriptions.push(provider, vscode.window.registerTreeDataProvider(viewId, provider));
+	}
+	const groupPagesCommand = vscode.commands.registerCommand('allay.groupPages', () => pagesProvider.pickGrouping());
+	const previewPageCommand = vscode.commands.registerCommand('allay.previewPage', async (target?: unknown) => {
+		const uri = target instanceof vscode.Uri ? target : target instanceof vscode.TreeItem ? target.resourceUri : vscode.window.activeTextEditor?.document.uri;
+		const project = uri && projects.findProject(uri);
+		if (!uri || !project) {
+			return;
+		}
+		const document = await vscode.workspace.openTextDocument(uri);
+		const url = getPageUrl(project.root, uri.fsPath, parseFrontMatter(document.getText()));
+		if (!url) {
+			vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(uri)} is not a page of the site.`);
+			return;
+		}
+		await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: true });
+		await vscode.commands.executeCommand('allay.preview', project.root);
+		previewPanels.get(project.root)?.navigate(url);
+	});
+
+	// Allay subcommands as tasks, and a production build with progress from the command palette;
+	// build errors are kept apart from those of a server running for the same project
+	context.subscriptions.push(vscode.tasks.registerTaskProvider(ALLAY_TASK_TYPE, new AllayTaskProvider(projects)));
+	const buildProblems = new ServerProblems(logChannel, 'build');
+	context.subscriptions.push(buildProblems);
+	const buildSiteCommand = vscode.commands.registerCommand('allay.buildSite', async (projectRoot?: unknown) => {
+		const project = await resolveProject(projectRoot, 'Select the Allay project to build');
+		if (project) {
+			await buildSite(project, logChannel, buildProblems);
+		}
+	});
+
+	// New pages, templates and shortcodes; run from the Explorer, the folder decides the project
+	const scaffoldCommands = ([
+		['allay.newPage', newPage],
+		['allay.newTemplate', newTemplate],
+		['allay.newShortcode', newShortcode],
+	] as const).map(([command, create]) => vscode.commands.registerCommand(command, async (target?: unknown) => {
+		const project = target instanceof vscode.Uri
+			? projects.findProject(target)
+			: await resolveProject(target, 'Select the Allay project to add to');
+		if (project) {
+			await create(project, target instanceof vscode.Uri ? target : undefined);
+		}
+	}));
+
+	const showLogCommand = vscode.commands.registerCommand('allay.showLog', () => {
+		logChannel.show();
+	});
+
+	// Report how the workspace index performs, optionally timing a fresh build
+	const indexStatisticsCommand = vscode.commands.registerCommand('allay.showIndexStatistics', async () => {
+		const log = () => {
+			const stats = index.getStatistics();
+			logChannel.info(
+				`Workspace index: ${stats.sources} source files (${stats.templates} templates, ${stats.shortcodes} shortcodes, ${stats.pages} pages), ` +
+				`${stats.configs} allay.toml files. Built in ${stats.buildTime} ms; ${stats.updates} updates in ${stats.updateTime} ms; ` +
+				`${stats.queries} queries in ${stats.queryTime} ms.`
+			);
+			return stats;
+		};
+		const stats = log();
+		const action = await vscode.window.showInformationMessage(
+			`Allay indexed ${stats.sources} files in ${stats.buildTime} ms and answered ${stats.queries} queries in ${stats.queryTime} ms.`,
+			'Rebuild Index', 'Show Log'
+		);
+		if (action === 'Rebuild Index') {
+			await index.rebuild();
+			const rebuilt = log();
+			vscode.window.showInformationMessage(`Allay rebuilt the workspace index of ${rebuilt.sources} files in ${rebuilt.buildTime} ms.`);
+		} else if (action === 'Show Log') {
+			logChannel.show();
+		}
 	});
 
 	context.subscriptions.push(previewCommand);
 	context.subscriptions.push(restartCommand);
-}
-
-function getWebviewContent(port: number): string {
-	const url = `http://localhost:${port}`;
-	const ipUrl = `http://127.0.0.1:${port}`;
-    return `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-R">
-            <meta http-equiv="Content-Security-Policy" content="
-                default-src 'none';
-                img-src data: https:;
-                script-src 'unsafe-inline';
-                style-src 'unsafe-inline';
-                frame-src ${url} ${ipUrl} ;
-            ">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Allay Preview</title>
-            <style>
-                html, body {
-                    height: 100vh;
-                    width: 100%;
-                    margin: 0;
-                    padding: 0;
-                    overflow: hidden;
-                }
-                body {
-                    display: flex;
-                    flex-direction: column;
-                }
-                #toolbar {
-                    flex-shrink: 0;
-                    padding: 4px 8px;
-                    background-color: var(--vscode-sideBar-background);
-                    border-bottom: 1px solid var(--vscode-panel-border);
-                }
-                #toolbar button {
-                    background-color: var(--vscode-button-background);
-                    color: var(--vscode-button-foreground);
-                    border: 1px solid var(--vscode-button-border, transparent);
-                    padding: 4px 8px;
-                    cursor: pointer;
-                }
-                #toolbar button:hover {
-                    background-color: var(--vscode-button-hoverBackground);
-                }
-                iframe {
-                    flex-grow: 1; 
-                    width: 100%;
-                    margin: 0;
-                    padding: 0;
-                    border: none;
-                    overflow: hidden;
-                }
-            </style>
-        </head>
-        <body>
-            <div id="toolbar">
-                <button id="history-back"><-</button>
-                <button id="history-forward">-></button>
-            </div>
-            
-            <iframe id="content-iframe" src="${url}"></iframe>
-
-            <script>
-                (function() {
-					const vscode = acquireVsCodeApi();
-
-                    const iframe = document.getElementById('content-iframe');
-                    const backButton = document.getElementById('history-back');
-                    const forwardButton = document.getElementById('history-forward');
-
-                    const targetOrigin = '${url}';
-					const targetIpOrigin = '${ipUrl}';
-
-                    backButton.addEventListener('click', () => {
-                        iframe.contentWindow.postMessage({ command: 'navigateBack' }, targetOrigin);
-						iframe.contentWindow.postMessage({ command: 'navigateBack' }, targetIpOrigin);
-                    });
-
-                    forwardButton.addEventListener('click', () => {
-                        iframe.contentWindow.postMessage({ command: 'navigateForward' }, targetOrigin);
-						iframe.contentWindow.postMessage({ command: 'navigateForward' }, targetIpOrigin);
-                    });
-
-					window.addEventListener('message', event => {
-						if (event.origin !== targetOrigin) {
-							return;
-						}
-						const message = event.data;
-						if (message.command === 'openExternal' && message.url) {
-							vscode.postMessage({ 
-								command: 'openExternal', 
-								url: message.url 
-							});
-						}
-					});
-                }());
-            </script>
-        </body>
-        </html>
-    `;
+	context.subscriptions.push(startCommand, stopCommand, toggleCommand, openInBrowserCommand, buildSiteCommand, showLogCommand, indexStatisticsCommand);
+	context.subscriptions.push(...scaffoldCommands, groupPagesCommand, previewPageCommand, checkSiteCommand);
 }
 
 export function deactivate() {
-	if (serverProcess) {
-        serverProcess.kill();
-    }
-    if (previewPanel) {
-        previewPanel.dispose();
+	previewPanels.forEach(panel => panel.dispose());
+	previewPanels.clear();
+	if (serverManager) {
+        serverManager.dispose();
     }
 }
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { getAllayDocument } from './allayDocument';
+import { getFoldingRegions } from './parser';
+
+/**
+ * Folds each branch of `if`/`for`/`with`/`block` regions, shortcode pairs and multi-line comments.
+ * The block ending a region (`else`, `end`, the closing shortcode) stays visible.
+ */
+export class AllayFoldingRangeProvider implements vscode.FoldingRangeProvider {
+
+    public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const ranges: vscode.FoldingRange[] = [];
+        for (const region of getFoldingRegions(getAllayDocument(document))) {
+            const start = document.positionAt(region.start).line;
+            const end = document.positionAt(region.end).line - (region.kind === 'comment' ? 0 : 1);
+            if (end > start) {
+                ranges.push(new vscode.FoldingRange(
+                    start,
+                    end,
+                    region.kind === 'comment' ? vscode.FoldingRangeKind.Comment : vscode.FoldingRangeKind.Region
+                ));
+            }
+        }
+        return ranges;
+    }
+}
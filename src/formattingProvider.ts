@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { getAllayDocument, toRange } from './allayDocument';
+import { FormatOptions, Span, formatDocument } from './parser';
+
+/**
+ * Formats the Allay blocks of a document or a selection, following the `allay.format.*` settings.
+ */
+export class AllayFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+
+    public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.format(document, options);
+    }
+
+    public provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.format(document, options, { start: document.offsetAt(range.start), end: document.offsetAt(range.end) });
+    }
+
+    private format(document: vscode.TextDocument, options: vscode.FormattingOptions, range?: Span): vscode.TextEdit[] {
+        const config = vscode.workspace.getConfiguration('allay.format', document.uri);
+        const indentStyle = config.get<'editor' | 'tabs' | 'spaces'>('indentStyle', 'editor');
+        const formatOptions: FormatOptions = {
+            tabSize: options.tabSize,
+            insertSpaces: indentStyle === 'editor' ? options.insertSpaces : indentStyle === 'spaces',
+            // Indentation is meaningful in Markdown, so only lines that render nothing are moved there
+            indent: document.languageId === 'markdown' ? 'commands' : config.get<boolean>('indentHtml', false) ? 'all' : 'blocks',
+        };
+        return formatDocument(getAllayDocument(document), formatOptions, range)
+            .map(edit => vscode.TextEdit.replace(toRange(document, edit.span), edit.newText));
+    }
+}
@@ -0,0 +1,285 @@
+/**
+ * A small reader for the YAML front matter at the top of Allay pages.
+ * It understands the subset pages use in practice: scalars, quoted strings, inline `[a, b]` lists,
+ * block lists (`- item`), `|` and `>` block scalars and nested maps. Positions are kept so tooling can point at keys.
+ */
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | { [key: string]: FrontMatterValue };
+
+export interface FrontMatterEntry {
+    key: string;
+    value: FrontMatterValue;
+    /** The value text after the colon, empty for nested maps and block lists. */
+    raw: string;
+    /** 0-based line of the key. */
+    line: number;
+    /** Column where the key starts. */
+    column: number;
+    /** Entries of a nested map. */
+    children: FrontMatterEntry[];
+}
+
+export interface FrontMatterError {
+    message: string;
+    line: number;
+}
+
+export interface FrontMatter {
+    entries: FrontMatterEntry[];
+    data: { [key: string]: FrontMatterValue };
+    /** 0-based line of the closing `---`, undefined when it is missing. */
+    endLine?: number;
+    errors: FrontMatterError[];
+}
+
+// `|` or `>` with an optional chomping indicator and indentation, in either order
+const BLOCK_SCALAR_HEADER = /^([|>])([+-]?)(\d?)([+-]?)$/;
+
+interface Container {
+    indent: number;
+    entries: FrontMatterEntry[];
+}
+
+/**
+ * Parses the front matter of a page. Returns undefined when the text does not start with `---`.
+ */
+export function parseFrontMatter(text: string): FrontMatter | undefined {
+    const lines = text.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+        return undefined;
+    }
+
+    const root: FrontMatterEntry[] = [];
+    const errors: FrontMatterError[] = [];
+    const stack: Container[] = [{ indent: -1, entries: root }];
+    let lastEntry: FrontMatterEntry | undefined;
+    let endLine: number | undefined;
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim() === '---') {
+            endLine = i;
+            break;
+        }
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        const indent = line.length - line.trimStart().length;
+        const content = line.trim();
+
+        // Block list item belonging to the last key without a value
+        const item = content.match(/^-\s*(.*)$/);
+        if (item) {
+            const ownsItems = lastEntry && lastEntry.raw === '' && lastEntry.children.length === 0 && indent >= lastEntry.column;
+            const owner = ownsItems ? lastEntry : findListOwner(stack, indent);
+            if (!owner) {
+                errors.push({ message: 'List item without a key.', line: i });
+                continue;
+            }
+            if (!Array.isArray(owner.value)) {
+                owner.value = [];
+            }
+            owner.value.push(parseScalar(item[1]));
+            continue;
+        }
+
+        const pair = content.match(/^("[^"]*"|'[^']*'|[^:#]+?)\s*:(?:\s+(.*)|$)/);
+        if (!pair) {
+            errors.push({ message: `Expected \`key: value\`, found \`${content}\`.`, line: i });
+            continue;
+        }
+
+        while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
+            stack.pop();
+        }
+        // A more indented key opens a nested map under the previous key
+        if (lastEntry && indent > lastEntry.column && lastEntry.raw === '' && !Array.isArray(lastEntry.value)) {
+            stack.push({ indent: lastEntry.column, entries: lastEntry.children });
+        }
+
+        const raw = stripComment(pair[2] ?? '');
+        const entry: FrontMatterEntry = {
+            key: unquote(pair[1]),
+            value: raw === '' ? null : parseScalar(raw),
+            raw,
+            line: i,
+            column: indent,
+            children: [],
+        };
+        // `key: |` or `key: >` takes the following lines indented deeper than the key as its text
+        const header = raw.match(BLOCK_SCALAR_HEADER);
+        if (header) {
+            let end = i + 1;
+            while (end < lines.length && lines[end].trim() !== '---'
+                && (!lines[end].trim() || lines[end].length - lines[end].trimStart().length > indent)) {
+                end++;
+            }
+            entry.value = parseBlockScalar(lines.slice(i + 1, end), header[1] === '>', header[2] || header[4], Number(header[3]) || undefined, indent);
+            i = end - 1;
+        }
+        const container = stack[stack.length - 1];
+        if (container.entries.some(existing => existing.key === entry.key)) {
+            errors.push({ message: `Duplicate key \`${entry.key}\`.`, line: i });
+        }
+        container.entries.push(entry);
+        lastEntry = entry;
+    }
+
+    if (endLine === undefined) {
+        errors.push({ message: 'Front matter is not closed, expected `---`.', line: 0 });
+    }
+
+    finishEntries(root);
+    return { entries: root, data: toObject(root), endLine, errors };
+}
+
+/**
+ * Finds an entry by a dotted path such as `author.name`.
+ */
+export function findFrontMatterEntry(frontMatter: FrontMatter, path: string): FrontMatterEntry | undefined {
+    let entries = frontMatter.entries;
+    let found: FrontMatterEntry | undefined;
+    for (const segment of path.split('.')) {
+        found = entries.find(entry => entry.key === segment);
+        if (!found) {
+            return undefined;
+        }
+        entries = found.children;
+    }
+    return found;
+}
+
+function findListOwner(stack: Container[], indent: number): FrontMatterEntry | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const entries = stack[i].entries;
+        const last = entries[entries.length - 1];
+        if (last && Array.isArray(last.value) && last.column < indent) {
+            return last;
+        }
+    }
+    return undefined;
+}
+
+function finishEntries(entries: FrontMatterEntry[]): void {
+    for (const entry of entries) {
+        if (entry.children.length > 0) {
+            finishEntries(entry.children);
+            entry.value = toObject(entry.children);
+        }
+    }
+}
+
+function toObject(entries: FrontMatterEntry[]): { [key: string]: FrontMatterValue } {
+    const object: { [key: string]: FrontMatterValue } = {};
+    entries.forEach(entry => object[entry.key] = entry.value);
+    return object;
+}
+
+function parseScalar(raw: string): FrontMatterValue {
+    const text = stripComment(raw);
+    if (text.startsWith('[') && text.endsWith(']')) {
+        const inner = text.slice(1, -1).trim();
+        return inner === '' ? [] : splitInlineList(inner).map(parseScalar);
+    }
+    if (/^("|').*\1$/.test(text)) {
+        return unquote(text);
+    }
+    if (/^(true|false)$/i.test(text)) {
+        return text.toLowerCase() === 'true';
+    }
+    if (/^(null|~)$/i.test(text) || text === '') {
+        return null;
+    }
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return Number(text);
+    }
+    return text;
+}
+
+/**
+ * Reads the text of a block scalar: `|` keeps line breaks, `>` folds lines into paragraphs.
+ * A trailing `-` drops the final line break, a `+` keeps all trailing blank lines.
+ */
+function parseBlockScalar(lines: string[], folded: boolean, chomping: string, indentation: number | undefined, keyIndent: number): string {
+    const firstLine = lines.find(line => line.trim());
+    const contentIndent = indentation !== undefined
+        ? keyIndent + indentation
+        : firstLine ? firstLine.length - firstLine.trimStart().length : 0;
+    const body = lines.map(line => line.slice(Math.min(contentIndent, line.length - line.trimStart().length)));
+
+    let text = '';
+    if (folded) {
+        // Lines of a paragraph are joined by spaces; blank lines and more indented lines keep their breaks
+        body.forEach((line, index) => {
+            const previous = body[index - 1];
+            if (index === 0) {
+                text = line;
+            } else if (!line) {
+                text += '\n';
+            } else if (!previous) {
+                text += line;
+            } else if (!/^\s/.test(line) && !/^\s/.test(previous)) {
+                text += ` ${line}`;
+            } else {
+                text += `\n${line}`;
+            }
+        });
+    } else {
+        text = body.join('\n');
+    }
+
+    const content = text.replace(/\n*$/, '');
+    if (chomping === '-' || !content) {
+        return content;
+    }
+    return chomping === '+' ? `${text}\n` : `${content}\n`;
+}
+
+function splitInlineList(text: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    for (const ch of text) {
+        if (quote) {
+            if (ch === quote) { quote = undefined; }
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === ',') {
+            items.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    items.push(current.trim());
+    return items;
+}
+
+function stripComment(text: string): string {
+    // A comment starts with " #" outside of quotes
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) { quote = undefined; }
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trim();
+        }
+    }
+    return text.trim();
+}
+
+function unquote(text: string): string {
+    const trimmed = text.trim();
+    if (/^'.*'$/.test(trimmed)) {
+        // Single-quoted YAML writes a quote as `''`
+        return trimmed.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (/^".*"$/.test(trimmed)) {
+        return trimmed.slice(1, -1);
+    }
+    return trimmed;
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { FrontMatterValue, parseFrontMatter } from './frontMatter';
+import { FrontMatterProblem, SchemaField, describeField, findParents, getFieldsAt, validateFrontMatter } from './frontMatterSchema';
+import { getFileKind, getFileStem, isInSameProject } from './workspace';
+import { findConfig, findTemplateFiles, getFrontMatterSchema, getWorkspaceIndex } from './workspaceIndex';
+
+/**
+ * Reports problems in the front matter of content pages, including `template:` values that no
+ * file in `templates/` matches.
+ */
+export async function validatePageFrontMatter(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+    const text = document.getText();
+    const frontMatter = getFileKind(document.uri) === 'page' ? parseFrontMatter(text) : undefined;
+    if (!frontMatter) {
+        return [];
+    }
+
+    const { schema, error } = await getFrontMatterSchema(document.uri);
+    const problems = validateFrontMatter(text, schema);
+    if (error) {
+        problems.push({ message: error, line: 0, start: 0, end: 3, severity: 'warning', code: 'frontmatter-schema' });
+    }
+
+    const template = frontMatter.entries.find(entry => entry.key === 'template');
+    if (template && typeof template.value === 'string' && template.value) {
+        const files = (await findTemplateFiles(template.value)).filter(file => isInSameProject(file, document.uri));
+        if (files.length === 0) {
+            const start = document.lineAt(template.line).text.indexOf(template.raw, template.column + template.key.length);
+            problems.push({
+                message: `Template \`${template.value}\` was not found in \`templates/\`.`,
+                line: template.line,
+                start,
+                end: start + template.raw.length,
+                severity: 'warning',
+                code: 'unknown-template',
+            });
+        }
+    }
+
+    return problems.map(toDiagnostic);
+}
+
+function toDiagnostic(problem: FrontMatterProblem): vscode.Diagnostic {
+    const range = new vscode.Range(problem.line, problem.start, problem.line, problem.end);
+    const severity = problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+    diagnostic.source = 'allay';
+    diagnostic.code = problem.code;
+    return diagnostic;
+}
+
+/**
+ * Completes keys and values inside the `---` header of content pages: keys from the schema,
+ * `template:` from `templates/`, allowed values, dates, and values other pages already use,
+ * such as existing tags.
+ */
+export class AllayFrontMatterCompletionProvider implements vscode.CompletionItemProvider {
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        if (getFileKind(document.uri) !== 'page') {
+            return undefined;
+        }
+        const frontMatter = parseFrontMatter(document.getText());
+        if (!frontMatter || position.line === 0 || (frontMatter.endLine !== undefined && position.line >= frontMatter.endLine)) {
+            return undefined;
+        }
+
+        const linePrefix = document.lineAt(position).text.slice(0, position.character);
+        const { schema } = await getFrontMatterSchema(document.uri);
+
+        // `key: value` or `key: [a, b`
+        const value = linePrefix.match(/^(\s*)([\w-]+):\s+(\[[^\]]*)?[^,[\]]*$/);
+        if (value) {
+            const fields = getFieldsAt(schema, frontMatter.entries, position.line, value[1].length + 1);
+            const field = fields[value[2]];
+            const keyPath = [...findParents(frontMatter.entries, position.line, value[1].length + 1).map(parent => parent.key), value[2]];
+            const inList = value[3] !== undefined;
+            if (!field || (inList && field.type !== 'list')) {
+                return undefined;
+            }
+            return this.getValueCompletions(document, keyPath, field, inList);
+        }
+
+        // A key being typed at the start of a line
+        const key = linePrefix.match(/^(\s*)([\w-]*)$/);
+        if (key) {
+            const indent = key[1].length;
+            const fields = getFieldsAt(schema, frontMatter.entries, position.line, indent + 1);
+            const parents = findParents(frontMatter.entries, position.line, indent + 1);
+            const siblings = parents.length > 0 ? parents[parents.length - 1].children : frontMatter.entries;
+            const present = new Set(siblings.filter(entry => entry.line !== position.line).map(entry => entry.key));
+            return Object.entries(fields)
+                .filter(([name]) => !present.has(name))
+                .map(([name, field]) => this.createKeyItem(name, field, indent));
+        }
+        return undefined;
+    }
+
+    private createKeyItem(name: string, field: SchemaField, indent: number): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property);
+        item.detail = field.required ? `${describeField(field)} (required)` : describeField(field);
+        if (field.description) {
+            item.documentation = new vscode.MarkdownString(field.description);
+        }
+        // Required keys first
+        item.sortText = `${field.required ? 0 : 1}${name}`;
+
+        const snippet = new vscode.SnippetString(`${name}: `);
+        if (field.values) {
+            snippet.appendChoice(field.values);
+        } else if (field.type === 'boolean') {
+            snippet.appendChoice(['true', 'false']);
+        } else if (field.type === 'date') {
+            snippet.appendVariable('CURRENT_YEAR', '').appendText('-').appendVariable('CURRENT_MONTH', '').appendText('-').appendVariable('CURRENT_DATE', '');
+        } else if (field.type === 'list') {
+            snippet.appendText('[').appendTabstop(1).appendText(']');
+        } else if (field.type === 'object') {
+            snippet.value = `${name}:\n${' '.repeat(indent + 2)}$0`;
+        } else {
+            snippet.appendTabstop(0);
+        }
+        item.insertText = snippet;
+        if (field.type === 'object' || field.type === 'list') {
+            item.command = { title: 'Suggest', command: 'editor.action.triggerSuggest' };
+        }
+        return item;
+    }
+
+    private async getValueCompletions(document: vscode.TextDocument, keyPath: string[], field: SchemaField, inList: boolean): Promise<vscode.CompletionItem[]> {
+        const elementType = inList ? field.items ?? 'any' : field.type;
+        if (field.values) {
+            return field.values.map(value => this.createValueItem(value, vscode.CompletionItemKind.EnumMember, describeField(field)));
+        }
+        if (elementType === 'boolean') {
+            return ['true', 'false'].map(value => this.createValueItem(value, vscode.CompletionItemKind.Value, 'Boolean'));
+        }
+        if (elementType === 'date') {
+            const now = new Date();
+            const today = [now.getFullYear(), now.getMonth() + 1, now.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+            return [this.createValueItem(today, vscode.CompletionItemKind.Value, 'Today')];
+        }
+        if (keyPath.join('.') === 'template') {
+            return this.getTemplateCompletions(document);
+        }
+        if (elementType === 'string' || elementType === 'any') {
+            return this.getUsedValueCompletions(document, keyPath);
+        }
+        return [];
+    }
+
+    private async getTemplateCompletions(document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
+        const files = (await findTemplateFiles()).filter(file => isInSameProject(file, document.uri));
+        const names = [...new Set(files.map(getFileStem))];
+        return names.map(name => {
+            const file = files.find(candidate => getFileStem(candidate) === name)!;
+            const item = this.createValueItem(name, vscode.CompletionItemKind.File, 'Template File');
+            item.documentation = new vscode.MarkdownString(`Located at: \`${vscode.workspace.asRelativePath(file)}\``);
+            return item;
+        });
+    }
+
+    /**
+     * Offers the values other pages of the project set for the same key, most used first.
+     */
+    private async getUsedValueCompletions(document: vscode.TextDocument, keyPath: string[]): Promise<vscode.CompletionItem[]> {
+        const config = await findConfig(document.uri);
+        const pages = await getWorkspaceIndex().findPages(config?.root);
+        const usage = new Map<string, number>();
+        for (const page of pages) {
+            if (page.uri.toString() === document.uri.toString()) {
+                continue;
+            }
+            let value: FrontMatterValue | undefined = page.frontMatter?.data;
+            for (const key of keyPath) {
+                value = value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+            }
+            const values = Array.isArray(value) ? value : [value];
+            for (const item of new Set(values.filter((candidate): candidate is string => typeof candidate === 'string'))) {
+                usage.set(item, (usage.get(item) ?? 0) + 1);
+            }
+        }
+
+        const maximum = Math.max(0, ...usage.values());
+        return [...usage].map(([value, count]) => {
+            const item = this.createValueItem(value, vscode.CompletionItemKind.Value, `Used in ${count} page${count === 1 ? '' : 's'}`);
+            item.sortText = `${String(maximum - count).padStart(6, '0')}${value}`;
+            return item;
+        });
+    }
+
+    private createValueItem(value: string, kind: vscode.CompletionItemKind, detail: string): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(value, kind);
+        item.detail = detail;
+        return item;
+    }
+}
@@ -0,0 +1,384 @@
+/**
+ * The keys the front matter of a page may set and the values they take. The built-in schema
+ * covers the fields Allay itself reads; a project extends it in the `[frontmatter]` table of its
+ * `allay.toml` or with a JSON schema file.
+ */
+
+import { FrontMatterEntry, FrontMatterValue, parseFrontMatter } from './frontMatter';
+import { typeOfValue } from './parser';
+import { TomlValue } from './toml';
+
+export type SchemaType = 'string' | 'number' | 'boolean' | 'date' | 'list' | 'object' | 'any';
+
+export interface SchemaField {
+    type: SchemaType;
+    /** The type of the elements of a list. */
+    items?: SchemaType;
+    description?: string;
+    required?: boolean;
+    /** The only values allowed, e.g. for a `layout` key. */
+    values?: string[];
+    /** The keys of an object. */
+    fields?: { [name: string]: SchemaField };
+}
+
+export interface FrontMatterSchema {
+    fields: { [name: string]: SchemaField };
+    /** Also report keys the schema does not list, not only likely typos of the ones it does. */
+    strict: boolean;
+}
+
+export interface FrontMatterProblem {
+    message: string;
+    /** 0-based line and the columns marked on it. */
+    line: number;
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+    code: string;
+}
+
+/** The table of `allay.toml` configuring the schema. */
+export const FRONT_MATTER_SECTION = 'frontmatter';
+/** Read from the project root unless `[frontmatter] schema` names another file. */
+export const DEFAULT_SCHEMA_FILE = 'frontmatter.schema.json';
+
+const SCHEMA_TYPES: SchemaType[] = ['string', 'number', 'boolean', 'date', 'list', 'object', 'any'];
+
+export const BUILTIN_FIELDS: { [name: string]: SchemaField } = {
+    title: { type: 'string', description: 'The title of the page.' },
+    date: { type: 'date', description: 'The publication date, e.g. `2025-01-31` or `2025-01-31T09:00:00+08:00`.' },
+    description: { type: 'string', description: 'A short summary of the page.' },
+    tags: { type: 'list', items: 'string', description: 'The tags of the page, e.g. `[allay, notes]`.' },
+    template: { type: 'string', description: 'The template in `templates/` used to render the page.' },
+    url: { type: 'string', description: 'The URL path of the page, instead of the one derived from its location under `content/`.' },
+    head: { type: 'string', description: 'Extra markup for the `<head>` of the page.' },
+    draft: { type: 'boolean', description: 'Marks the page as a draft.' },
+};
+
+/**
+ * A subset of JSON Schema: `type`, `format: date`, `enum`, `items`, `properties`, `required`
+ * and `additionalProperties`.
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    format?: string;
+    description?: string;
+    enum?: unknown[];
+    items?: JsonSchema;
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: unknown;
+}
+
+/**
+ * Returns the JSON schema file named in `allay.toml`, relative to the project root.
+ */
+export function getSchemaFile(config: { [key: string]: TomlValue } | undefined): string | undefined {
+    const schema = getSection(config)?.schema;
+    return typeof schema === 'string' ? schema : undefined;
+}
+
+/**
+ * Combines the built-in fields with those of a JSON schema and of the `[frontmatter]` table of
+ * `allay.toml`, later ones replacing earlier ones.
+ *
+ * ```toml
+ * [frontmatter]
+ * strict = true
+ * [frontmatter.fields]
+ * author = "string"
+ * series = { type = "string", values = ["intro", "deep-dive"], required = true }
+ * ```
+ */
+export function buildSchema(config?: { [key: string]: TomlValue }, jsonSchema?: JsonSchema): FrontMatterSchema {
+    const schema: FrontMatterSchema = { fields: { ...BUILTIN_FIELDS }, strict: false };
+    if (jsonSchema) {
+        Object.assign(schema.fields, fromJsonSchema(jsonSchema).fields);
+        schema.strict = jsonSchema.additionalProperties === false;
+    }
+
+    const section = getSection(config);
+    if (typeof section?.strict === 'boolean') {
+        schema.strict = section.strict;
+    }
+    const fields = section?.fields;
+    if (isTable(fields)) {
+        for (const [name, value] of Object.entries(fields)) {
+            schema.fields[name] = fromToml(value);
+        }
+    }
+    return schema;
+}
+
+/**
+ * Returns the fields allowed at a position of the front matter: top-level fields at column 0,
+ * the fields of the enclosing object when indented below one.
+ */
+export function getFieldsAt(schema: FrontMatterSchema, entries: FrontMatterEntry[], line: number, column: number): { [name: string]: SchemaField } {
+    let fields = schema.fields;
+    for (const parent of findParents(entries, line, column)) {
+        fields = fields[parent.key]?.fields ?? {};
+    }
+    return fields;
+}
+
+/**
+ * Returns the entries whose nested map contains the position, outermost first.
+ */
+export function findParents(entries: FrontMatterEntry[], line: number, column: number): FrontMatterEntry[] {
+    const parents: FrontMatterEntry[] = [];
+    for (;;) {
+        const parent = entries.filter(entry => entry.line < line && entry.column < column && entry.raw === '').pop();
+        if (!parent || (parent.children.length === 0 && Array.isArray(parent.value))) {
+            return parents;
+        }
+        parents.push(parent);
+        entries = parent.children;
+    }
+}
+
+/**
+ * Describes what a field holds, e.g. "a list of strings".
+ */
+export function describeField(field: SchemaField): string {
+    if (field.values) {
+        return `one of ${field.values.map(value => `\`${value}\``).join(', ')}`;
+    }
+    switch (field.type) {
+        case 'string':
+            return 'a string';
+        case 'number':
+            return 'a number';
+        case 'boolean':
+            return '`true` or `false`';
+        case 'date':
+            return 'a date like `2025-01-31` or `2025-01-31T09:00:00Z`';
+        case 'list':
+            return field.items && field.items !== 'any' ? `a list of ${field.items}s` : 'a list';
+        case 'object':
+            return 'a map of keys';
+        case 'any':
+            return 'any value';
+    }
+}
+
+/**
+ * Checks the front matter of a page against a schema: syntax, unknown and misspelled keys,
+ * values of the wrong type and missing required keys.
+ */
+export function validateFrontMatter(text: string, schema: FrontMatterSchema): FrontMatterProblem[] {
+    const frontMatter = parseFrontMatter(text);
+    if (!frontMatter) {
+        return [];
+    }
+    const lines = text.split(/\r?\n/);
+    const problems: FrontMatterProblem[] = frontMatter.errors.map(error => ({
+        message: error.message,
+        ...lineRange(lines, error.line),
+        severity: 'error',
+        code: 'frontmatter-syntax',
+    }));
+    checkEntries(frontMatter.entries, schema.fields, schema.strict, undefined, lines, problems);
+    return problems;
+}
+
+function checkEntries(
+    entries: FrontMatterEntry[],
+    fields: { [name: string]: SchemaField },
+    strict: boolean,
+    parent: FrontMatterEntry | undefined,
+    lines: string[],
+    problems: FrontMatterProblem[]
+): void {
+    for (const entry of entries) {
+        const keyRange = { line: entry.line, start: entry.column, end: entry.column + entry.key.length };
+        const field = fields[entry.key];
+        if (!field) {
+            const suggestion = findSimilarKey(entry.key, Object.keys(fields).filter(name => !entries.some(other => other.key === name)));
+            if (suggestion) {
+                problems.push({ message: `Unknown front-matter key \`${entry.key}\`. Did you mean \`${suggestion}\`?`, ...keyRange, severity: 'warning', code: 'unknown-key' });
+            } else if (strict) {
+                problems.push({ message: `\`${entry.key}\` is not in the front-matter schema.`, ...keyRange, severity: 'warning', code: 'unknown-key' });
+            }
+            continue;
+        }
+
+        const path = parent ? `${parent.key}.${entry.key}` : entry.key;
+        if (!matchesField(field, entry.value)) {
+            const start = entry.raw ? lines[entry.line].indexOf(entry.raw, keyRange.end) : -1;
+            const range = start === -1 ? keyRange : { line: entry.line, start, end: start + entry.raw.length };
+            problems.push({ message: `\`${path}\` should be ${describeField(field)}.`, ...range, severity: 'warning', code: 'invalid-value' });
+        } else if (field.type === 'object' && field.fields) {
+            checkEntries(entry.children, field.fields, strict, entry, lines, problems);
+        }
+    }
+
+    for (const [name, field] of Object.entries(fields)) {
+        if (field.required && !entries.some(entry => entry.key === name)) {
+            const range = parent ? { line: parent.line, start: parent.column, end: parent.column + parent.key.length } : lineRange(lines, 0);
+            problems.push({ message: `Missing required front-matter key \`${parent ? `${parent.key}.` : ''}${name}\`.`, ...range, severity: 'warning', code: 'missing-key' });
+        }
+    }
+}
+
+function matchesField(field: SchemaField, value: FrontMatterValue): boolean {
+    // An empty value is left for the page to fill in
+    if (value === null) {
+        return true;
+    }
+    if (field.values && !field.values.includes(String(value))) {
+        return false;
+    }
+    return matchesType(field.type, value) && (field.type !== 'list' || (value as FrontMatterValue[]).every(item => matchesType(field.items ?? 'any', item)));
+}
+
+function matchesType(type: SchemaType, value: FrontMatterValue): boolean {
+    const actual = typeOfValue(value);
+    switch (type) {
+        case 'string':
+            // Unquoted numbers, dates and booleans still read fine as text
+            return actual.kind === 'scalar';
+        case 'number':
+        case 'boolean':
+        case 'date':
+            return actual.kind === 'scalar' && actual.name === type;
+        case 'list':
+            return actual.kind === 'list';
+        case 'object':
+            return actual.kind === 'object';
+        case 'any':
+            return true;
+    }
+}
+
+/**
+ * Finds the key `name` was most likely meant to be, allowing one edit for short keys and two
+ * for longer ones.
+ */
+function findSimilarKey(name: string, candidates: string[]): string | undefined {
+    const limit = name.length > 4 ? 2 : 1;
+    let best: string | undefined;
+    let bestDistance = limit + 1;
+    for (const candidate of candidates) {
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/**
+ * Counts insertions, deletions, substitutions and swaps of neighbouring characters.
+ */
+function editDistance(a: string, b: string): number {
+    const rows: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+        rows.push([i]);
+        for (let j = 1; j <= b.length; j++) {
+            if (i === 0) {
+                rows[i].push(j);
+                continue;
+            }
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, rows[i - 2][j - 2] + 1);
+            }
+            rows[i].push(distance);
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+function lineRange(lines: string[], line: number): { line: number; start: number; end: number } {
+    const text = lines[line] ?? '';
+    return { line, start: text.length - text.trimStart().length, end: text.trimEnd().length };
+}
+
+function getSection(config: { [key: string]: TomlValue } | undefined): { [key: string]: TomlValue } | undefined {
+    const section = config?.[FRONT_MATTER_SECTION];
+    return isTable(section) ? section : undefined;
+}
+
+function isTable(value: TomlValue | undefined): value is { [key: string]: TomlValue } {
+    return typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Reads a field of `[frontmatter.fields]`: a type name, or a table with `type`, `items`,
+ * `description`, `required`, `values` and `fields`.
+ */
+function fromToml(value: TomlValue): SchemaField {
+    if (!isTable(value)) {
+        return { type: toSchemaType(value) };
+    }
+    const field: SchemaField = { type: toSchemaType(value.type) };
+    if (value.items !== undefined) {
+        field.items = toSchemaType(value.items);
+    }
+    if (typeof value.description === 'string') {
+        field.description = value.description;
+    }
+    if (value.required === true) {
+        field.required = true;
+    }
+    if (Array.isArray(value.values)) {
+        field.values = value.values.map(String);
+    }
+    if (isTable(value.fields)) {
+        field.fields = {};
+        for (const [name, child] of Object.entries(value.fields)) {
+            field.fields[name] = fromToml(child);
+        }
+    }
+    return field;
+}
+
+function toSchemaType(value: TomlValue | undefined): SchemaType {
+    return SCHEMA_TYPES.find(type => type === value) ?? 'any';
+}
+
+function fromJsonSchema(json: JsonSchema): SchemaField {
+    const field: SchemaField = { type: toJsonSchemaType(json) };
+    if (typeof json.description === 'string') {
+        field.description = json.description;
+    }
+    if (Array.isArray(json.enum)) {
+        field.values = json.enum.map(String);
+    }
+    if (json.items) {
+        field.items = toJsonSchemaType(json.items);
+    }
+    if (json.properties) {
+        field.fields = {};
+        for (const [name, property] of Object.entries(json.properties)) {
+            field.fields[name] = fromJsonSchema(property);
+            if (json.required?.includes(name)) {
+                field.fields[name].required = true;
+            }
+        }
+    }
+    return field;
+}
+
+function toJsonSchemaType(json: JsonSchema): SchemaType {
+    const type = (Array.isArray(json.type) ? json.type : [json.type]).find(name => name !== 'null');
+    switch (type) {
+        case 'string':
+            return json.format === 'date' || json.format === 'date-time' ? 'date' : 'string';
+        case 'integer':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'array':
+            return 'list';
+        case 'object':
+            return 'object';
+        default:
+            return json.properties ? 'object' : 'any';
+    }
+}
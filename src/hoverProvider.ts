@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayDocument, toRange } from './allayDocument';
+import { BUILTIN_DOCS, IMPLICIT_VARIABLE_DOCS, getKeywordDocumentation } from './languageDocs';
+import { AllayDocument, VariableExpression, describeType, findBlockAt, findMemberAt, findSymbolAt, findVariableBinding, getFields, getScopeType, inferType } from './parser';
+import { describeParameter, readShortcode } from './shortcodeSignatures';
+import { findSiteEntry } from './site';
+import { TomlEntry } from './toml';
+import { getTypeEnvironment } from './typeEnvironment';
+import { findFrontMatterKeyLine, isInSameProject } from './workspace';
+import { findConfig, findTemplateFiles } from './workspaceIndex';
+
+// Number of lines of a shortcode file shown on hover
+const PREVIEW_LINES = 8;
+// Number of keys of a config table shown on hover
+const PREVIEW_KEYS = 8;
+
+/**
+ * Shows documentation for keywords and built-ins, the value behind `site.X` and `this.X`, the
+ * inferred type of variables and fields, and a preview of shortcodes and templates.
+ */
+export class AllayHoverProvider implements vscode.HoverProvider {
+
+    public async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const allayDocument = getAllayDocument(document);
+        const offset = document.offsetAt(position);
+        const symbol = findSymbolAt(allayDocument, offset);
+        if (!symbol) {
+            return undefined;
+        }
+
+        let contents: vscode.MarkdownString | undefined;
+        switch (symbol.kind) {
+            case 'keyword':
+                contents = getKeywordDocumentation(symbol.name);
+                break;
+            case 'builtin':
+                contents = new vscode.MarkdownString(`**${symbol.name}** *(built-in)*\n\n${BUILTIN_DOCS[symbol.name]}`);
+                break;
+            case 'variable':
+                contents = await this.getVariableHover(symbol, document, allayDocument);
+                break;
+            case 'field':
+                contents = await this.getFieldHover(symbol.path, document)
+                    ?? await this.getInferredFieldHover(symbol.path, document, allayDocument, offset);
+                break;
+            case 'shortcode':
+                contents = await this.getShortcodeHover(symbol.name, document.uri);
+                break;
+            case 'template':
+                contents = await this.getTemplateHover(symbol.name, document.uri);
+                break;
+        }
+        return contents && new vscode.Hover(contents, toRange(document, symbol.span));
+    }
+
+    private async getVariableHover(
+        variable: VariableExpression,
+        document: vscode.TextDocument,
+        allayDocument: AllayDocument
+    ): Promise<vscode.MarkdownString | undefined> {
+        const name = variable.name;
+        if (IMPLICIT_VARIABLE_DOCS[name]) {
+            return new vscode.MarkdownString(`**${name}** *(implicit)*\n\n${IMPLICIT_VARIABLE_DOCS[name]}`);
+        }
+
+        const binding = findVariableBinding(allayDocument, name, variable.span.start);
+        const block = binding && findBlockAt(allayDocument, binding.span.start);
+        if (!block) {
+            return new vscode.MarkdownString(`**${name}**\n\nThis variable is not defined in this file.`);
+        }
+
+        const type = inferType(allayDocument, variable, await getTypeEnvironment(document, allayDocument));
+        const description = type.kind === 'unknown' ? 'variable' : `variable, ${describeType(type)}`;
+        const markdown = new vscode.MarkdownString(`**${name}** *(${description})*\n`);
+        markdown.appendCodeblock(allayDocument.text.slice(block.span.start, block.span.end), 'allay');
+        return markdown;
+    }
+
+    private async getFieldHover(fieldPath: string, document: vscode.TextDocument): Promise<vscode.MarkdownString | undefined> {
+        const segments = fieldPath.split('.');
+        if (segments[0] === 'site' && segments.length > 1) {
+            const config = await findConfig(document.uri);
+            if (!config) {
+                return undefined;
+            }
+            const entry = findSiteEntry(config.toml, segments.slice(1));
+            if (!entry) {
+                return new vscode.MarkdownString(`\`${fieldPath}\` is not set in \`allay.toml\`.`);
+            }
+            const markdown = new vscode.MarkdownString(`**${fieldPath}** *(allay.toml, ${entry.type})*\n`);
+            markdown.appendCodeblock(formatTomlEntry(entry), 'toml');
+            return markdown;
+        }
+        if (segments.length !== 2) {
+            return undefined;
+        }
+        const [parent, key] = segments;
+
+        if (parent === '' || parent === 'this') {
+            const text = document.getText();
+            const line = findFrontMatterKeyLine(text, key);
+            if (line === undefined) {
+                return undefined;
+            }
+            const markdown = new vscode.MarkdownString(`**this.${key}** *(front matter)*\n`);
+            markdown.appendCodeblock(text.split(/\r?\n/)[line].trim(), 'yaml');
+            return markdown;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Falls back to the inferred type for fields of loop variables, `with` scopes and pages.
+     */
+    private async getInferredFieldHover(
+        fieldPath: string,
+        document: vscode.TextDocument,
+        allayDocument: AllayDocument,
+        offset: number
+    ): Promise<vscode.MarkdownString | undefined> {
+        const block = findBlockAt(allayDocument, offset);
+        const member = block && findMemberAt(block, offset);
+        if (!member?.property) {
+            return undefined;
+        }
+        const environment = await getTypeEnvironment(document, allayDocument);
+        const object = member.object
+            ? inferType(allayDocument, member.object, environment)
+            : getScopeType(allayDocument, member.span.start, environment);
+        const field = getFields(object)[member.property.name];
+        if (!field) {
+            return undefined;
+        }
+        const markdown = new vscode.MarkdownString(`**${fieldPath}** *(${describeType(field.type)})*`);
+        [field.detail, field.documentation].filter(Boolean).forEach(text => markdown.appendMarkdown(`\n\n${text}`));
+        return markdown;
+    }
+
+    private async getShortcodeHover(name: string, near: vscode.Uri): Promise<vscode.MarkdownString | undefined> {
+        const shortcode = await readShortcode(name, near);
+        if (!shortcode) {
+            return new vscode.MarkdownString(`Shortcode \`${name}\` was not found in \`shortcodes/\`.`);
+        }
+
+        const file = shortcode.file.uri;
+        const markdown = new vscode.MarkdownString(`**${name}** *(shortcode, ${vscode.workspace.asRelativePath(file)})*\n`);
+
+        const parameters = shortcode.signature.parameters.map(parameter => `- \`${parameter.name}\` *(${describeParameter(parameter)})*`);
+        if (parameters.length > 0) {
+            markdown.appendMarkdown(`\nParameters:\n\n${parameters.join('\n')}\n`);
+        }
+
+        const lines = shortcode.file.text.split(/\r?\n/);
+        const preview = lines.slice(0, PREVIEW_LINES).join('\n') + (lines.length > PREVIEW_LINES ? '\n...' : '');
+        markdown.appendCodeblock(preview, path.extname(file.fsPath) === '.md' ? 'markdown' : 'html');
+        return markdown;
+    }
+
+    private async getTemplateHover(name: string, near: vscode.Uri): Promise<vscode.MarkdownString | undefined> {
+        const file = (await findTemplateFiles(name)).find(candidate => isInSameProject(candidate, near));
+        if (!file) {
+            return new vscode.MarkdownString(`Template \`${name}\` was not found in \`templates/\`.`);
+        }
+        return new vscode.MarkdownString(`**${name}** *(template, ${vscode.workspace.asRelativePath(file)})*`);
+    }
+}
+
+/**
+ * Shows a config value as TOML, listing the keys of tables.
+ */
+function formatTomlEntry(entry: TomlEntry): string {
+    if (entry.type !== 'table' || entry.raw) {
+        return `${entry.key} = ${entry.raw}`;
+    }
+    const keys = entry.children.slice(0, PREVIEW_KEYS).map(child => child.raw ? `${child.key} = ${child.raw}` : `${child.key} = { ... }`);
+    return [...keys, ...(entry.children.length > PREVIEW_KEYS ? ['# ...'] : [])].join('\n');
+}
@@ -0,0 +1,22 @@
+import * as vscode from 'vscode';
+import { getAllayDocument } from './allayDocument';
+import { findSymbolAt } from './parser';
+import { findBlockVersions } from './referenceProvider';
+
+/**
+ * Go to Implementations on a `block` name lists the templates extending this one that override it.
+ */
+export class AllayImplementationProvider implements vscode.ImplementationProvider {
+
+    public async provideImplementation(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location[] | undefined> {
+        const symbol = findSymbolAt(getAllayDocument(document), document.offsetAt(position));
+        if (symbol?.kind !== 'block') {
+            return undefined;
+        }
+        const versions = await findBlockVersions(document.uri, symbol.name, false);
+        return versions.filter(location => location.uri.toString() !== document.uri.toString());
+    }
+}
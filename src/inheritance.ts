@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { toRange } from './allayDocument';
+import { AllayDocument, Name, getBlockDefinitions, getExtendsTarget } from './parser';
+import { SourceFile, getFileStem, isInSameProject, preferSameProject } from './workspace';
+import { findTemplateFiles } from './workspaceIndex';
+
+// Longest `extends` chain followed, as a guard against cycles through unresolved names
+const MAX_DEPTH = 32;
+
+/**
+ * A template with what matters for inheritance: its parent and the blocks it defines.
+ */
+export interface TemplateInfo {
+    file: SourceFile;
+    name: string;
+    parent?: Name;
+    blocks: Name[];
+}
+
+/**
+ * A block definition in a related template.
+ */
+export interface BlockVersion {
+    template: TemplateInfo;
+    block: Name;
+}
+
+export async function readTemplate(uri: vscode.Uri): Promise<TemplateInfo> {
+    const file = await SourceFile.read(uri);
+    return {
+        file,
+        name: getFileStem(uri),
+        parent: getExtendsTarget(file.allayDocument),
+        blocks: getBlockDefinitions(file.allayDocument),
+    };
+}
+
+/**
+ * Resolves a template name, preferring the template of the project containing `near`.
+ */
+export async function resolveTemplate(name: string, near: vscode.Uri): Promise<vscode.Uri | undefined> {
+    return preferSameProject(await findTemplateFiles(name), near);
+}
+
+/**
+ * Follows the `extends` chain of a template, nearest parent first. `complete` is false when a
+ * parent could not be found, so callers can avoid reporting blocks as undefined.
+ */
+export async function getAncestors(template: TemplateInfo): Promise<{ ancestors: TemplateInfo[]; complete: boolean }> {
+    const ancestors: TemplateInfo[] = [];
+    const seen = new Set([template.file.uri.toString()]);
+    let current = template;
+    while (current.parent && ancestors.length < MAX_DEPTH) {
+        const uri = await resolveTemplate(current.parent.name, current.file.uri);
+        if (!uri) {
+            return { ancestors, complete: false };
+        }
+        if (seen.has(uri.toString())) {
+            break;
+        }
+        seen.add(uri.toString());
+        current = await readTemplate(uri);
+        ancestors.push(current);
+    }
+    return { ancestors, complete: true };
+}
+
+/**
+ * Returns the templates of the same project that extend a template directly or indirectly.
+ */
+export async function getDescendants(template: TemplateInfo): Promise<TemplateInfo[]> {
+    const files = (await findTemplateFiles()).filter(file => isInSameProject(file, template.file.uri));
+    const templates = await Promise.all(files.map(readTemplate));
+
+    const descendants: TemplateInfo[] = [];
+    const names = new Set([template.name]);
+    const seen = new Set([template.file.uri.toString()]);
+    let added = true;
+    while (added) {
+        added = false;
+        for (const candidate of templates) {
+            const key = candidate.file.uri.toString();
+            if (!seen.has(key) && candidate.parent && names.has(candidate.parent.name)) {
+                seen.add(key);
+                names.add(candidate.name);
+                descendants.push(candidate);
+                added = true;
+            }
+        }
+    }
+    return descendants;
+}
+
+/**
+ * Returns the nearest ancestor's definition of a block, i.e. the block it overrides.
+ */
+export function findOverridden(ancestors: TemplateInfo[], name: string): BlockVersion | undefined {
+    for (const template of ancestors) {
+        const block = template.blocks.find(block => block.name === name);
+        if (block) {
+            return { template, block };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns the definitions of a block in the given templates, e.g. the descendants overriding it.
+ */
+export function findVersions(templates: TemplateInfo[], name: string): BlockVersion[] {
+    return templates.flatMap(template => template.blocks
+        .filter(block => block.name === name)
+        .map(block => ({ template, block })));
+}
+
+/**
+ * Flags blocks of a template that no ancestor defines: they are never rendered.
+ * Nothing is reported while the `extends` chain cannot be fully resolved.
+ */
+export async function validateBlockOverrides(document: vscode.TextDocument, allayDocument: AllayDocument): Promise<vscode.Diagnostic[]> {
+    const parent = getExtendsTarget(allayDocument);
+    const blocks = getBlockDefinitions(allayDocument);
+    if (!parent || blocks.length === 0) {
+        return [];
+    }
+
+    const template = await readTemplate(document.uri);
+    const { ancestors, complete } = await getAncestors(template);
+    if (!complete || ancestors.length === 0) {
+        return [];
+    }
+
+    return blocks
+        .filter(block => !findOverridden(ancestors, block.name))
+        .map(block => {
+            const diagnostic = new vscode.Diagnostic(
+                toRange(document, block.span),
+                `Block "${block.name}" is not defined in "${parent.name}" or the templates it extends, so it is never rendered.`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'allay';
+            diagnostic.code = 'unknown-block';
+            return diagnostic;
+        });
+}
+
+export function getTemplateLabel(template: TemplateInfo): string {
+    return path.basename(template.file.uri.fsPath);
+}
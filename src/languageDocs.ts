@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+
+export interface KeywordDoc {
+    syntax: string;
+    description: string;
+    example: string;
+}
+
+/**
+ * Reference documentation for Allay keywords, shown on hover and in completion details.
+ */
+export const KEYWORD_DOCS: { [keyword: string]: KeywordDoc } = {
+    'set': {
+        syntax: '{- set $var = expression -}',
+        description: 'Binds the value of an expression to a variable. The variable is available after this command.',
+        example: '{- set $title = this.title -}\n<h1>{: $title :}</h1>',
+    },
+    'for': {
+        syntax: '{- for $item : list -} ... {- end -}',
+        description: 'Renders the body once for each element of a list. Inside the loop, `$index` holds the position of the current element.',
+        example: '{- for $page : pages -}\n  <li>{: $index :}. {: $page.title :}</li>\n{- end -}',
+    },
+    'with': {
+        syntax: '{- with expression -} ... {- end -}',
+        description: 'Renders the body with `this` bound to the value of the expression.',
+        example: '{- with site.author -}\n  <span>{: this.name :}</span>\n{- end -}',
+    },
+    'if': {
+        syntax: '{- if condition -} ... {- end -}',
+        description: 'Renders the body only when the condition is true. May be followed by `else if` and `else` branches.',
+        example: '{- if this.tags -}\n  <ul class="tags">...</ul>\n{- end -}',
+    },
+    'else if': {
+        syntax: '{- else if condition -}',
+        description: 'Starts a branch of an `if` that is taken when all previous conditions were false and this one is true.',
+        example: '{- if $n == 0 -}\n  none\n{- else if $n == 1 -}\n  one\n{- else -}\n  many\n{- end -}',
+    },
+    'else': {
+        syntax: '{- else -}',
+        description: 'Starts the branch of an `if` that is taken when no condition was true.',
+        example: '{- if this.draft -}\n  Draft\n{- else -}\n  Published\n{- end -}',
+    },
+    'end': {
+        syntax: '{- end -}',
+        description: 'Closes the innermost `if`, `for`, `with` or `block`.',
+        example: '{- for $tag : this.tags -}\n  #{: $tag :}\n{- end -}',
+    },
+    'include': {
+        syntax: '{- include "name" -}',
+        description: 'Inserts the template `templates/name.html` (or `.md`) at this position.',
+        example: '{- include "header" -}',
+    },
+    'extends': {
+        syntax: '{- extends "name" -}',
+        description: 'Renders this file inside the template `templates/name.html` (or `.md`). Its `block` sections replace the ones of the same name in the parent.',
+        example: '{- extends "base" -}\n{: block "content" :}\n  ...\n{- end -}',
+    },
+    'get': {
+        syntax: '{- get "name" -}',
+        description: 'Reads a parameter passed to the current shortcode.',
+        example: '<figure>{- get "src" -}</figure>',
+    },
+    'param': {
+        syntax: '{- param name = default -}',
+        description: 'Declares a parameter of the current shortcode, optionally with a default value. Read it with `param.name`.',
+        example: '{- param caption = "" -}\n<figcaption>{: param.caption :}</figcaption>',
+    },
+    'block': {
+        syntax: '{: block "name" :} ... {- end -}',
+        description: 'Defines a named section for template inheritance. Templates extending this one can override it with a block of the same name.',
+        example: '{: block "title" :}My Site{- end -}',
+    },
+};
+
+/**
+ * Documentation for the built-in variables.
+ */
+export const BUILTIN_DOCS: { [name: string]: string } = {
+    'this': 'The current page, or the value bound by the enclosing `with`. Page fields come from the front matter, e.g. `this.title`.',
+    'site': 'Site-wide configuration read from `allay.toml`, e.g. `site.title`.',
+    'pages': 'The list of all pages of the site. Iterate over it with `{- for $page : pages -}`.',
+    'param': 'The arguments passed to the current shortcode, e.g. `param.caption`.',
+};
+
+/**
+ * Documentation for variables that Allay defines implicitly.
+ */
+export const IMPLICIT_VARIABLE_DOCS: { [name: string]: string } = {
+    '$index': 'The position of the current element inside a `{- for -}` loop.',
+};
+
+export function getKeywordDocumentation(keyword: string): vscode.MarkdownString | undefined {
+    const doc = KEYWORD_DOCS[keyword];
+    if (!doc) {
+        return undefined;
+    }
+    const markdown = new vscode.MarkdownString();
+    markdown.appendCodeblock(doc.syntax, 'allay');
+    markdown.appendMarkdown(doc.description);
+    markdown.appendMarkdown('\n\n**Example**\n');
+    markdown.appendCodeblock(doc.example, 'html');
+    return markdown;
+}
@@ -0,0 +1,110 @@
+/**
+ * Finds the links and asset references in Markdown and HTML and resolves them against the URLs of
+ * a site, for checking that they lead somewhere.
+ */
+
+/**
+ * A link or asset reference. `start` and `end` delimit the target in the text.
+ */
+export interface LinkReference {
+    target: string;
+    /** `asset` for images and `src` attributes, `link` for anything else. */
+    kind: 'link' | 'asset';
+    start: number;
+    end: number;
+}
+
+const MARKDOWN_LINK = /(!?)\[(?:[^\]\\\n]|\\.)*\]\(\s*(<[^>\n]*>|[^\s)]+)(?:\s+(?:"[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?\s*\)/g;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]\n]+\]:[ \t]*(<[^>\n]*>|\S+)/gm;
+const HTML_ATTRIBUTE = /\b(href|src)\s*=\s*(?:"([^"\n]*)"|'([^'\n]*)')/gi;
+const PAGE_SOURCE = /\.(?:md|markdown)$/i;
+
+/**
+ * Returns the link targets in a text: Markdown links, images and reference definitions (only when
+ * `markdown`), and `href` and `src` attributes. Code spans and fenced code blocks are skipped.
+ */
+export function findLinks(text: string, markdown: boolean): LinkReference[] {
+    const masked = markdown ? maskCode(text) : text;
+    const links: LinkReference[] = [];
+    const add = (target: string, kind: LinkReference['kind'], start: number) => {
+        // `<...>` allows spaces in Markdown link targets
+        const bracketed = target.startsWith('<') && target.endsWith('>');
+        const unwrapped = bracketed ? target.slice(1, -1) : target;
+        const offset = bracketed ? start + 1 : start;
+        links.push({ target: unwrapped, kind, start: offset, end: offset + unwrapped.length });
+    };
+
+    if (markdown) {
+        for (const match of masked.matchAll(MARKDOWN_LINK)) {
+            const target = match[2];
+            add(target, match[1] ? 'asset' : 'link', match.index + match[0].indexOf(target, match[0].indexOf('](') + 2));
+        }
+        for (const match of masked.matchAll(REFERENCE_DEFINITION)) {
+            add(match[1], 'link', match.index + match[0].length - match[1].length);
+        }
+    }
+    for (const match of masked.matchAll(HTML_ATTRIBUTE)) {
+        const target = match[2] ?? match[3];
+        const start = match.index + match[0].length - target.length - 1;
+        links.push({ target, kind: match[1].toLowerCase() === 'src' ? 'asset' : 'link', start, end: start + target.length });
+    }
+    return links.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Resolves a link target to a URL path of the site, relative targets against the URL of the page
+ * they are on. Returns undefined for targets that are not checked: external URLs, other schemes
+ * such as `mailto:`, links within the page (`#...`) and targets built by Allay markup.
+ */
+export function resolveLinkPath(target: string, pageUrl: string): string | undefined {
+    const trimmed = target.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(trimmed) || /[{}]/.test(trimmed)) {
+        return undefined;
+    }
+    try {
+        const pathname = new URL(trimmed, new URL(pageUrl, 'http://site')).pathname;
+        return decodeURIComponent(pathname);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns whether a target names the Markdown source of a page, e.g. `../posts/hello.md`, which
+ * is checked against the files in `content/` rather than the URLs of the site.
+ */
+export function isPageSourceLink(target: string): boolean {
+    return PAGE_SOURCE.test(target.replace(/[?#].*$/, ''));
+}
+
+/**
+ * Returns whether a URL path leads to a page: one of `pageUrls`, the same with or without its
+ * trailing `/` or `index.html`. A folder such as `/posts/` is only a page when the site generates
+ * one there, e.g. from `content/posts/index.md`; pages below it do not count.
+ */
+export function isPagePath(pageUrls: Set<string>, urlPath: string): boolean {
+    const normalized = normalizePagePath(urlPath);
+    return normalized === '/' || pageUrls.has(normalized);
+}
+
+/**
+ * Normalizes a page URL for comparison: `/about`, `/about/` and `/about/index.html` all become
+ * `/about/`. Paths of files such as `/feed.xml` are kept.
+ */
+export function normalizePagePath(urlPath: string): string {
+    const withoutIndex = urlPath.replace(/\/index\.html?$/i, '/');
+    if (withoutIndex.endsWith('/') || /\.[^/]+$/.test(withoutIndex)) {
+        return withoutIndex;
+    }
+    return `${withoutIndex}/`;
+}
+
+/**
+ * Replaces code spans and fenced code blocks with spaces, keeping offsets and line breaks.
+ */
+function maskCode(text: string): string {
+    const blank = (code: string) => code.replace(/[^\n]/g, ' ');
+    return text
+        .replace(/^( {0,3})(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\2[`~]*[ \t]*$|(?![\s\S]))/gm, blank)
+        .replace(/(`+)[^`\n][\s\S]*?\1/g, blank);
+}
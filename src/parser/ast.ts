@@ -0,0 +1,286 @@
+import type { Token } from './lexer';
+
+/**
+ * Typed AST for Allay templates.
+ * All positions are character offsets into the parsed text, so the AST stays independent of
+ * the `vscode` API and can be shared by completion, highlighting, hover and diagnostics.
+ */
+
+export interface Span {
+    start: number;
+    end: number;
+}
+
+export interface ParseError {
+    message: string;
+    span: Span;
+    /** Identifies structural problems that tooling may offer fixes for. */
+    code?: ParseErrorCode;
+}
+
+export type ParseErrorCode =
+    | 'unclosed-control'
+    | 'unclosed-shortcode'
+    | 'unmatched-shortcode-close'
+    | 'unmatched-end'
+    | 'misplaced-else';
+
+/** A bare name with its location, e.g. a keyword, a field or a shortcode tag. */
+export interface Name {
+    name: string;
+    span: Span;
+}
+
+// --- Expressions ---
+
+export interface StringLiteral {
+    kind: 'string';
+    value: string;
+    terminated: boolean;
+    span: Span;
+}
+
+export interface NumberLiteral {
+    kind: 'number';
+    value: number;
+    span: Span;
+}
+
+export interface BooleanLiteral {
+    kind: 'boolean';
+    value: boolean;
+    span: Span;
+}
+
+export interface NullLiteral {
+    kind: 'null';
+    span: Span;
+}
+
+/** A user variable such as `$post`. The name includes the leading `$`. */
+export interface VariableExpression {
+    kind: 'variable';
+    name: string;
+    span: Span;
+}
+
+/** A bare identifier such as `this`, `site`, `pages` or `param`. */
+export interface IdentifierExpression {
+    kind: 'identifier';
+    name: string;
+    span: Span;
+}
+
+/**
+ * Field access `object.property`.
+ * `object` is undefined for a leading `.field`, which reads from the current scope.
+ * `property` is undefined while the user has only typed the dot.
+ */
+export interface MemberExpression {
+    kind: 'member';
+    object?: Expression;
+    dot: Span;
+    property?: Name;
+    span: Span;
+}
+
+export interface UnaryExpression {
+    kind: 'unary';
+    operator: string;
+    operand?: Expression;
+    span: Span;
+}
+
+export interface BinaryExpression {
+    kind: 'binary';
+    operator: string;
+    left: Expression;
+    right?: Expression;
+    span: Span;
+}
+
+export interface GroupExpression {
+    kind: 'group';
+    expression?: Expression;
+    span: Span;
+}
+
+export type Literal = StringLiteral | NumberLiteral | BooleanLiteral | NullLiteral;
+
+export type Expression =
+    | Literal
+    | VariableExpression
+    | IdentifierExpression
+    | MemberExpression
+    | UnaryExpression
+    | BinaryExpression
+    | GroupExpression;
+
+/** A positional (`value`) or named (`name=value`) argument. */
+export interface Argument {
+    name?: Name;
+    value?: Expression;
+    span: Span;
+}
+
+// --- Commands ({- ... -}) ---
+
+export type ControlKeyword = 'set' | 'for' | 'with' | 'if' | 'else' | 'end' | 'include' | 'extends' | 'get' | 'param';
+
+interface CommandBase {
+    /** The leading keyword, undefined for a bare expression command. */
+    keyword?: Name;
+    span: Span;
+}
+
+export interface SetCommand extends CommandBase {
+    kind: 'set';
+    targets: VariableExpression[];
+    value?: Expression;
+}
+
+export interface ForCommand extends CommandBase {
+    kind: 'for';
+    variables: VariableExpression[];
+    iterable?: Expression;
+}
+
+export interface WithCommand extends CommandBase {
+    kind: 'with';
+    value?: Expression;
+}
+
+export interface IfCommand extends CommandBase {
+    kind: 'if';
+    condition?: Expression;
+}
+
+/** `else` or `else if <condition>`. */
+export interface ElseCommand extends CommandBase {
+    kind: 'else';
+    ifKeyword?: Name;
+    condition?: Expression;
+}
+
+export interface EndCommand extends CommandBase {
+    kind: 'end';
+}
+
+export interface IncludeCommand extends CommandBase {
+    kind: 'include' | 'extends';
+    target?: Expression;
+    args: Argument[];
+}
+
+export interface GetCommand extends CommandBase {
+    kind: 'get' | 'param';
+    args: Argument[];
+}
+
+export interface ExpressionCommand extends CommandBase {
+    kind: 'expression';
+    value?: Expression;
+}
+
+export type Command =
+    | SetCommand
+    | ForCommand
+    | WithCommand
+    | IfCommand
+    | ElseCommand
+    | EndCommand
+    | IncludeCommand
+    | GetCommand
+    | ExpressionCommand;
+
+// --- Blocks ---
+
+interface BlockBase {
+    span: Span;
+    /** The opening delimiter, e.g. `{-`. */
+    open: Span;
+    /** The closing delimiter, undefined when the block is not terminated. */
+    close?: Span;
+}
+
+export interface CommandBlock extends BlockBase {
+    kind: 'command';
+    command: Command;
+}
+
+/** `{: block "name" :}` */
+export interface BlockDefinition {
+    keyword: Name;
+    name?: Expression;
+}
+
+export interface ExpressionBlock extends BlockBase {
+    kind: 'expression';
+    value?: Expression;
+    definition?: BlockDefinition;
+}
+
+export interface ShortcodeBlock extends BlockBase {
+    kind: 'shortcode';
+    /** True for `{</ name >}`. */
+    closing: boolean;
+    /** True for `{< name />}`. */
+    selfClosing: boolean;
+    name?: Name;
+    args: Argument[];
+}
+
+export interface CommentBlock extends BlockBase {
+    kind: 'comment';
+    text: string;
+}
+
+export type Block = CommandBlock | ExpressionBlock | ShortcodeBlock | CommentBlock;
+
+// --- Structure ---
+
+/** A leaf in the structure tree: a block that neither opens nor closes a region. */
+export interface BlockNode {
+    kind: 'block';
+    block: Block;
+    span: Span;
+}
+
+/** One arm of a control region, headed by `if`, `else if`, `else`, `for`, `with` or `block`. */
+export interface Branch {
+    header: CommandBlock | ExpressionBlock;
+    children: Node[];
+    span: Span;
+}
+
+export type ControlType = 'if' | 'for' | 'with' | 'block';
+
+/** A control region from its opening block to the matching `{- end -}`. */
+export interface ControlNode {
+    kind: 'control';
+    type: ControlType;
+    branches: Branch[];
+    end?: CommandBlock;
+    span: Span;
+}
+
+/** A shortcode pair `{< name >} ... {</ name >}`, or an opening tag that is never closed. */
+export interface ShortcodeNode {
+    kind: 'shortcode';
+    open: ShortcodeBlock;
+    children: Node[];
+    close?: ShortcodeBlock;
+    span: Span;
+}
+
+export type Node = BlockNode | ControlNode | ShortcodeNode;
+
+export interface AllayDocument {
+    text: string;
+    tokens: Token[];
+    /** Every block in document order. */
+    blocks: Block[];
+    /** Blocks nested by control flow and shortcode pairs. */
+    nodes: Node[];
+    errors: ParseError[];
+}
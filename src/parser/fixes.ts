@@ -0,0 +1,157 @@
+import { AllayDocument, Block, Node, Span, VariableExpression } from './ast';
+import { TextEdit } from './format';
+import { findBlockAt, walkNodes } from './query';
+
+// Tabs are compared as this many columns when deciding what belongs to a body
+const TAB_COLUMNS = 4;
+
+/**
+ * Returns the insertion closing the region or shortcode pair opened by `header`: `{- end -}` or
+ * `{</ name >}`. When the header shares its line with other content, the close goes at the end of
+ * that line; otherwise after the last following line indented deeper than the header, lined up
+ * with the header. Returns undefined when `header` opens nothing.
+ */
+export function getClosingInsertion(document: AllayDocument, header: Block): TextEdit | undefined {
+    let closeText: string;
+    let lastHeader: Block = header;
+    if (header.kind === 'shortcode' && header.name && !header.closing && !header.selfClosing) {
+        closeText = `{</ ${header.name.name} >}`;
+    } else {
+        const node = findNode(document, node => node.kind === 'control' && node.branches[0].header === header);
+        if (node?.kind !== 'control') {
+            return undefined;
+        }
+        closeText = '{- end -}';
+        lastHeader = node.branches[node.branches.length - 1].header;
+    }
+
+    const text = document.text;
+    const limit = getEnclosingEnd(document, header);
+    const lineStart = getLineStart(text, header.span.start);
+    const indent = /^[ \t]*/.exec(text.slice(lineStart))![0];
+    const lineEnd = getLineEnd(text, lastHeader.span.end);
+
+    const before = text.slice(lineStart, header.span.start).trim();
+    const after = text.slice(lastHeader.span.end, lineEnd).trim();
+    if (before !== '' || after !== '') {
+        const offset = Math.min(lineEnd, limit);
+        return { span: { start: offset, end: offset }, newText: closeText };
+    }
+
+    // The body is every following line indented deeper than the header, blank lines aside
+    const columns = countColumns(indent);
+    let insertAt = lineEnd;
+    for (let start = text.indexOf('\n', lineEnd) + 1; start > 0 && start < limit;) {
+        const end = getLineEnd(text, start);
+        const line = text.slice(start, end);
+        if (line.trim() !== '') {
+            if (countColumns(/^[ \t]*/.exec(line)![0]) <= columns) {
+                break;
+            }
+            insertAt = end;
+        }
+        start = text.indexOf('\n', end) + 1;
+    }
+    return { span: { start: insertAt, end: insertAt }, newText: `\n${indent}${closeText}` };
+}
+
+/**
+ * Returns the insertion of `{- set $var = null -}` on its own line above the block using `use`.
+ */
+export function getSetInsertion(document: AllayDocument, use: VariableExpression): TextEdit {
+    const block = findBlockAt(document, use.span.start);
+    const lineStart = getLineStart(document.text, block?.span.start ?? use.span.start);
+    const indent = /^[ \t]*/.exec(document.text.slice(lineStart))![0];
+    return { span: { start: lineStart, end: lineStart }, newText: `${indent}{- set ${use.name} = null -}\n` };
+}
+
+/**
+ * Explains why a selection cannot be moved into a file of its own, or returns undefined if it can:
+ * it must not cut through a block and must contain whole control regions and shortcode pairs.
+ */
+export function checkExtraction(document: AllayDocument, span: Span): string | undefined {
+    if (document.text.slice(span.start, span.end).trim() === '') {
+        return 'The selection is empty.';
+    }
+    const cuts = (offset: number) => document.blocks.some(block => block.span.start < offset && offset < block.span.end);
+    if (cuts(span.start) || cuts(span.end)) {
+        return 'The selection starts or ends inside a block.';
+    }
+
+    const inside = (offset: number) => span.start <= offset && offset < span.end;
+    let split = false;
+    walkNodes(document.nodes, node => {
+        const close = node.kind === 'control' ? node.end : node.kind === 'shortcode' ? node.close : undefined;
+        if (!close) {
+            return;
+        }
+        const starts = inside(node.span.start);
+        if (starts !== inside(close.span.start)) {
+            split = true;
+        }
+        // An `else` without its `if`
+        if (node.kind === 'control' && !starts && node.branches.slice(1).some(branch => inside(branch.header.span.start))) {
+            split = true;
+        }
+    });
+    return split ? 'The selection must contain whole `if`/`for`/`with`/`block` regions and shortcode pairs.' : undefined;
+}
+
+/**
+ * Returns the selected text with the indentation its lines have in common removed.
+ */
+export function getExtractedText(document: AllayDocument, span: Span): string {
+    const text = document.text;
+    // Indentation before the selection on its first line counts as part of that line
+    const prefix = text.slice(getLineStart(text, span.start), span.start);
+    const lead = /^[ \t]*$/.test(prefix) ? prefix : '';
+    const lines = (lead + text.slice(span.start, span.end)).split('\n');
+
+    const indents = lines.filter(line => line.trim() !== '').map(line => /^[ \t]*/.exec(line)![0].length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.slice(Math.min(common, /^[ \t]*/.exec(line)![0].length))).join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Returns where the innermost closed region or shortcode pair around `block` ends, i.e. where its
+ * closing block starts, or the end of the document.
+ */
+function getEnclosingEnd(document: AllayDocument, block: Block): number {
+    let end = document.text.length;
+    walkNodes(document.nodes, node => {
+        const close = node.kind === 'control' ? node.end : node.kind === 'shortcode' ? node.close : undefined;
+        if (close && node.span.start < block.span.start && block.span.end <= close.span.start) {
+            end = Math.min(end, close.span.start);
+        }
+    });
+    return end;
+}
+
+function findNode(document: AllayDocument, predicate: (node: Node) => boolean): Node | undefined {
+    let found: Node | undefined;
+    walkNodes(document.nodes, node => {
+        if (!found && predicate(node)) {
+            found = node;
+        }
+    });
+    return found;
+}
+
+function getLineStart(text: string, offset: number): number {
+    return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Returns the end of the line's content, before `\r\n` or `\n`.
+ */
+function getLineEnd(text: string, offset: number): number {
+    const newline = text.indexOf('\n', offset);
+    if (newline === -1) {
+        return text.length;
+    }
+    return text[newline - 1] === '\r' ? newline - 1 : newline;
+}
+
+function countColumns(indent: string): number {
+    return [...indent].reduce((columns, ch) => ch === '\t' ? columns + TAB_COLUMNS - (columns % TAB_COLUMNS) : columns + 1, 0);
+}
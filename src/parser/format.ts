@@ -0,0 +1,267 @@
+import { AllayDocument, Argument, Block, Node, Span } from './ast';
+import { Token } from './lexer';
+import { getBlockExpressions, walkExpression } from './query';
+
+export interface FormatOptions {
+    /** Columns per indentation level. */
+    tabSize: number;
+    insertSpaces: boolean;
+    /**
+     * Which lines inside control-flow bodies are re-indented: only lines starting with a command
+     * or comment block, which render nothing themselves; all lines starting with a block; or also
+     * the markup lines in between, which move together with the expressions and shortcodes among
+     * them so their indentation relative to each other is kept.
+     */
+    indent: 'commands' | 'blocks' | 'all';
+}
+
+export interface TextEdit {
+    span: Span;
+    newText: string;
+}
+
+/** A control-flow body: from the end of its header to the next branch or the `end`. */
+interface Body {
+    start: number;
+    end: number;
+    header: Block;
+}
+
+interface Line {
+    start: number;
+    /** Leading whitespace. */
+    indent: string;
+    kind: 'command' | 'block' | 'text';
+    /** The body the first character of the line is in. */
+    body?: Body;
+    /** For a line starting with `else` or `end`: the header it lines up with. */
+    header?: Block;
+}
+
+/**
+ * Formats Allay markup: single-line blocks get one space inside their delimiters and around
+ * operators, and lines inside `if`/`for`/`with`/`block` bodies are indented one level deeper
+ * than the line of their header. Blocks with syntax errors, multi-line blocks and lines outside
+ * any control flow are left as written. With `range`, only blocks and lines starting inside it
+ * are changed.
+ */
+export function formatDocument(document: AllayDocument, options: FormatOptions, range?: Span): TextEdit[] {
+    const inRange = (offset: number) => !range || (range.start <= offset && offset <= range.end);
+    const edits: TextEdit[] = [];
+
+    const lines = getLines(document);
+    const targets = new Map<number, number>();
+    const columnsOf = (indent: string) => countColumns(indent, options.tabSize);
+    const indentOf = (header: Block) => {
+        const line = findLine(lines, header.span.start);
+        return targets.get(line) ?? columnsOf(lines[line].indent);
+    };
+
+    // The least indented markup line of each body is moved to the body's level
+    const isMarkup = (line: Line) => line.kind === 'text' || (options.indent === 'all' && line.kind === 'block');
+    const textIndents = new Map<Body, number>();
+    for (const line of lines) {
+        if (isMarkup(line) && line.body && inRange(line.start)) {
+            textIndents.set(line.body, Math.min(textIndents.get(line.body) ?? Infinity, columnsOf(line.indent)));
+        }
+    }
+
+    lines.forEach((line, index) => {
+        if ((!line.body && !line.header) || !inRange(line.start + line.indent.length) || !shouldIndent(line, options)) {
+            return;
+        }
+        let target: number;
+        if (line.header) {
+            target = indentOf(line.header);
+        } else {
+            target = indentOf(line.body!.header) + options.tabSize;
+            if (isMarkup(line)) {
+                target += columnsOf(line.indent) - textIndents.get(line.body!)!;
+            }
+        }
+        targets.set(index, target);
+
+        const indent = renderIndent(target, options);
+        if (indent !== line.indent) {
+            edits.push({ span: { start: line.start, end: line.start + line.indent.length }, newText: indent });
+        }
+    });
+
+    for (const block of document.blocks) {
+        if (inRange(block.span.start) && inRange(block.span.end)) {
+            const formatted = formatBlock(document, block);
+            if (formatted !== undefined && formatted !== document.text.slice(block.span.start, block.span.end)) {
+                edits.push({ span: block.span, newText: formatted });
+            }
+        }
+    }
+    return edits.sort((a, b) => a.span.start - b.span.start);
+}
+
+function shouldIndent(line: Line, options: FormatOptions): boolean {
+    switch (options.indent) {
+        case 'commands':
+            return line.kind === 'command';
+        case 'blocks':
+            return line.kind !== 'text';
+        case 'all':
+            return true;
+    }
+}
+
+/**
+ * Splits the document into non-blank lines that do not continue a multi-line block, noting
+ * which body each is in.
+ */
+function getLines(document: AllayDocument): Line[] {
+    const text = document.text;
+    const bodies: Body[] = [];
+    const headers = new Map<Block, Block>();
+    collectBodies(document.nodes, bodies, headers);
+    const blockStarts = new Map(document.blocks.map(block => [block.span.start, block]));
+
+    const lines: Line[] = [];
+    let blockIndex = 0;
+    for (let start = 0; start <= text.length;) {
+        const newline = text.indexOf('\n', start);
+        const end = newline === -1 ? text.length : newline;
+        const indent = /^[ \t]*/.exec(text.slice(start, end))![0];
+        const first = start + indent.length;
+
+        while (blockIndex < document.blocks.length && document.blocks[blockIndex].span.end <= first) {
+            blockIndex++;
+        }
+        const inside = document.blocks[blockIndex] && document.blocks[blockIndex].span.start < first;
+        if (!inside && text.slice(first, end).trim() !== '') {
+            const block = blockStarts.get(first);
+            const kind = !block ? 'text' : block.kind === 'command' || block.kind === 'comment' ? 'command' : 'block';
+            // Bodies are in document order with parents first, so the last match is the innermost
+            const body = bodies.filter(candidate => candidate.start <= first && first < candidate.end).pop();
+            lines.push({ start, indent, kind, body, header: block && headers.get(block) });
+        } else {
+            lines.push({ start, indent, kind: 'text' });
+        }
+        if (newline === -1) {
+            break;
+        }
+        start = newline + 1;
+    }
+    return lines;
+}
+
+/**
+ * Collects the bodies of control regions, and maps each `else` and `end` to the first header
+ * of its region.
+ */
+function collectBodies(nodes: Node[], bodies: Body[], headers: Map<Block, Block>): void {
+    for (const node of nodes) {
+        if (node.kind === 'control') {
+            const header = node.branches[0].header;
+            node.branches.forEach((branch, index) => {
+                const end = index === node.branches.length - 1 && node.end ? node.end.span.start : branch.span.end;
+                bodies.push({ start: branch.header.span.end, end, header });
+                if (index > 0) {
+                    headers.set(branch.header, header);
+                }
+                collectBodies(branch.children, bodies, headers);
+            });
+            if (node.end) {
+                headers.set(node.end, header);
+            }
+        } else if (node.kind === 'shortcode') {
+            collectBodies(node.children, bodies, headers);
+        }
+    }
+}
+
+function findLine(lines: Line[], offset: number): number {
+    let low = 0;
+    let high = lines.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lines[middle].start <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return low;
+}
+
+function countColumns(indent: string, tabSize: number): number {
+    let columns = 0;
+    for (const ch of indent) {
+        columns = ch === '\t' ? columns + tabSize - (columns % tabSize) : columns + 1;
+    }
+    return columns;
+}
+
+function renderIndent(columns: number, options: FormatOptions): string {
+    if (options.insertSpaces) {
+        return ' '.repeat(columns);
+    }
+    return '\t'.repeat(Math.floor(columns / options.tabSize)) + ' '.repeat(columns % options.tabSize);
+}
+
+/**
+ * Rebuilds a single-line block from its tokens with normalized spacing, or returns undefined
+ * when the block is left as written.
+ */
+function formatBlock(document: AllayDocument, block: Block): string | undefined {
+    const text = document.text.slice(block.span.start, block.span.end);
+    if (block.kind === 'comment' || !block.close || text.includes('\n')) {
+        return undefined;
+    }
+    if (document.errors.some(error => error.span.start < block.span.end && block.span.start < error.span.end)) {
+        return undefined;
+    }
+    const tokens = document.tokens.filter(token => token.start >= block.open.end && token.end <= block.close!.start);
+    if (tokens.length === 0 || tokens.some(token => token.kind === 'unknown')) {
+        return undefined;
+    }
+
+    // Member access and unary operators bind tightly: `$post.title`, `!$draft`, `-1`
+    const tightBefore = new Set<number>();
+    const tightAfter = new Set<number>();
+    for (const root of getBlockExpressions(block)) {
+        walkExpression(root, expression => {
+            if (expression.kind === 'member') {
+                tightAfter.add(expression.dot.start);
+                if (expression.object) {
+                    tightBefore.add(expression.dot.start);
+                }
+            } else if (expression.kind === 'unary') {
+                tightAfter.add(expression.span.start);
+            }
+        });
+    }
+    // Arguments of shortcodes, `include` and `extends` are written `name=value`; `param` defaults keep `name = value`
+    for (const arg of getBlockArguments(block)) {
+        const name = arg.name && tokens.findIndex(token => token.start === arg.name!.span.start);
+        if (name !== undefined && name >= 0 && tokens[name + 1]?.kind === 'equals') {
+            tightAfter.add(tokens[name].start);
+            tightAfter.add(tokens[name + 1].start);
+        }
+    }
+
+    const source = (token: Token) => document.text.slice(token.start, token.end);
+    let content = source(tokens[0]);
+    for (let i = 1; i < tokens.length; i++) {
+        const previous = tokens[i - 1];
+        const token = tokens[i];
+        const tight = tightAfter.has(previous.start) || tightBefore.has(token.start)
+            || previous.kind === 'lparen' || token.kind === 'rparen' || token.kind === 'comma';
+        content += (tight ? '' : ' ') + source(token);
+    }
+    return `${document.text.slice(block.open.start, block.open.end)} ${content} ${document.text.slice(block.close.start, block.close.end)}`;
+}
+
+function getBlockArguments(block: Block): Argument[] {
+    if (block.kind === 'shortcode') {
+        return block.args;
+    }
+    if (block.kind === 'command' && (block.command.kind === 'include' || block.command.kind === 'extends')) {
+        return block.command.args;
+    }
+    return [];
+}
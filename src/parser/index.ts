@@ -0,0 +1,12 @@
+export * from './ast';
+export { Token, TokenKind, tokenize } from './lexer';
+export { parse } from './parser';
+export * from './query';
+export * from './symbols';
+export * from './scopes';
+export * from './outline';
+export * from './shortcodes';
+export * from './types';
+export * from './format';
+export * from './semanticTokens';
+export * from './fixes';
@@ -0,0 +1,276 @@
+import { ParseError } from './ast';
+
+/**
+ * Kinds of tokens produced by the lexer.
+ * Delimiter tokens (`*Open`, `*Close`) frame Allay blocks, everything else is either
+ * raw text between blocks or a token inside a block.
+ */
+export type TokenKind =
+    | 'text'
+    | 'commandOpen'          // {-
+    | 'commandClose'         // -}
+    | 'expressionOpen'       // {:
+    | 'expressionClose'      // :}
+    | 'shortcodeOpen'        // {<
+    | 'shortcodeCloseOpen'   // {</
+    | 'shortcodeClose'       // >}
+    | 'shortcodeSelfClose'   // />}
+    | 'comment'              // {% ... %} as a whole
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'variable'
+    | 'identifier'
+    | 'operator'
+    | 'dot'
+    | 'comma'
+    | 'colon'
+    | 'equals'
+    | 'lparen'
+    | 'rparen'
+    | 'unknown';
+
+export interface Token {
+    kind: TokenKind;
+    start: number;
+    end: number;
+    /** Source text of the token. For strings this is the unescaped value. */
+    value: string;
+    /** False for a string literal or comment that runs to the end of its line/document. */
+    terminated?: boolean;
+}
+
+export type BlockMode = 'command' | 'expression' | 'shortcode';
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!'];
+
+/**
+ * Splits an Allay document into tokens.
+ * Text outside of blocks is kept as `text` tokens so the stream covers the whole document.
+ */
+export function tokenize(text: string, errors: ParseError[] = []): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let textStart = 0;
+
+    const flushText = (end: number) => {
+        if (end > textStart) {
+            tokens.push({ kind: 'text', start: textStart, end, value: text.slice(textStart, end) });
+        }
+    };
+
+    while (pos < text.length) {
+        const opener = matchOpener(text, pos);
+        if (!opener) {
+            pos++;
+            continue;
+        }
+
+        flushText(pos);
+
+        if (opener.kind === 'comment') {
+            const closeIndex = text.indexOf('%}', pos + 2);
+            const end = closeIndex === -1 ? text.length : closeIndex + 2;
+            tokens.push({ kind: 'comment', start: pos, end, value: text.slice(pos, end), terminated: closeIndex !== -1 });
+            if (closeIndex === -1) {
+                errors.push({ message: 'Unterminated comment block, expected `%}`.', span: { start: pos, end: pos + 2 } });
+            }
+            pos = end;
+        } else {
+            tokens.push({ kind: opener.kind, start: pos, end: pos + opener.length, value: text.substr(pos, opener.length) });
+            pos = scanBlock(text, pos + opener.length, opener.mode, tokens, errors);
+        }
+        textStart = pos;
+    }
+
+    flushText(text.length);
+    return tokens;
+}
+
+function matchOpener(text: string, pos: number): { kind: TokenKind; length: number; mode: BlockMode } | { kind: 'comment' } | undefined {
+    if (text[pos] !== '{') {
+        return undefined;
+    }
+    switch (text[pos + 1]) {
+        case '-': return { kind: 'commandOpen', length: 2, mode: 'command' };
+        case ':': return { kind: 'expressionOpen', length: 2, mode: 'expression' };
+        case '%': return { kind: 'comment' };
+        case '<':
+            return text[pos + 2] === '/'
+                ? { kind: 'shortcodeCloseOpen', length: 3, mode: 'shortcode' }
+                : { kind: 'shortcodeOpen', length: 2, mode: 'shortcode' };
+    }
+    return undefined;
+}
+
+/**
+ * Tokenizes the inside of a block until its closing delimiter.
+ * A block that is never closed (another block opener or the end of the document comes first)
+ * is cut back to the end of its first line, so a half-typed block does not swallow the rest
+ * of the document.
+ * Returns the position right after the last consumed character.
+ */
+function scanBlock(text: string, start: number, mode: BlockMode, tokens: Token[], errors: ParseError[]): number {
+    const blockTokens: Token[] = [];
+    const blockErrors: ParseError[] = [];
+    const end = scanBlockContent(text, start, mode, blockTokens, blockErrors);
+
+    const last = blockTokens[blockTokens.length - 1];
+    if (last && isCloseToken(last.kind)) {
+        tokens.push(...blockTokens);
+        errors.push(...blockErrors);
+        return end;
+    }
+
+    let lineEnd = text.indexOf('\n', start);
+    if (lineEnd === -1 || lineEnd > end) {
+        lineEnd = end;
+    } else if (text[lineEnd - 1] === '\r') {
+        lineEnd--;
+    }
+    tokens.push(...blockTokens.filter(token => token.end <= lineEnd));
+    errors.push(...blockErrors.filter(error => error.span.end <= lineEnd));
+    return lineEnd;
+}
+
+export function isCloseToken(kind: TokenKind): boolean {
+    return kind === 'commandClose' || kind === 'expressionClose' || kind === 'shortcodeClose' || kind === 'shortcodeSelfClose';
+}
+
+function scanBlockContent(text: string, pos: number, mode: BlockMode, tokens: Token[], errors: ParseError[]): number {
+    while (pos < text.length) {
+        const ch = text[pos];
+        const next = text[pos + 1];
+
+        if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+            pos++;
+            continue;
+        }
+
+        // Closing delimiters
+        if (mode === 'command' && ch === '-' && next === '}') {
+            tokens.push({ kind: 'commandClose', start: pos, end: pos + 2, value: '-}' });
+            return pos + 2;
+        }
+        if (mode === 'expression' && ch === ':' && next === '}') {
+            tokens.push({ kind: 'expressionClose', start: pos, end: pos + 2, value: ':}' });
+            return pos + 2;
+        }
+        if (mode === 'shortcode' && ch === '>' && next === '}') {
+            tokens.push({ kind: 'shortcodeClose', start: pos, end: pos + 2, value: '>}' });
+            return pos + 2;
+        }
+        if (mode === 'shortcode' && ch === '/' && next === '>' && text[pos + 2] === '}') {
+            tokens.push({ kind: 'shortcodeSelfClose', start: pos, end: pos + 3, value: '/>}' });
+            return pos + 3;
+        }
+
+        // A new block starts before this one was closed
+        if (matchOpener(text, pos)) {
+            return pos;
+        }
+
+        if (ch === '"') {
+            pos = scanString(text, pos, tokens, errors);
+            continue;
+        }
+
+        if (isDigit(ch)) {
+            let end = pos + 1;
+            while (end < text.length && isDigit(text[end])) { end++; }
+            if (text[end] === '.' && isDigit(text[end + 1])) {
+                end++;
+                while (end < text.length && isDigit(text[end])) { end++; }
+            }
+            tokens.push({ kind: 'number', start: pos, end, value: text.slice(pos, end) });
+            pos = end;
+            continue;
+        }
+
+        if (ch === '#' && (next === 't' || next === 'f') && !isIdentifierPart(text[pos + 2])) {
+            tokens.push({ kind: 'boolean', start: pos, end: pos + 2, value: text.substr(pos, 2) });
+            pos += 2;
+            continue;
+        }
+
+        if (ch === '$' || isIdentifierStart(ch)) {
+            let end = pos + 1;
+            while (end < text.length && isIdentifierPart(text[end])) { end++; }
+            // Shortcode names may contain dashes, e.g. {< my-note >}
+            if (mode === 'shortcode' && ch !== '$') {
+                while (end < text.length && (isIdentifierPart(text[end]) || (text[end] === '-' && isIdentifierPart(text[end + 1])))) { end++; }
+            }
+            tokens.push({ kind: ch === '$' ? 'variable' : 'identifier', start: pos, end, value: text.slice(pos, end) });
+            pos = end;
+            continue;
+        }
+
+        const simple = SIMPLE_TOKENS[ch];
+        if (simple && !(ch === '=' && next === '=')) {
+            tokens.push({ kind: simple, start: pos, end: pos + 1, value: ch });
+            pos++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => text.startsWith(op, pos));
+        if (operator) {
+            tokens.push({ kind: 'operator', start: pos, end: pos + operator.length, value: operator });
+            pos += operator.length;
+            continue;
+        }
+
+        tokens.push({ kind: 'unknown', start: pos, end: pos + 1, value: ch });
+        errors.push({ message: `Unexpected character \`${ch}\`.`, span: { start: pos, end: pos + 1 } });
+        pos++;
+    }
+    return pos;
+}
+
+const SIMPLE_TOKENS: { [ch: string]: TokenKind } = {
+    '.': 'dot',
+    ',': 'comma',
+    ':': 'colon',
+    '=': 'equals',
+    '(': 'lparen',
+    ')': 'rparen',
+};
+
+/**
+ * Scans a double-quoted string. Strings do not span lines: an unterminated string
+ * stops at the end of the line so the rest of the block can still be recovered.
+ */
+function scanString(text: string, start: number, tokens: Token[], errors: ParseError[]): number {
+    let pos = start + 1;
+    let value = '';
+    while (pos < text.length && text[pos] !== '"' && text[pos] !== '\n') {
+        if (text[pos] === '\\' && pos + 1 < text.length && text[pos + 1] !== '\n') {
+            const escaped = text[pos + 1];
+            value += ESCAPES[escaped] ?? escaped;
+            pos += 2;
+        } else {
+            value += text[pos];
+            pos++;
+        }
+    }
+    const terminated = text[pos] === '"';
+    const end = terminated ? pos + 1 : pos;
+    tokens.push({ kind: 'string', start, end, value, terminated });
+    if (!terminated) {
+        errors.push({ message: 'Unterminated string literal.', span: { start, end } });
+    }
+    return end;
+}
+
+const ESCAPES: { [ch: string]: string } = { n: '\n', t: '\t', r: '\r' };
+
+function isDigit(ch: string | undefined): boolean {
+    return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+function isIdentifierStart(ch: string | undefined): boolean {
+    return ch !== undefined && /[A-Za-z_]/.test(ch);
+}
+
+function isIdentifierPart(ch: string | undefined): boolean {
+    return ch !== undefined && /[A-Za-z0-9_]/.test(ch);
+}
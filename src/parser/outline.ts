@@ -0,0 +1,140 @@
+import { AllayDocument, Block, Branch, ControlNode, Node, Span } from './ast';
+
+export type OutlineKind = 'if' | 'else' | 'for' | 'with' | 'block' | 'include' | 'extends' | 'shortcode';
+
+/**
+ * An entry of the document outline. `span` covers the whole region, `selectionSpan` the header.
+ */
+export interface OutlineItem {
+    kind: OutlineKind;
+    name: string;
+    detail: string;
+    span: Span;
+    selectionSpan: Span;
+    children: OutlineItem[];
+}
+
+/**
+ * A collapsible region from the start of its header to the start of the block that ends it,
+ * e.g. from `{- if -}` to `{- else -}` or from `{< note >}` to `{</ note >}`.
+ */
+export interface FoldingRegion {
+    start: number;
+    end: number;
+    kind?: 'comment';
+}
+
+// Longest header text shown in the outline
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Returns the control regions, `block` definitions, includes/extends and shortcode pairs of a document,
+ * nested like the document. `else` branches are listed inside their `if`.
+ */
+export function getOutline(document: AllayDocument): OutlineItem[] {
+    return getNodeOutline(document, document.nodes);
+}
+
+function getNodeOutline(document: AllayDocument, nodes: Node[]): OutlineItem[] {
+    const items: OutlineItem[] = [];
+    for (const node of nodes) {
+        switch (node.kind) {
+            case 'control':
+                items.push(getControlOutline(document, node));
+                break;
+            case 'shortcode': {
+                const name = node.open.name?.name ?? '';
+                items.push({
+                    kind: 'shortcode',
+                    name: name || '(shortcode)',
+                    detail: node.close ? 'shortcode' : 'shortcode (unclosed)',
+                    span: node.span,
+                    selectionSpan: node.open.name?.span ?? node.open.span,
+                    children: getNodeOutline(document, node.children),
+                });
+                break;
+            }
+            case 'block': {
+                const block = node.block;
+                if (block.kind === 'command' && (block.command.kind === 'include' || block.command.kind === 'extends')) {
+                    const target = block.command.target;
+                    items.push({
+                        kind: block.command.kind,
+                        name: target?.kind === 'string' ? target.value : getHeaderText(document, block),
+                        detail: block.command.kind,
+                        span: block.span,
+                        selectionSpan: target?.span ?? block.span,
+                        children: [],
+                    });
+                }
+                break;
+            }
+        }
+    }
+    return items;
+}
+
+function getControlOutline(document: AllayDocument, node: ControlNode): OutlineItem {
+    const [first, ...others] = node.branches;
+    const item = getBranchOutline(document, node.type, first);
+    item.span = node.span;
+    item.children.push(...others.map(branch => getBranchOutline(document, 'else', branch)));
+    return item;
+}
+
+function getBranchOutline(document: AllayDocument, kind: OutlineKind, branch: Branch): OutlineItem {
+    const header = branch.header;
+    let name = getHeaderText(document, header);
+    let detail: string = kind;
+    if (kind === 'block' && header.kind === 'expression' && header.definition?.name?.kind === 'string') {
+        name = header.definition.name.value;
+        detail = 'block';
+    }
+    return {
+        kind,
+        name: name || kind,
+        detail,
+        span: branch.span,
+        selectionSpan: header.span,
+        children: getNodeOutline(document, branch.children),
+    };
+}
+
+/**
+ * Returns the text between the delimiters of a block with whitespace collapsed, e.g. `if $post.draft`.
+ */
+function getHeaderText(document: AllayDocument, block: Block): string {
+    const text = document.text
+        .slice(block.open.end, block.close ? block.close.start : block.span.end)
+        .replace(/\s+/g, ' ')
+        .trim();
+    return text.length > MAX_NAME_LENGTH ? text.slice(0, MAX_NAME_LENGTH - 1) + '…' : text;
+}
+
+/**
+ * Returns the regions that can be folded: each branch of a control region, each shortcode pair
+ * and multi-line comments.
+ */
+export function getFoldingRegions(document: AllayDocument): FoldingRegion[] {
+    const regions: FoldingRegion[] = [];
+    const visit = (nodes: Node[]) => {
+        for (const node of nodes) {
+            if (node.kind === 'control') {
+                node.branches.forEach((branch, index) => {
+                    const next = node.branches[index + 1]?.header ?? node.end;
+                    regions.push({ start: branch.header.span.start, end: next ? next.span.start : branch.span.end });
+                    visit(branch.children);
+                });
+            } else if (node.kind === 'shortcode') {
+                if (node.close) {
+                    regions.push({ start: node.open.span.start, end: node.close.span.start });
+                }
+                visit(node.children);
+            } else if (node.block.kind === 'comment') {
+                regions.push({ start: node.block.span.start, end: node.block.span.end, kind: 'comment' });
+            }
+        }
+    };
+    visit(document.nodes);
+    return regions;
+}
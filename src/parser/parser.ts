@@ -0,0 +1,606 @@
+import {
+    AllayDocument, Argument, Block, BlockNode, Branch, Command, CommandBlock, ControlNode, ControlType,
+    Expression, ExpressionBlock, Name, Node, ParseError, ShortcodeBlock, ShortcodeNode, Span, VariableExpression
+} from './ast';
+import { Token, TokenKind, isCloseToken, tokenize } from './lexer';
+
+const CONTROL_KEYWORDS = new Set(['set', 'for', 'with', 'if', 'else', 'end', 'include', 'extends', 'get', 'param']);
+
+const BINARY_PRECEDENCE: { [operator: string]: number } = {
+    '||': 1,
+    '&&': 2,
+    '==': 3, '!=': 3,
+    '<': 4, '<=': 4, '>': 4, '>=': 4,
+    '+': 5, '-': 5,
+    '*': 6, '/': 6, '%': 6,
+};
+
+/**
+ * Parses an Allay document into blocks and a structure tree.
+ * The parser never throws: malformed input is reported through `errors` and the
+ * affected nodes are left with their missing parts undefined.
+ */
+export function parse(text: string): AllayDocument {
+    const errors: ParseError[] = [];
+    const tokens = tokenize(text, errors);
+    const blocks: Block[] = [];
+
+    let index = 0;
+    while (index < tokens.length) {
+        const token = tokens[index];
+        if (token.kind === 'text') {
+            index++;
+            continue;
+        }
+        if (token.kind === 'comment') {
+            blocks.push({
+                kind: 'comment',
+                span: { start: token.start, end: token.end },
+                open: { start: token.start, end: token.start + 2 },
+                close: token.terminated ? { start: token.end - 2, end: token.end } : undefined,
+                text: token.value.slice(2, token.terminated ? -2 : undefined),
+            });
+            index++;
+            continue;
+        }
+
+        // Collect the tokens up to and including the closing delimiter
+        let end = index + 1;
+        while (end < tokens.length && !isInnerEnd(tokens[end].kind)) {
+            end++;
+        }
+        const closeToken = end < tokens.length && isCloseToken(tokens[end].kind) ? tokens[end] : undefined;
+        const inner = tokens.slice(index + 1, end);
+        const blockEnd = closeToken ? closeToken.end : (end < tokens.length ? tokens[end].start : text.length);
+
+        blocks.push(parseBlock(token, inner, closeToken, blockEnd, errors));
+        index = closeToken ? end + 1 : end;
+    }
+
+    const nodes = buildTree(blocks, errors);
+    return { text, tokens, blocks, nodes, errors };
+}
+
+function isInnerEnd(kind: TokenKind): boolean {
+    return isCloseToken(kind) || kind === 'text' || kind === 'comment' || kind.endsWith('Open');
+}
+
+function parseBlock(openToken: Token, inner: Token[], closeToken: Token | undefined, blockEnd: number, errors: ParseError[]): Block {
+    const open: Span = { start: openToken.start, end: openToken.end };
+    const close: Span | undefined = closeToken ? { start: closeToken.start, end: closeToken.end } : undefined;
+    const span: Span = { start: openToken.start, end: blockEnd };
+    // The content of an unterminated block is usually half-typed; only report the missing delimiter
+    const stream = new TokenStream(inner, close ? errors : [], close ? close.start : blockEnd);
+
+    let block: Block;
+    switch (openToken.kind) {
+        case 'commandOpen':
+            block = { kind: 'command', span, open, close, command: parseCommand(stream, open.end) };
+            if (!close) {
+                errors.push({ message: 'Unterminated command block, expected `-}`.', span: open });
+            }
+            break;
+        case 'expressionOpen':
+            block = parseExpressionBlock(stream, span, open, close);
+            if (!close) {
+                errors.push({ message: 'Unterminated expression block, expected `:}`.', span: open });
+            }
+            break;
+        default: {
+            const closing = openToken.kind === 'shortcodeCloseOpen';
+            const name = stream.match('identifier');
+            if (!name) {
+                stream.error(closing ? 'Expected a shortcode name after `{</`.' : 'Expected a shortcode name after `{<`.');
+            }
+            const args = closing ? [] : parseArguments(stream);
+            const selfClosing = closeToken?.kind === 'shortcodeSelfClose';
+            block = { kind: 'shortcode', span, open, close, closing, selfClosing, name: name && toName(name), args };
+            if (!close) {
+                errors.push({ message: 'Unterminated shortcode, expected `>}`.', span: open });
+            } else if (closing && selfClosing) {
+                errors.push({ message: 'A closing shortcode tag cannot be self-closing.', span: close });
+            }
+        }
+    }
+
+    stream.expectEnd();
+    return block;
+}
+
+function parseCommand(stream: TokenStream, contentStart: number): Command {
+    const first = stream.peek();
+    const start = first ? first.start : contentStart;
+
+    if (!first) {
+        stream.error('Expected a command.');
+        return { kind: 'expression', span: { start, end: start } };
+    }
+
+    // `param` is both a command and the built-in holding shortcode arguments (`param.title`)
+    const isKeyword = first.kind === 'identifier' && CONTROL_KEYWORDS.has(first.value)
+        && !(first.value === 'param' && stream.peek(1)?.kind === 'dot');
+    if (!isKeyword) {
+        const value = parseExpression(stream);
+        return { kind: 'expression', value, span: stream.spanFrom(start) };
+    }
+
+    stream.next();
+    const keyword = toName(first);
+
+    switch (first.value) {
+        case 'set': {
+            const targets = parseVariableList(stream, 'set');
+            let value: Expression | undefined;
+            if (stream.match('equals')) {
+                value = parseExpression(stream);
+                if (!value) {
+                    stream.error('Expected a value after `=`.');
+                }
+            } else {
+                stream.error('Expected `=` in `set` command.');
+            }
+            return { kind: 'set', keyword, targets, value, span: stream.spanFrom(start) };
+        }
+        case 'for': {
+            const variables = parseVariableList(stream, 'for');
+            let iterable: Expression | undefined;
+            if (stream.match('colon')) {
+                iterable = parseExpression(stream);
+                if (!iterable) {
+                    stream.error('Expected a list to iterate over after `:`.');
+                }
+            } else {
+                stream.error('Expected `:` in `for` command.');
+            }
+            return { kind: 'for', keyword, variables, iterable, span: stream.spanFrom(start) };
+        }
+        case 'with':
+        case 'if': {
+            const value = parseExpression(stream);
+            if (!value) {
+                stream.error(`Expected an expression after \`${first.value}\`.`);
+            }
+            return first.value === 'with'
+                ? { kind: 'with', keyword, value, span: stream.spanFrom(start) }
+                : { kind: 'if', keyword, condition: value, span: stream.spanFrom(start) };
+        }
+        case 'else': {
+            const ifToken = stream.peek();
+            if (ifToken && ifToken.kind === 'identifier' && ifToken.value === 'if') {
+                stream.next();
+                const condition = parseExpression(stream);
+                if (!condition) {
+                    stream.error('Expected a condition after `else if`.');
+                }
+                return { kind: 'else', keyword, ifKeyword: toName(ifToken), condition, span: stream.spanFrom(start) };
+            }
+            return { kind: 'else', keyword, span: stream.spanFrom(start) };
+        }
+        case 'end':
+            return { kind: 'end', keyword, span: stream.spanFrom(start) };
+        case 'include':
+        case 'extends': {
+            const target = parseExpression(stream);
+            if (!target) {
+                stream.error(`Expected a template name after \`${first.value}\`.`);
+            }
+            const args = first.value === 'include' ? parseArguments(stream) : [];
+            return { kind: first.value, keyword, target, args, span: stream.spanFrom(start) };
+        }
+        default: {
+            const kind = first.value as 'get' | 'param';
+            return { kind, keyword, args: parseArguments(stream), span: stream.spanFrom(start) };
+        }
+    }
+}
+
+function parseVariableList(stream: TokenStream, keyword: string): VariableExpression[] {
+    const variables: VariableExpression[] = [];
+    do {
+        const variable = stream.match('variable');
+        if (!variable) {
+            stream.error(`Expected a \`$variable\` in \`${keyword}\` command.`);
+            break;
+        }
+        variables.push({ kind: 'variable', name: variable.value, span: { start: variable.start, end: variable.end } });
+    } while (stream.match('comma'));
+    return variables;
+}
+
+function parseExpressionBlock(stream: TokenStream, span: Span, open: Span, close: Span | undefined): ExpressionBlock {
+    const first = stream.peek();
+    if (first && first.kind === 'identifier' && first.value === 'block') {
+        stream.next();
+        const name = parseExpression(stream);
+        if (!name) {
+            stream.error('Expected a block name after `block`.');
+        }
+        return { kind: 'expression', span, open, close, definition: { keyword: toName(first), name } };
+    }
+
+    const value = parseExpression(stream);
+    if (!value && stream.atEnd()) {
+        stream.error('Expected an expression.');
+    }
+    return { kind: 'expression', span, open, close, value };
+}
+
+/**
+ * Parses a whitespace or comma separated list of `value` and `name=value` arguments.
+ */
+function parseArguments(stream: TokenStream): Argument[] {
+    const args: Argument[] = [];
+    while (!stream.atEnd()) {
+        const token = stream.peek()!;
+        const start = token.start;
+        let name: Name | undefined;
+        if (token.kind === 'identifier' && stream.peek(1)?.kind === 'equals') {
+            name = toName(token);
+            stream.next();
+            stream.next();
+        }
+        const value = parseExpression(stream);
+        if (!value) {
+            if (name) {
+                stream.error(`Expected a value for \`${name.name}\`.`);
+                args.push({ name, span: stream.spanFrom(start) });
+                continue;
+            }
+            break;
+        }
+        args.push({ name, value, span: stream.spanFrom(start) });
+        stream.match('comma');
+    }
+    return args;
+}
+
+function parseExpression(stream: TokenStream, minPrecedence = 1): Expression | undefined {
+    let left = parseUnary(stream);
+    if (!left) {
+        return undefined;
+    }
+
+    for (;;) {
+        const token = stream.peek();
+        const precedence = token && token.kind === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+        if (!token || precedence === undefined || precedence < minPrecedence) {
+            return left;
+        }
+        stream.next();
+        const right = parseExpression(stream, precedence + 1);
+        if (!right) {
+            stream.error(`Expected an expression after \`${token.value}\`.`);
+        }
+        left = { kind: 'binary', operator: token.value, left, right, span: { start: left.span.start, end: right ? right.span.end : token.end } };
+    }
+}
+
+function parseUnary(stream: TokenStream): Expression | undefined {
+    const token = stream.peek();
+    if (token && token.kind === 'operator' && (token.value === '!' || token.value === '-')) {
+        stream.next();
+        const operand = parseUnary(stream);
+        if (!operand) {
+            stream.error(`Expected an expression after \`${token.value}\`.`);
+        }
+        return { kind: 'unary', operator: token.value, operand, span: { start: token.start, end: operand ? operand.span.end : token.end } };
+    }
+    return parsePostfix(stream);
+}
+
+function parsePostfix(stream: TokenStream): Expression | undefined {
+    let expression = parsePrimary(stream);
+    if (!expression) {
+        return undefined;
+    }
+    let dot: Token | undefined;
+    while ((dot = stream.match('dot'))) {
+        expression = parseMember(stream, expression, dot);
+    }
+    return expression;
+}
+
+function parseMember(stream: TokenStream, object: Expression | undefined, dot: Token): Expression {
+    const property = stream.match('identifier') ?? stream.match('number');
+    const start = object ? object.span.start : dot.start;
+    return {
+        kind: 'member',
+        object,
+        dot: { start: dot.start, end: dot.end },
+        property: property && toName(property),
+        span: { start, end: property ? property.end : dot.end },
+    };
+}
+
+function parsePrimary(stream: TokenStream): Expression | undefined {
+    const token = stream.peek();
+    if (!token) {
+        return undefined;
+    }
+    const span = { start: token.start, end: token.end };
+
+    switch (token.kind) {
+        case 'string':
+            stream.next();
+            return { kind: 'string', value: token.value, terminated: token.terminated !== false, span };
+        case 'number':
+            stream.next();
+            return { kind: 'number', value: Number(token.value), span };
+        case 'boolean':
+            stream.next();
+            return { kind: 'boolean', value: token.value === '#t', span };
+        case 'variable':
+            stream.next();
+            return { kind: 'variable', name: token.value, span };
+        case 'identifier':
+            if (CONTROL_KEYWORDS.has(token.value) && token.value !== 'param') {
+                return undefined;
+            }
+            stream.next();
+            return token.value === 'null'
+                ? { kind: 'null', span }
+                : { kind: 'identifier', name: token.value, span };
+        case 'dot':
+            // A leading `.field` reads from the current scope
+            stream.next();
+            return parseMember(stream, undefined, token);
+        case 'lparen': {
+            stream.next();
+            const expression = parseExpression(stream);
+            const close = stream.match('rparen');
+            if (!close) {
+                stream.error('Expected `)`.');
+            }
+            return { kind: 'group', expression, span: stream.spanFrom(token.start) };
+        }
+    }
+    return undefined;
+}
+
+function toName(token: Token): Name {
+    return { name: token.value, span: { start: token.start, end: token.end } };
+}
+
+/**
+ * Cursor over the tokens inside a single block.
+ */
+class TokenStream {
+    private index = 0;
+
+    constructor(
+        private readonly tokens: Token[],
+        private readonly errors: ParseError[],
+        private readonly endOffset: number
+    ) { }
+
+    peek(offset = 0): Token | undefined {
+        return this.tokens[this.index + offset];
+    }
+
+    next(): Token | undefined {
+        return this.tokens[this.index++];
+    }
+
+    match(kind: TokenKind): Token | undefined {
+        const token = this.peek();
+        if (token && token.kind === kind) {
+            this.index++;
+            return token;
+        }
+        return undefined;
+    }
+
+    atEnd(): boolean {
+        return this.index >= this.tokens.length;
+    }
+
+    /** Span from `start` to the end of the last consumed token. */
+    spanFrom(start: number): Span {
+        const last = this.tokens[this.index - 1];
+        return { start, end: last && last.end > start ? last.end : start };
+    }
+
+    /** Reports an error at the current token, or at the end of the block. */
+    error(message: string): void {
+        const token = this.peek();
+        const span = token ? { start: token.start, end: token.end } : { start: this.endOffset, end: this.endOffset };
+        this.errors.push({ message, span });
+    }
+
+    /** Reports any tokens left over after the block content was parsed. */
+    expectEnd(): void {
+        if (this.atEnd()) {
+            return;
+        }
+        const first = this.tokens[this.index];
+        const last = this.tokens[this.tokens.length - 1];
+        if (first.kind !== 'unknown') {
+            this.errors.push({ message: `Unexpected \`${first.value}\`.`, span: { start: first.start, end: last.end } });
+        }
+        this.index = this.tokens.length;
+    }
+}
+
+// --- Structure tree ---
+
+interface ControlFrame {
+    kind: 'control';
+    node: ControlNode;
+    children: Node[];
+}
+
+interface ShortcodeFrame {
+    kind: 'shortcode';
+    node: ShortcodeNode;
+    children: Node[];
+}
+
+type Frame = ControlFrame | ShortcodeFrame;
+
+const OPENING_COMMANDS: { [kind: string]: ControlType } = { if: 'if', for: 'for', with: 'with' };
+
+/**
+ * Nests blocks into control regions and shortcode pairs and reports unbalanced structure.
+ * Unbalanced input is recovered from: an `end` closes the innermost open region, a closing
+ * shortcode tag closes the nearest opening tag with the same name, and an opening tag that is
+ * never closed is kept as a standalone call.
+ */
+function buildTree(blocks: Block[], errors: ParseError[]): Node[] {
+    const root: Node[] = [];
+    const stack: Frame[] = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+    const finish = (frame: Frame, endOffset: number) => {
+        if (frame.kind === 'control' && !frame.node.end) {
+            const header = frame.node.branches[0].header;
+            const keyword = frame.node.type === 'block' ? 'block' : frame.node.type;
+            errors.push({
+                message: `\`${keyword}\` is never closed, expected \`{- end -}\`.`,
+                span: header.span,
+                code: 'unclosed-control',
+            });
+        } else if (frame.kind === 'shortcode' && !frame.node.close) {
+            const name = frame.node.open.name!.name;
+            errors.push({
+                message: `Shortcode \`${name}\` is never closed, expected \`{</ ${name} >}\` or the self-closing form \`{< ${name} />}\`.`,
+                span: frame.node.open.span,
+                code: 'unclosed-shortcode',
+            });
+        }
+
+        if (frame.kind === 'control') {
+            frame.node.span.end = endOffset;
+            const branch = frame.node.branches[frame.node.branches.length - 1];
+            branch.span.end = endOffset;
+            current().push(frame.node);
+        } else {
+            // An opening tag that was never closed is a standalone call: hoist its content
+            frame.node.span.end = frame.node.open.span.end;
+            current().push(frame.node, ...frame.children.splice(0));
+        }
+    };
+
+    const lastEnd = (frame: Frame) => {
+        const children = frame.children;
+        if (children.length > 0) {
+            return children[children.length - 1].span.end;
+        }
+        return frame.kind === 'control'
+            ? frame.node.branches[frame.node.branches.length - 1].header.span.end
+            : frame.node.open.span.end;
+    };
+
+    for (const block of blocks) {
+        const openType = getOpenType(block);
+        if (openType) {
+            const header = block as CommandBlock | ExpressionBlock;
+            const branch: Branch = { header, children: [], span: { start: block.span.start, end: block.span.end } };
+            const node: ControlNode = { kind: 'control', type: openType, branches: [branch], span: { start: block.span.start, end: block.span.end } };
+            stack.push({ kind: 'control', node, children: branch.children });
+            continue;
+        }
+
+        if (block.kind === 'command' && block.command.kind === 'else') {
+            const controlIndex = findLastIndex(stack, frame => frame.kind === 'control');
+            const top = stack[controlIndex];
+            const isOpenIf = top && top.kind === 'control' && top.node.type === 'if';
+            const afterElse = isOpenIf && isPlainElse(top.node.branches[top.node.branches.length - 1].header);
+            if (isOpenIf && !afterElse) {
+                while (stack.length - 1 > controlIndex) {
+                    const frame = stack.pop()!;
+                    finish(frame, lastEnd(frame));
+                }
+                const previous = top.node.branches[top.node.branches.length - 1];
+                previous.span.end = block.span.start;
+                const branch: Branch = { header: block, children: [], span: { start: block.span.start, end: block.span.end } };
+                top.node.branches.push(branch);
+                top.children = branch.children;
+                continue;
+            }
+            if (afterElse) {
+                errors.push({ message: `\`${describeElse(block.command)}\` cannot follow \`else\`.`, span: block.span, code: 'misplaced-else' });
+            } else {
+                errors.push({ message: `\`${describeElse(block.command)}\` without a matching \`if\`.`, span: block.span, code: 'misplaced-else' });
+            }
+        }
+
+        if (block.kind === 'command' && block.command.kind === 'end') {
+            const controlIndex = findLastIndex(stack, frame => frame.kind === 'control');
+            if (controlIndex !== -1) {
+                while (stack.length - 1 > controlIndex) {
+                    const frame = stack.pop()!;
+                    finish(frame, lastEnd(frame));
+                }
+                const frame = stack.pop() as ControlFrame;
+                frame.node.end = block;
+                finish(frame, block.span.end);
+                continue;
+            }
+            errors.push({ message: '`end` has nothing to close.', span: block.span, code: 'unmatched-end' });
+        }
+
+        if (block.kind === 'shortcode' && !block.closing && !block.selfClosing && block.name) {
+            const node: ShortcodeNode = { kind: 'shortcode', open: block, children: [], span: { start: block.span.start, end: block.span.end } };
+            stack.push({ kind: 'shortcode', node, children: node.children });
+            continue;
+        }
+
+        if (block.kind === 'shortcode' && block.closing && block.name) {
+            const name = block.name.name;
+            const openIndex = findLastIndex(stack, frame => frame.kind === 'shortcode' && frame.node.open.name?.name === name);
+            if (openIndex !== -1) {
+                while (stack.length - 1 > openIndex) {
+                    const frame = stack.pop()!;
+                    finish(frame, lastEnd(frame));
+                }
+                const frame = stack.pop() as ShortcodeFrame;
+                frame.node.close = block;
+                frame.node.span.end = block.span.end;
+                current().push(frame.node);
+                continue;
+            }
+            errors.push({
+                message: `\`{</ ${name} >}\` has no matching \`{< ${name} >}\`.`,
+                span: block.span,
+                code: 'unmatched-shortcode-close',
+            });
+        }
+
+        const leaf: BlockNode = { kind: 'block', block, span: block.span };
+        current().push(leaf);
+    }
+
+    while (stack.length > 0) {
+        const frame = stack.pop()!;
+        finish(frame, lastEnd(frame));
+    }
+
+    return root;
+}
+
+function isPlainElse(header: CommandBlock | ExpressionBlock): boolean {
+    return header.kind === 'command' && header.command.kind === 'else' && !header.command.ifKeyword;
+}
+
+function describeElse(command: Command): string {
+    return command.kind === 'else' && command.ifKeyword ? 'else if' : 'else';
+}
+
+function getOpenType(block: Block): ControlType | undefined {
+    if (block.kind === 'command') {
+        return OPENING_COMMANDS[block.command.kind];
+    }
+    if (block.kind === 'expression' && block.definition) {
+        return 'block';
+    }
+    return undefined;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
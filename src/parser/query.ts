@@ -0,0 +1,161 @@
+import { AllayDocument, Argument, Block, Command, Expression, MemberExpression, Node, Span } from './ast';
+
+/**
+ * Returns the block whose content contains `offset`.
+ * The position right before the closing delimiter counts as inside, as does the end of
+ * an unterminated block, so half-typed input still resolves to its block.
+ */
+export function findBlockAt(document: AllayDocument, offset: number): Block | undefined {
+    for (const block of document.blocks) {
+        if (block.open.start >= offset) {
+            break;
+        }
+        const contentEnd = block.close ? block.close.start : block.span.end;
+        if (offset >= block.open.end && offset <= contentEnd) {
+            return block;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns the top-level expressions of a block, including argument values.
+ */
+export function getBlockExpressions(block: Block): Expression[] {
+    switch (block.kind) {
+        case 'command':
+            return getCommandExpressions(block.command);
+        case 'expression':
+            return compact([block.value, block.definition?.name]);
+        case 'shortcode':
+            return getArgumentValues(block.args);
+        default:
+            return [];
+    }
+}
+
+export function getCommandExpressions(command: Command): Expression[] {
+    switch (command.kind) {
+        case 'set':
+            return compact([...command.targets, command.value]);
+        case 'for':
+            return compact([...command.variables, command.iterable]);
+        case 'with':
+        case 'expression':
+            return compact([command.value]);
+        case 'if':
+        case 'else':
+            return compact([command.condition]);
+        case 'include':
+        case 'extends':
+            return compact([command.target, ...getArgumentValues(command.args)]);
+        case 'get':
+        case 'param':
+            return getArgumentValues(command.args);
+        default:
+            return [];
+    }
+}
+
+function getArgumentValues(args: Argument[]): Expression[] {
+    return compact(args.map(arg => arg.value));
+}
+
+/**
+ * Calls `visit` for an expression and each of its sub-expressions, outermost first.
+ */
+export function walkExpression(expression: Expression, visit: (expression: Expression) => void): void {
+    visit(expression);
+    switch (expression.kind) {
+        case 'member':
+            if (expression.object) { walkExpression(expression.object, visit); }
+            break;
+        case 'unary':
+            if (expression.operand) { walkExpression(expression.operand, visit); }
+            break;
+        case 'binary':
+            walkExpression(expression.left, visit);
+            if (expression.right) { walkExpression(expression.right, visit); }
+            break;
+        case 'group':
+            if (expression.expression) { walkExpression(expression.expression, visit); }
+            break;
+    }
+}
+
+/**
+ * Calls `visit` for every node of the structure tree, parents before children.
+ */
+export function walkNodes(nodes: Node[], visit: (node: Node) => void): void {
+    for (const node of nodes) {
+        visit(node);
+        if (node.kind === 'control') {
+            node.branches.forEach(branch => walkNodes(branch.children, visit));
+        } else if (node.kind === 'shortcode') {
+            walkNodes(node.children, visit);
+        }
+    }
+}
+
+/**
+ * Finds the member access being typed at `offset`, i.e. `offset` is right after the dot
+ * or inside the property name.
+ */
+export function findMemberAt(block: Block, offset: number): MemberExpression | undefined {
+    let found: MemberExpression | undefined;
+    for (const root of getBlockExpressions(block)) {
+        walkExpression(root, expression => {
+            if (expression.kind === 'member' && expression.dot.end <= offset && offset <= expression.span.end) {
+                found = expression;
+            }
+        });
+    }
+    return found;
+}
+
+/**
+ * Returns the innermost expression whose span contains `offset`.
+ */
+export function findExpressionAt(block: Block, offset: number): Expression | undefined {
+    let found: Expression | undefined;
+    for (const root of getBlockExpressions(block)) {
+        walkExpression(root, expression => {
+            if (contains(expression.span, offset)) {
+                found = expression;
+            }
+        });
+    }
+    return found;
+}
+
+/**
+ * Converts a chain of field accesses into a dotted path, e.g. `site.Params.author` or `$post.tags`.
+ * A leading `.field` yields a path starting with an empty segment. Returns undefined for anything
+ * that is not a plain access chain.
+ */
+export function getAccessPath(expression: Expression | undefined): string | undefined {
+    if (!expression) {
+        return '';
+    }
+    switch (expression.kind) {
+        case 'variable':
+        case 'identifier':
+            return expression.name;
+        case 'member': {
+            const object = getAccessPath(expression.object);
+            if (object === undefined || !expression.property) {
+                return undefined;
+            }
+            return `${object}.${expression.property.name}`;
+        }
+    }
+    return undefined;
+}
+
+export function contains(span: Span, offset: number): boolean {
+    return span.start <= offset && offset <= span.end;
+}
+
+function compact<T>(items: (T | undefined)[]): T[] {
+    return items.filter((item): item is T => item !== undefined);
+}
@@ -0,0 +1,153 @@
+import { AllayDocument, Node, Span, VariableExpression } from './ast';
+import { getBlockExpressions, walkExpression } from './query';
+
+/**
+ * A variable together with the part of the document where it can be used.
+ */
+export interface ScopedVariable {
+    name: string;
+    /** The `set` target or `for` variable; undefined for implicit variables such as `$index`. */
+    binding?: VariableExpression;
+    /** From the end of the binding command to the end of the enclosing region. */
+    scope: Span;
+}
+
+/** Variables every `for` body defines without a binding. */
+export const IMPLICIT_LOOP_VARIABLES = ['$index'];
+
+/**
+ * Returns every variable of a document with its scope, in document order.
+ * `for` variables (and `$index`) are visible in the loop body; `set` binds from the end of the
+ * command to the end of the `if`/`else` branch, loop, `with` or `block` containing it.
+ */
+export function getScopedVariables(document: AllayDocument): ScopedVariable[] {
+    const variables: ScopedVariable[] = [];
+    collectVariables(document.nodes, document.text.length, variables);
+    return variables;
+}
+
+/**
+ * Returns the variables visible at `offset`. When a name is bound more than once, only the
+ * innermost (latest) binding is returned.
+ */
+export function getVisibleVariables(document: AllayDocument, offset: number): ScopedVariable[] {
+    const visible = new Map<string, ScopedVariable>();
+    for (const variable of getScopedVariables(document)) {
+        if (variable.scope.start <= offset && offset <= variable.scope.end) {
+            visible.set(variable.name, variable);
+        }
+    }
+    return [...visible.values()];
+}
+
+/**
+ * Returns the variable a use refers to, or undefined when no binding is visible at the use.
+ */
+export function resolveVariable(document: AllayDocument, name: string, offset: number): ScopedVariable | undefined {
+    return getVisibleVariables(document, offset).find(variable => variable.name === name);
+}
+
+/**
+ * Finds uses of variables that are not in scope and bindings that are never used.
+ */
+export function analyzeVariables(document: AllayDocument): { undefinedUses: VariableExpression[]; unusedVariables: ScopedVariable[] } {
+    const variables = getScopedVariables(document);
+    const bindings = new Set(variables.map(variable => variable.binding));
+    const used = new Set<ScopedVariable>();
+    const undefinedUses: VariableExpression[] = [];
+
+    for (const block of document.blocks) {
+        for (const root of getBlockExpressions(block)) {
+            walkExpression(root, expression => {
+                if (expression.kind !== 'variable' || bindings.has(expression)) {
+                    return;
+                }
+                const resolved = resolveIn(variables, expression.name, expression.span.start);
+                if (resolved) {
+                    used.add(resolved);
+                } else {
+                    undefinedUses.push(expression);
+                }
+            });
+        }
+    }
+
+    const unusedVariables = variables.filter(variable => variable.binding && !used.has(variable));
+    return { undefinedUses, unusedVariables };
+}
+
+/**
+ * Returns the variable that the occurrence of `name` starting at `offset` binds or refers to.
+ */
+export function findScopedVariable(document: AllayDocument, name: string, offset: number): ScopedVariable | undefined {
+    const variables = getScopedVariables(document);
+    return variables.find(variable => variable.name === name && variable.binding?.span.start === offset) ?? resolveIn(variables, name, offset);
+}
+
+/**
+ * Returns the binding of a variable and the uses that refer to it, leaving out other variables
+ * of the same name, e.g. a loop variable reused by another loop.
+ */
+export function getScopedOccurrences(document: AllayDocument, target: ScopedVariable): VariableExpression[] {
+    const variables = getScopedVariables(document);
+    const occurrences: VariableExpression[] = [];
+    for (const block of document.blocks) {
+        for (const root of getBlockExpressions(block)) {
+            walkExpression(root, expression => {
+                if (expression.kind !== 'variable' || expression.name !== target.name) {
+                    return;
+                }
+                const variable = variables.find(candidate => candidate.binding === expression) ?? resolveIn(variables, expression.name, expression.span.start);
+                if (variable?.binding === target.binding && variable?.scope.start === target.scope.start) {
+                    occurrences.push(expression);
+                }
+            });
+        }
+    }
+    return occurrences;
+}
+
+/**
+ * Returns the innermost variable named `name` in scope at `offset`.
+ */
+function resolveIn(variables: ScopedVariable[], name: string, offset: number): ScopedVariable | undefined {
+    let resolved: ScopedVariable | undefined;
+    for (const variable of variables) {
+        if (variable.name === name && variable.scope.start <= offset && offset <= variable.scope.end) {
+            resolved = variable;
+        }
+    }
+    return resolved;
+}
+
+function collectVariables(nodes: Node[], scopeEnd: number, variables: ScopedVariable[]): void {
+    for (const node of nodes) {
+        switch (node.kind) {
+            case 'block': {
+                const block = node.block;
+                if (block.kind === 'command' && block.command.kind === 'set') {
+                    const scope = { start: block.span.end, end: scopeEnd };
+                    block.command.targets.forEach(target => variables.push({ name: target.name, binding: target, scope }));
+                }
+                break;
+            }
+            case 'control':
+                node.branches.forEach((branch, index) => {
+                    // The body ends where the next branch or the `end` begins
+                    const end = index === node.branches.length - 1 && node.end ? node.end.span.start : branch.span.end;
+                    const header = branch.header;
+                    if (node.type === 'for' && header.kind === 'command' && header.command.kind === 'for') {
+                        const scope = { start: header.span.end, end };
+                        header.command.variables.forEach(variable => variables.push({ name: variable.name, binding: variable, scope }));
+                        IMPLICIT_LOOP_VARIABLES.forEach(name => variables.push({ name, scope }));
+                    }
+                    collectVariables(branch.children, end, variables);
+                });
+                break;
+            case 'shortcode':
+                // Shortcode content is rendered in place, so it shares the enclosing scope
+                collectVariables(node.children, scopeEnd, variables);
+                break;
+        }
+    }
+}
@@ -0,0 +1,148 @@
+import { AllayDocument, Argument, Block, Span } from './ast';
+import { TokenKind } from './lexer';
+import { getBlockExpressions, walkExpression } from './query';
+import { IMPLICIT_LOOP_VARIABLES, analyzeVariables, resolveVariable } from './scopes';
+import { BUILTIN_VARIABLES, getVariableBindings } from './symbols';
+
+/** Token types, in the order of the legend. */
+export const SEMANTIC_TOKEN_TYPES = ['keyword', 'variable', 'parameter', 'property', 'function', 'comment', 'string', 'number', 'operator'] as const;
+/**
+ * Token modifiers, in the order of the legend. `undefined` marks a variable no binding is in
+ * scope for, `unknown` a shortcode without a file in `shortcodes/`.
+ */
+export const SEMANTIC_TOKEN_MODIFIERS = ['declaration', 'readonly', 'defaultLibrary', 'undefined', 'unknown'] as const;
+
+export type SemanticTokenType = typeof SEMANTIC_TOKEN_TYPES[number];
+export type SemanticTokenModifier = typeof SEMANTIC_TOKEN_MODIFIERS[number];
+
+export interface SemanticToken {
+    span: Span;
+    type: SemanticTokenType;
+    modifiers: SemanticTokenModifier[];
+}
+
+/**
+ * Classifies the names and literals inside Allay blocks, in document order. Text between blocks
+ * and the delimiters are left to the grammar. `isKnownShortcode` decides which shortcode names
+ * are marked `unknown`; without it none are.
+ */
+export function getSemanticTokens(document: AllayDocument, isKnownShortcode?: (name: string) => boolean): SemanticToken[] {
+    const tokens: SemanticToken[] = [];
+    const push = (span: Span, type: SemanticTokenType, ...modifiers: SemanticTokenModifier[]) => tokens.push({ span, type, modifiers });
+
+    const bindings = new Set(getVariableBindings(document));
+    const undefinedUses = new Set(analyzeVariables(document).undefinedUses);
+
+    for (const block of document.blocks) {
+        if (block.kind === 'comment') {
+            push(block.span, 'comment');
+            continue;
+        }
+        pushNames(block, isKnownShortcode, push);
+
+        for (const root of getBlockExpressions(block)) {
+            walkExpression(root, expression => {
+                switch (expression.kind) {
+                    case 'variable':
+                        if (bindings.has(expression)) {
+                            push(expression.span, 'variable', 'declaration');
+                        } else if (undefinedUses.has(expression)) {
+                            push(expression.span, 'variable', 'undefined');
+                        } else if (IMPLICIT_LOOP_VARIABLES.includes(expression.name) && !resolveVariable(document, expression.name, expression.span.start)?.binding) {
+                            push(expression.span, 'variable', 'readonly', 'defaultLibrary');
+                        } else {
+                            push(expression.span, 'variable');
+                        }
+                        break;
+                    case 'identifier':
+                        if (BUILTIN_VARIABLES.includes(expression.name)) {
+                            push(expression.span, 'variable', 'readonly', 'defaultLibrary');
+                        } else if (isParameterDeclaration(block, expression.span)) {
+                            push(expression.span, 'parameter', 'declaration');
+                        }
+                        break;
+                    case 'member':
+                        if (expression.property) {
+                            push(expression.property.span, 'property');
+                        }
+                        break;
+                    case 'string':
+                        push(expression.span, 'string');
+                        break;
+                    case 'number':
+                        push(expression.span, 'number');
+                        break;
+                    case 'boolean':
+                    case 'null':
+                        push(expression.span, 'keyword');
+                        break;
+                }
+            });
+        }
+    }
+
+    // Operators are not kept in the tree, so take them from the token stream; `=` is only an
+    // operator in commands, in shortcodes it separates an argument name from its value
+    let mode: TokenKind | undefined;
+    for (const token of document.tokens) {
+        if (token.kind === 'commandOpen' || token.kind === 'expressionOpen' || token.kind === 'shortcodeOpen' || token.kind === 'shortcodeCloseOpen') {
+            mode = token.kind;
+        } else if (token.kind === 'operator' || token.kind === 'colon' || (token.kind === 'equals' && mode === 'commandOpen')) {
+            push({ start: token.start, end: token.end }, 'operator');
+        }
+    }
+    return tokens.sort((a, b) => a.span.start - b.span.start);
+}
+
+/**
+ * Pushes the keywords, shortcode names and argument names of a block.
+ */
+function pushNames(
+    block: Block,
+    isKnownShortcode: ((name: string) => boolean) | undefined,
+    push: (span: Span, type: SemanticTokenType, ...modifiers: SemanticTokenModifier[]) => void
+): void {
+    const pushArguments = (args: Argument[], ...modifiers: SemanticTokenModifier[]) => args.forEach(arg => {
+        if (arg.name) {
+            push(arg.name.span, 'parameter', ...modifiers);
+        }
+    });
+
+    switch (block.kind) {
+        case 'command': {
+            const command = block.command;
+            if (command.keyword) {
+                push(command.keyword.span, 'keyword');
+            }
+            if (command.kind === 'else' && command.ifKeyword) {
+                push(command.ifKeyword.span, 'keyword');
+            }
+            if (command.kind === 'param') {
+                pushArguments(command.args, 'declaration');
+            } else if (command.kind === 'include' || command.kind === 'extends') {
+                pushArguments(command.args);
+            }
+            break;
+        }
+        case 'expression':
+            if (block.definition) {
+                push(block.definition.keyword.span, 'keyword');
+            }
+            break;
+        case 'shortcode':
+            if (block.name) {
+                const known = !isKnownShortcode || isKnownShortcode(block.name.name);
+                push(block.name.span, 'function', ...(known ? [] : ['unknown' as const]));
+            }
+            pushArguments(block.args);
+            break;
+    }
+}
+
+/**
+ * True for the bare name in `{- param caption -}`.
+ */
+function isParameterDeclaration(block: Block, span: Span): boolean {
+    return block.kind === 'command' && block.command.kind === 'param'
+        && block.command.args.some(arg => !arg.name && arg.value?.kind === 'identifier' && arg.value.span.start === span.start);
+}
@@ -0,0 +1,157 @@
+import { AllayDocument, Argument, Block, Expression, Node, ShortcodeBlock, Span } from './ast';
+import { contains, getBlockExpressions, walkExpression } from './query';
+
+/**
+ * A parameter a shortcode file reads.
+ */
+export interface ShortcodeParameter {
+    name: string;
+    /** Where the parameter is first declared or read in the shortcode file. */
+    span: Span;
+    /** Source text of the default from `{- param name = default -}`. */
+    defaultValue?: string;
+    /** True when the parameter has no default and is read outside of any `if`/`for`/`with`. */
+    required: boolean;
+}
+
+export interface ShortcodeSignature {
+    /** In order of first use; positional arguments bind to them in this order. */
+    parameters: ShortcodeParameter[];
+    /** True when the file uses `param` as a whole, so any argument may be read. */
+    dynamic: boolean;
+}
+
+/**
+ * Result of matching the arguments of a shortcode call against its signature.
+ */
+export interface ArgumentMatch {
+    /** Named arguments the shortcode does not read. */
+    unknown: Argument[];
+    /** Positional arguments beyond the parameters the shortcode reads. */
+    extra: Argument[];
+    /** Required parameters that are not passed. */
+    missing: ShortcodeParameter[];
+}
+
+/**
+ * Discovers the parameters a shortcode file reads through `param.name`, `{- get "name" -}` and
+ * `{- param name = default -}`.
+ */
+export function getShortcodeSignature(document: AllayDocument): ShortcodeSignature {
+    const parameters = new Map<string, ShortcodeParameter>();
+    let dynamic = false;
+
+    const use = (name: string, span: Span, conditional: boolean, defaultValue?: string) => {
+        let parameter = parameters.get(name);
+        if (!parameter) {
+            parameter = { name, span, required: false };
+            parameters.set(name, parameter);
+        }
+        if (defaultValue !== undefined && parameter.defaultValue === undefined) {
+            parameter.defaultValue = defaultValue;
+        }
+        if (!conditional) {
+            parameter.required = true;
+        }
+    };
+
+    const visitBlock = (block: Block, conditional: boolean) => {
+        if (block.kind === 'command' && (block.command.kind === 'get' || block.command.kind === 'param')) {
+            const first = block.command.args[0];
+            if (first?.name) {
+                const value = first.value && document.text.slice(first.value.span.start, first.value.span.end);
+                use(first.name.name, first.name.span, conditional, value);
+            } else if (first?.value?.kind === 'string' || first?.value?.kind === 'identifier') {
+                use(first.value.kind === 'string' ? first.value.value : first.value.name, first.value.span, conditional);
+            } else if (first?.value) {
+                dynamic = true;
+            }
+            return;
+        }
+        for (const root of getBlockExpressions(block)) {
+            const objects = new Set<Expression>();
+            walkExpression(root, expression => {
+                if (expression.kind === 'member') {
+                    if (expression.object?.kind === 'identifier' && expression.object.name === 'param' && expression.property) {
+                        use(expression.property.name, expression.property.span, conditional);
+                    }
+                    if (expression.object) {
+                        objects.add(expression.object);
+                    }
+                } else if (expression.kind === 'identifier' && expression.name === 'param' && !objects.has(expression)) {
+                    dynamic = true;
+                }
+            });
+        }
+    };
+
+    const visit = (nodes: Node[], conditional: boolean) => {
+        for (const node of nodes) {
+            if (node.kind === 'block') {
+                visitBlock(node.block, conditional);
+            } else if (node.kind === 'shortcode') {
+                visitBlock(node.open, conditional);
+                visit(node.children, conditional);
+            } else {
+                // Conditions only decide whether a parameter is used, and `block` content is always rendered
+                node.branches.forEach(branch => {
+                    visitBlock(branch.header, true);
+                    visit(branch.children, conditional || node.type !== 'block');
+                });
+            }
+        }
+    };
+    visit(document.nodes, false);
+
+    const list = [...parameters.values()];
+    list.forEach(parameter => parameter.required = parameter.required && parameter.defaultValue === undefined);
+    return { parameters: list, dynamic };
+}
+
+/**
+ * Matches the arguments of a shortcode call against the signature of the shortcode.
+ * Positional arguments bind to the parameters in order.
+ */
+export function matchArguments(signature: ShortcodeSignature, args: Argument[]): ArgumentMatch {
+    const names = new Set(signature.parameters.map(parameter => parameter.name));
+    const passed = new Set<string>();
+    const unknown: Argument[] = [];
+    const extra: Argument[] = [];
+
+    let position = 0;
+    for (const arg of args) {
+        if (arg.name) {
+            passed.add(arg.name.name);
+            if (!names.has(arg.name.name) && !signature.dynamic) {
+                unknown.push(arg);
+            }
+        } else {
+            const parameter = signature.parameters[position++];
+            if (parameter) {
+                passed.add(parameter.name);
+            } else if (!signature.dynamic) {
+                extra.push(arg);
+            }
+        }
+    }
+
+    const missing = signature.parameters.filter(parameter => parameter.required && !passed.has(parameter.name));
+    return { unknown, extra, missing };
+}
+
+/**
+ * Finds the argument of a shortcode call at `offset`: the name of a named argument, or the
+ * position of a positional one (including the position the next argument would take).
+ */
+export function getActiveArgument(block: ShortcodeBlock, offset: number): { name?: string; position: number } {
+    let position = 0;
+    for (const arg of block.args) {
+        if (contains(arg.span, offset)) {
+            return { name: arg.name?.name, position };
+        }
+        if (arg.span.end < offset && !arg.name) {
+            position++;
+        }
+    }
+    return { position };
+}
@@ -0,0 +1,184 @@
+import { AllayDocument, Block, Name, Span, VariableExpression } from './ast';
+import { contains, findBlockAt, getAccessPath, getBlockExpressions, walkExpression } from './query';
+import { resolveVariable } from './scopes';
+
+/**
+ * A name in Allay markup that tooling can resolve, e.g. for go to definition.
+ */
+export type AllaySymbol =
+    | { kind: 'template'; name: string; span: Span }
+    | { kind: 'shortcode'; name: string; span: Span }
+    | { kind: 'variable'; name: string; span: Span }
+    | { kind: 'keyword'; name: string; span: Span }
+    | { kind: 'builtin'; name: string; span: Span }
+    /** The name of a `{: block "name" :}` definition. */
+    | { kind: 'block'; name: string; span: Span }
+    /** A field access such as `site.title`; `path` is the full dotted path up to this field. */
+    | { kind: 'field'; path: string; span: Span };
+
+export const BUILTIN_VARIABLES = ['this', 'site', 'pages', 'param'];
+
+/**
+ * Resolves the symbol under `offset`.
+ */
+export function findSymbolAt(document: AllayDocument, offset: number): AllaySymbol | undefined {
+    const block = findBlockAt(document, offset);
+    if (!block) {
+        return undefined;
+    }
+
+    if (block.kind === 'shortcode' && block.name && contains(block.name.span, offset)) {
+        return { kind: 'shortcode', name: block.name.name, span: block.name.span };
+    }
+
+    if (block.kind === 'command') {
+        const command = block.command;
+        if ((command.kind === 'include' || command.kind === 'extends') && command.target?.kind === 'string' && contains(command.target.span, offset)) {
+            return { kind: 'template', name: command.target.value, span: command.target.span };
+        }
+        if (command.keyword && contains(command.keyword.span, offset)) {
+            return { kind: 'keyword', name: command.keyword.name, span: command.keyword.span };
+        }
+        if (command.kind === 'else' && command.ifKeyword && contains(command.ifKeyword.span, offset)) {
+            return { kind: 'keyword', name: 'else if', span: { start: command.keyword!.span.start, end: command.ifKeyword.span.end } };
+        }
+    }
+
+    if (block.kind === 'expression' && block.definition && contains(block.definition.keyword.span, offset)) {
+        return { kind: 'keyword', name: 'block', span: block.definition.keyword.span };
+    }
+    const definitionName = block.kind === 'expression' ? block.definition?.name : undefined;
+    if (definitionName?.kind === 'string' && contains(definitionName.span, offset)) {
+        return { kind: 'block', name: definitionName.value, span: definitionName.span };
+    }
+
+    return findExpressionSymbol(block, offset);
+}
+
+function findExpressionSymbol(block: Block, offset: number): AllaySymbol | undefined {
+    let symbol: AllaySymbol | undefined;
+    for (const root of getBlockExpressions(block)) {
+        walkExpression(root, expression => {
+            if (!contains(expression.span, offset)) {
+                return;
+            }
+            switch (expression.kind) {
+                case 'variable':
+                    symbol = { kind: 'variable', name: expression.name, span: expression.span };
+                    break;
+                case 'identifier':
+                    if (BUILTIN_VARIABLES.includes(expression.name)) {
+                        symbol = { kind: 'builtin', name: expression.name, span: expression.span };
+                    }
+                    break;
+                case 'member': {
+                    const path = getAccessPath(expression);
+                    if (path !== undefined && expression.property && contains(expression.property.span, offset)) {
+                        symbol = { kind: 'field', path, span: expression.property.span };
+                    }
+                    break;
+                }
+            }
+        });
+    }
+    return symbol;
+}
+
+/**
+ * Returns the variables bound by `set` and `for` commands, in document order.
+ */
+export function getVariableBindings(document: AllayDocument, name?: string): VariableExpression[] {
+    const bindings: VariableExpression[] = [];
+    for (const block of document.blocks) {
+        if (block.kind !== 'command') {
+            continue;
+        }
+        const command = block.command;
+        const variables = command.kind === 'set' ? command.targets : command.kind === 'for' ? command.variables : [];
+        bindings.push(...variables.filter(variable => name === undefined || variable.name === name));
+    }
+    return bindings;
+}
+
+/**
+ * Returns the binding a use of a variable refers to. When no binding is in scope, falls back to
+ * the closest binding before it, or the first binding when the variable is only bound further down.
+ */
+export function findVariableBinding(document: AllayDocument, name: string, offset: number): VariableExpression | undefined {
+    const resolved = resolveVariable(document, name, offset);
+    if (resolved) {
+        return resolved.binding;
+    }
+    const bindings = getVariableBindings(document, name);
+    const before = bindings.filter(binding => binding.span.start <= offset);
+    return before.length > 0 ? before[before.length - 1] : bindings[0];
+}
+
+/**
+ * Returns every occurrence of a variable, bindings included.
+ */
+export function getVariableOccurrences(document: AllayDocument, name: string): VariableExpression[] {
+    const occurrences: VariableExpression[] = [];
+    for (const block of document.blocks) {
+        for (const root of getBlockExpressions(block)) {
+            walkExpression(root, expression => {
+                if (expression.kind === 'variable' && expression.name === name) {
+                    occurrences.push(expression);
+                }
+            });
+        }
+    }
+    return occurrences;
+}
+
+/**
+ * Returns the templates referenced by `include` and `extends` commands.
+ */
+export function getTemplateReferences(document: AllayDocument): { kind: 'include' | 'extends'; name: string; span: Span }[] {
+    const references: { kind: 'include' | 'extends'; name: string; span: Span }[] = [];
+    for (const block of document.blocks) {
+        if (block.kind !== 'command') {
+            continue;
+        }
+        const command = block.command;
+        if ((command.kind === 'include' || command.kind === 'extends') && command.target?.kind === 'string') {
+            references.push({ kind: command.kind, name: command.target.value, span: command.target.span });
+        }
+    }
+    return references;
+}
+
+/**
+ * Returns the names of all shortcode tags, opening and closing.
+ */
+export function getShortcodeReferences(document: AllayDocument): { name: string; span: Span; closing: boolean }[] {
+    const references: { name: string; span: Span; closing: boolean }[] = [];
+    for (const block of document.blocks) {
+        if (block.kind === 'shortcode' && block.name) {
+            references.push({ name: block.name.name, span: block.name.span, closing: block.closing });
+        }
+    }
+    return references;
+}
+
+/**
+ * Returns the names of the `{: block "name" :}` definitions, spanning the name strings.
+ */
+export function getBlockDefinitions(document: AllayDocument): Name[] {
+    const definitions: Name[] = [];
+    for (const block of document.blocks) {
+        const name = block.kind === 'expression' ? block.definition?.name : undefined;
+        if (name?.kind === 'string' && name.value) {
+            definitions.push({ name: name.value, span: name.span });
+        }
+    }
+    return definitions;
+}
+
+/**
+ * Returns the template named by the first `{- extends "name" -}` of a document.
+ */
+export function getExtendsTarget(document: AllayDocument): Name | undefined {
+    const reference = getTemplateReferences(document).find(reference => reference.kind === 'extends');
+    return reference && { name: reference.name, span: reference.span };
+}
@@ -0,0 +1,289 @@
+import { AllayDocument, ControlNode, Expression, Node, VariableExpression } from './ast';
+import { findBlockAt, walkNodes } from './query';
+import { resolveVariable } from './scopes';
+import { findVariableBinding } from './symbols';
+
+/**
+ * The shape of a value as far as tooling can tell, e.g. a page with its front-matter fields
+ * or a list of pages. Values read from data files are described by `typeOfValue`.
+ */
+export type AllayType = UnknownType | ScalarType | ObjectType | ListType;
+
+export interface UnknownType {
+    kind: 'unknown';
+}
+
+export interface ScalarType {
+    kind: 'scalar';
+    name: 'string' | 'number' | 'boolean' | 'date' | 'null';
+}
+
+export interface ObjectType {
+    kind: 'object';
+    /** Shown instead of "object", e.g. "page". */
+    name?: string;
+    fields: { [name: string]: Field };
+}
+
+export interface ListType {
+    kind: 'list';
+    element: AllayType;
+}
+
+export interface Field {
+    type: AllayType;
+    /** Short note shown next to the field, e.g. where it comes from. */
+    detail?: string;
+    documentation?: string;
+}
+
+/**
+ * What the built-in names refer to while rendering a file.
+ */
+export interface TypeEnvironment {
+    site: AllayType;
+    /** A page of the site; `pages` is a list of these. */
+    page: AllayType;
+    /** `this` outside of any `with`: the page being rendered. */
+    current: AllayType;
+    param: AllayType;
+}
+
+/** Data as read from front matter or `allay.toml`. */
+export type DataValue = string | number | boolean | null | DataValue[] | { [key: string]: DataValue };
+
+export const UNKNOWN: UnknownType = { kind: 'unknown' };
+
+const STRING: ScalarType = { kind: 'scalar', name: 'string' };
+const NUMBER: ScalarType = { kind: 'scalar', name: 'number' };
+const BOOLEAN: ScalarType = { kind: 'scalar', name: 'boolean' };
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?)?$/;
+
+// Guards against `set` chains that refer to themselves
+const MAX_DEPTH = 16;
+
+/**
+ * Fields every page has, whether or not its front matter sets them.
+ */
+export const PAGE_FIELDS: { [name: string]: Field } = {
+    title: { type: STRING, detail: 'Standard Page Metadata', documentation: 'The title of the page.' },
+    date: { type: { kind: 'scalar', name: 'date' }, detail: 'Standard Page Metadata', documentation: 'The publication date of the page.' },
+    description: { type: STRING, detail: 'Standard Page Metadata', documentation: 'A short summary of the page.' },
+    tags: { type: { kind: 'list', element: STRING }, detail: 'Standard Page Metadata', documentation: 'The tags of the page.' },
+    template: { type: STRING, detail: 'Standard Page Metadata', documentation: 'The template in `templates/` used to render the page.' },
+    url: { type: STRING, detail: 'Standard Page Metadata', documentation: 'The URL path of the page.' },
+    head: { type: STRING, detail: 'Standard Page Metadata', documentation: 'Extra markup for the `<head>` of the page.' },
+    content: { type: STRING, detail: 'Standard Page Metadata', documentation: 'The rendered body of the page.' },
+};
+
+/**
+ * Describes a type for completion details and hovers, e.g. `list of page`.
+ */
+export function describeType(type: AllayType): string {
+    switch (type.kind) {
+        case 'unknown':
+            return 'unknown';
+        case 'scalar':
+            return type.name;
+        case 'object':
+            return type.name ?? 'object';
+        case 'list':
+            return `list of ${describeType(type.element)}`;
+    }
+}
+
+/**
+ * Returns the type of a value from front matter or `allay.toml`.
+ */
+export function typeOfValue(value: DataValue): AllayType {
+    if (value === null) {
+        return { kind: 'scalar', name: 'null' };
+    }
+    if (Array.isArray(value)) {
+        return { kind: 'list', element: value.map(typeOfValue).reduce(mergeTypes, UNKNOWN) };
+    }
+    switch (typeof value) {
+        case 'string':
+            return DATE_PATTERN.test(value) ? { kind: 'scalar', name: 'date' } : STRING;
+        case 'number':
+            return NUMBER;
+        case 'boolean':
+            return BOOLEAN;
+    }
+    const fields: { [name: string]: Field } = {};
+    Object.entries(value).forEach(([name, field]) => fields[name] = { type: typeOfValue(field) });
+    return { kind: 'object', fields };
+}
+
+/**
+ * Combines the types of values found in different places, e.g. the same front-matter field on
+ * several pages. Objects keep the fields of both; conflicting scalars become unknown.
+ */
+export function mergeTypes(a: AllayType, b: AllayType): AllayType {
+    if (a.kind === 'unknown' || isNull(a)) {
+        return b;
+    }
+    if (b.kind === 'unknown' || isNull(b)) {
+        return a;
+    }
+    if (a.kind === 'list' && b.kind === 'list') {
+        return { kind: 'list', element: mergeTypes(a.element, b.element) };
+    }
+    if (a.kind === 'object' && b.kind === 'object') {
+        const fields = { ...a.fields };
+        for (const [name, field] of Object.entries(b.fields)) {
+            fields[name] = fields[name] ? { ...fields[name], type: mergeTypes(fields[name].type, field.type) } : field;
+        }
+        return { kind: 'object', name: a.name ?? b.name, fields };
+    }
+    if (a.kind === 'scalar' && b.kind === 'scalar' && a.name === b.name) {
+        return a;
+    }
+    return UNKNOWN;
+}
+
+/**
+ * Builds the page type from the standard fields and the front matter of the given pages.
+ */
+export function getPageType(frontMatters: { [key: string]: DataValue }[]): ObjectType {
+    const fields: { [name: string]: Field } = { ...PAGE_FIELDS };
+    const usage = new Map<string, number>();
+    for (const data of frontMatters) {
+        for (const [name, value] of Object.entries(data)) {
+            usage.set(name, (usage.get(name) ?? 0) + 1);
+            fields[name] = { ...fields[name], type: mergeTypes(fields[name]?.type ?? UNKNOWN, typeOfValue(value)) };
+        }
+    }
+    usage.forEach((count, name) => {
+        if (!PAGE_FIELDS[name]) {
+            fields[name].detail = `Front-matter variable used in ${count} page${count === 1 ? '' : 's'}`;
+        }
+    });
+    return { kind: 'object', name: 'page', fields };
+}
+
+/**
+ * Returns the fields available on a value of the given type.
+ */
+export function getFields(type: AllayType): { [name: string]: Field } {
+    return type.kind === 'object' ? type.fields : {};
+}
+
+/**
+ * Infers the type of an expression from the built-ins, the `set`/`for` bindings and the
+ * enclosing `with` scopes.
+ */
+export function inferType(document: AllayDocument, expression: Expression | undefined, environment: TypeEnvironment): AllayType {
+    return new TypeInference(document, environment).infer(expression, 0);
+}
+
+/**
+ * Returns the type of `this` at `offset`: the value of the innermost enclosing `with`, or the
+ * page being rendered.
+ */
+export function getScopeType(document: AllayDocument, offset: number, environment: TypeEnvironment): AllayType {
+    return new TypeInference(document, environment).scopeAt(offset, 0);
+}
+
+class TypeInference {
+    constructor(private readonly document: AllayDocument, private readonly environment: TypeEnvironment) { }
+
+    public infer(expression: Expression | undefined, depth: number): AllayType {
+        if (!expression || depth > MAX_DEPTH) {
+            return UNKNOWN;
+        }
+        switch (expression.kind) {
+            case 'string':
+                return STRING;
+            case 'number':
+                return NUMBER;
+            case 'boolean':
+                return BOOLEAN;
+            case 'group':
+                return this.infer(expression.expression, depth + 1);
+            case 'unary':
+                return expression.operator === '-' ? NUMBER : BOOLEAN;
+            case 'identifier':
+                switch (expression.name) {
+                    case 'this':
+                        return this.scopeAt(expression.span.start, depth + 1);
+                    case 'site':
+                        return this.environment.site;
+                    case 'pages':
+                        return { kind: 'list', element: this.environment.page };
+                    case 'param':
+                        return this.environment.param;
+                }
+                return UNKNOWN;
+            case 'variable':
+                return this.inferVariable(expression, depth + 1);
+            case 'member': {
+                const object = expression.object
+                    ? this.infer(expression.object, depth + 1)
+                    : this.scopeAt(expression.span.start, depth + 1);
+                const field = expression.property && getFields(object)[expression.property.name];
+                return field?.type ?? UNKNOWN;
+            }
+        }
+        return UNKNOWN;
+    }
+
+    public scopeAt(offset: number, depth: number): AllayType {
+        const scope = findEnclosingWith(this.document.nodes, offset);
+        const header = scope?.branches[0].header;
+        if (header?.kind !== 'command' || header.command.kind !== 'with') {
+            return this.environment.current;
+        }
+        return this.infer(header.command.value, depth + 1);
+    }
+
+    private inferVariable(variable: VariableExpression, depth: number): AllayType {
+        const resolved = resolveVariable(this.document, variable.name, variable.span.start);
+        if (resolved && !resolved.binding) {
+            // `$index`, the only implicit variable
+            return NUMBER;
+        }
+        const binding = findVariableBinding(this.document, variable.name, variable.span.start);
+        const block = binding && findBlockAt(this.document, binding.span.start);
+        if (!binding || block?.kind !== 'command') {
+            return UNKNOWN;
+        }
+
+        const command = block.command;
+        if (command.kind === 'set' && command.targets.length === 1) {
+            return this.infer(command.value, depth + 1);
+        }
+        if (command.kind === 'for') {
+            // `for $item : list` binds the element, `for $key, $item : list` also the position or key
+            const iterable = this.infer(command.iterable, depth + 1);
+            const isElement = command.variables.indexOf(binding) === command.variables.length - 1;
+            if (iterable.kind === 'list') {
+                return isElement ? iterable.element : NUMBER;
+            }
+            if (iterable.kind === 'object') {
+                return isElement ? Object.values(iterable.fields).map(field => field.type).reduce(mergeTypes, UNKNOWN) : STRING;
+            }
+        }
+        return UNKNOWN;
+    }
+}
+
+/**
+ * Finds the innermost `with` whose body contains `offset`.
+ */
+function findEnclosingWith(nodes: Node[], offset: number): ControlNode | undefined {
+    let found: ControlNode | undefined;
+    walkNodes(nodes, node => {
+        if (node.kind === 'control' && node.type === 'with') {
+            const body = node.branches[0];
+            if (body && body.header.span.end <= offset && offset <= body.span.end) {
+                found = node;
+            }
+        }
+    });
+    return found;
+}
+
+function isNull(type: AllayType): boolean {
+    return type.kind === 'scalar' && type.name === 'null';
+}
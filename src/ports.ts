@@ -0,0 +1,59 @@
+import * as net from 'net';
+
+/**
+ * Checks whether nothing is listening on a local port.
+ */
+export function isPortAvailable(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.once('error', () => resolve(false));
+        server.once('listening', () => server.close(() => resolve(true)));
+        server.listen(port, '127.0.0.1');
+    });
+}
+
+/**
+ * Asks the operating system for a free local port.
+ */
+export function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const address = server.address();
+            const port = typeof address === 'object' && address ? address.port : 0;
+            server.close(() => port ? resolve(port) : reject(new Error('Could not determine a free port.')));
+        });
+    });
+}
+
+/**
+ * Polls a local port until it accepts connections.
+ * Resolves to false when `timeout` milliseconds pass or `isCancelled` returns true first.
+ */
+export async function waitForPort(port: number, timeout: number, isCancelled: () => boolean = () => false): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline && !isCancelled()) {
+        if (await canConnect(port)) {
+            return true;
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    return false;
+}
+
+function canConnect(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const socket = net.connect({ port, host: '127.0.0.1' });
+        socket.setTimeout(1000);
+        socket.once('connect', () => {
+            socket.destroy();
+            resolve(true);
+        });
+        socket.once('timeout', () => {
+            socket.destroy();
+            resolve(false);
+        });
+        socket.once('error', () => resolve(false));
+    });
+}
@@ -0,0 +1,181 @@
+/**
+ * Builds the HTML of the Allay Preview webview, loading the Allay server on `port` in an iframe.
+ */
+export function getWebviewContent(port: number, initialPath = '/'): string {
+	const url = `http://localhost:${port}`;
+	const ipUrl = `http://127.0.0.1:${port}`;
+    return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="
+                default-src 'none';
+                img-src data: https:;
+                script-src 'unsafe-inline';
+                style-src 'unsafe-inline';
+                frame-src ${url} ${ipUrl} ;
+            ">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Allay Preview</title>
+            <style>
+                html, body {
+                    height: 100vh;
+                    width: 100%;
+                    margin: 0;
+                    padding: 0;
+                    overflow: hidden;
+                }
+                body {
+                    display: flex;
+                    flex-direction: column;
+                }
+                #toolbar {
+                    flex-shrink: 0;
+                    padding: 4px 8px;
+                    background-color: var(--vscode-sideBar-background);
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                #toolbar button {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: 1px solid var(--vscode-button-border, transparent);
+                    padding: 4px 8px;
+                    cursor: pointer;
+                }
+                #toolbar button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                iframe {
+                    flex-grow: 1;
+                    width: 100%;
+                    margin: 0;
+                    padding: 0;
+                    border: none;
+                    overflow: hidden;
+                }
+            </style>
+        </head>
+        <body>
+            <div id="toolbar">
+                <button id="history-back"><-</button>
+                <button id="history-forward">-></button>
+            </div>
+
+            <iframe id="content-iframe" src="${url}${initialPath}"></iframe>
+
+            <script>
+                (function() {
+					const vscode = acquireVsCodeApi();
+
+                    const iframe = document.getElementById('content-iframe');
+                    const backButton = document.getElementById('history-back');
+                    const forwardButton = document.getElementById('history-forward');
+
+                    const targetOrigin = '${url}';
+					const targetIpOrigin = '${ipUrl}';
+
+                    backButton.addEventListener('click', () => {
+                        iframe.contentWindow.postMessage({ command: 'navigateBack' }, targetOrigin);
+						iframe.contentWindow.postMessage({ command: 'navigateBack' }, targetIpOrigin);
+                    });
+
+                    forwardButton.addEventListener('click', () => {
+                        iframe.contentWindow.postMessage({ command: 'navigateForward' }, targetOrigin);
+						iframe.contentWindow.postMessage({ command: 'navigateForward' }, targetIpOrigin);
+                    });
+
+					const postToPreview = (message) => {
+						iframe.contentWindow.postMessage(message, targetOrigin);
+						iframe.contentWindow.postMessage(message, targetIpOrigin);
+					};
+
+					window.addEventListener('message', event => {
+						const message = event.data;
+
+						// Messages from the preview page
+						if (event.origin === targetOrigin || event.origin === targetIpOrigin) {
+							if (message.command === 'openExternal' && message.url) {
+								vscode.postMessage({
+									command: 'openExternal',
+									url: message.url
+								});
+							} else if (message.command === 'revealSource') {
+								vscode.postMessage({
+									command: 'revealSource',
+									anchor: message.anchor,
+									ratio: message.ratio
+								});
+							}
+							return;
+						}
+
+						// Messages from the extension
+						switch (message.command) {
+							case 'navigate':
+								iframe.src = (iframe.src.startsWith(targetIpOrigin) ? targetIpOrigin : targetOrigin) + message.path;
+								break;
+							case 'scrollTo':
+								postToPreview({ command: 'scrollTo', anchor: message.anchor, ratio: message.ratio });
+								break;
+						}
+					});
+                }());
+            </script>
+        </body>
+        </html>
+    `;
+}
+
+/**
+ * HTML shown in the preview while the Allay server is not running. The optional `action` button
+ * (e.g. Retry) posts `{ command: 'start' }` to the extension.
+ */
+export function getStatusContent(message: string, isError: boolean, action?: string): string {
+    const escaped = message.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+            <title>Allay Preview</title>
+            <style>
+                body {
+                    height: 100vh;
+                    margin: 0;
+                    display: flex;
+                    flex-direction: column;
+                    align-items: center;
+                    justify-content: center;
+                    gap: 12px;
+                    font-family: var(--vscode-font-family);
+                    color: ${isError ? 'var(--vscode-errorForeground)' : 'var(--vscode-foreground)'};
+                }
+                button {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: 1px solid var(--vscode-button-border, transparent);
+                    padding: 4px 8px;
+                    cursor: pointer;
+                }
+            </style>
+        </head>
+        <body>
+            <div>${escaped}</div>
+            ${action ? `<button id="action">${action}</button>` : ''}
+
+            <script>
+                (function() {
+                    // The API can only be acquired once per webview document
+                    const vscode = acquireVsCodeApi();
+                    const button = document.getElementById('action');
+                    if (button) {
+                        button.addEventListener('click', () => vscode.postMessage({ command: 'start' }));
+                    }
+                })();
+            </script>
+        </body>
+        </html>
+    `;
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { AllayServer } from './server';
+import { PreviewSync } from './previewSync';
+import { getStatusContent, getWebviewContent } from './previewContent';
+
+/**
+ * The Allay Preview of one project. Shows the state of the project's server and loads the site
+ * once the server accepts connections.
+ */
+export class AllayPreviewPanel implements vscode.Disposable {
+    private readonly panel: vscode.WebviewPanel;
+    private readonly sync: PreviewSync;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly disposeEmitter = new vscode.EventEmitter<void>();
+    private disposed = false;
+
+    public readonly onDidDispose = this.disposeEmitter.event;
+
+    constructor(
+        public readonly server: AllayServer,
+        title: string,
+        logChannel: vscode.LogOutputChannel,
+        startServer: () => Promise<void>
+    ) {
+        this.panel = vscode.window.createWebviewPanel(
+            'allayPreview',
+            title,
+            vscode.ViewColumn.Two, // Show in second column
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        // Follow the active editor and synchronise scrolling
+        this.sync = new PreviewSync(this.panel, server.projectRoot, logChannel);
+
+        this.disposables.push(
+            this.sync,
+            // Listen message form webview to handle navigation
+            this.panel.webview.onDidReceiveMessage(async (message) => {
+                switch (message.command) {
+                    case 'openExternal':
+                        if (message.url) {
+                            const uri = vscode.Uri.parse(message.url);
+                            await vscode.env.openExternal(uri);
+                        }
+                        break;
+                    case 'revealSource':
+                        await this.sync.revealSource(message);
+                        break;
+                    case 'start':
+                        await startServer();
+                        break;
+                }
+            }),
+            server.onDidChangeState(() => this.update()),
+            // The server keeps running and is stopped from the status bar or the Allay view
+            this.panel.onDidDispose(() => this.dispose())
+        );
+
+        this.update();
+    }
+
+    /** URL path currently shown. */
+    public get currentPath(): string {
+        return this.sync.currentPath;
+    }
+
+    public reveal(): void {
+        this.panel.reveal(vscode.ViewColumn.Two);
+    }
+
+    /**
+     * Shows the page at a URL path of the site, once the server runs if it is still starting.
+     */
+    public navigate(url: string): void {
+        this.sync.navigate(url);
+    }
+
+    private update(): void {
+        const server = this.server;
+        if (server.state === 'running' && server.port !== undefined) {
+            // Keep the page the editor followed while the server was starting
+            this.panel.webview.html = getWebviewContent(server.port, this.sync.currentPath);
+            return;
+        }
+        switch (server.state) {
+            case 'starting':
+                this.panel.webview.html = getStatusContent('Starting Allay server...', false);
+                break;
+            case 'crashed':
+                this.panel.webview.html = getStatusContent(server.lastError ?? 'The Allay server stopped unexpectedly.', true, 'Retry');
+                break;
+            default:
+                this.panel.webview.html = getStatusContent('The Allay server is stopped.', false, 'Start Server');
+                break;
+        }
+    }
+
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables.length = 0;
+        this.panel.dispose();
+        this.disposeEmitter.fire();
+        this.disposeEmitter.dispose();
+    }
+}
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { parseFrontMatter } from './frontMatter';
+import { getPageUrl, slugify } from './site';
+
+interface Heading {
+    line: number;
+    anchor: string;
+}
+
+// Delay before forwarding editor scroll positions to the preview
+const SCROLL_DELAY = 50;
+
+// How long editor scroll events are ignored after the preview moved the editor
+const REVEAL_SUPPRESSION = 500;
+
+/**
+ * Keeps the Allay Preview in step with the active editor.
+ * Opening a page navigates the preview to that page's URL, scrolling the editor scrolls the
+ * preview to the matching section, and clicking in the preview reveals the source line.
+ *
+ * Scrolling and click-to-source rely on the preview page answering the `scrollTo` message and
+ * posting `revealSource`, like it already does for `navigateBack`/`navigateForward`.
+ */
+export class PreviewSync implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private document: vscode.TextDocument | undefined;
+    private scrollTimer: NodeJS.Timeout | undefined;
+    private suppressScrollUntil = 0;
+
+    /** URL path currently shown in the preview. */
+    public currentPath = '/';
+
+    constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly projectRoot: string,
+        private readonly logChannel: vscode.LogOutputChannel
+    ) {
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && this.isEnabled('followActiveEditor')) {
+                    this.followEditor(editor);
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+                if (event.textEditor.document === this.document && this.isEnabled('syncScroll')) {
+                    this.scheduleScroll(event.textEditor);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                // A changed `url` in the front matter moves the page
+                if (document === this.document && this.isEnabled('followActiveEditor')) {
+                    this.navigateTo(document);
+                }
+            })
+        );
+
+        const editor = vscode.window.activeTextEditor;
+        if (editor && this.isEnabled('followActiveEditor')) {
+            this.followEditor(editor);
+        }
+    }
+
+    /**
+     * Navigates the preview to the page generated from the editor's file, if it is a content page.
+     */
+    public followEditor(editor: vscode.TextEditor): void {
+        if (this.navigateTo(editor.document)) {
+            this.document = editor.document;
+        }
+    }
+
+    /**
+     * Handles a `revealSource` message from the preview page by revealing the matching line.
+     */
+    public async revealSource(message: { anchor?: string; ratio?: number }): Promise<void> {
+        const document = this.document;
+        if (!document || document.isClosed) {
+            return;
+        }
+
+        let line: number | undefined;
+        if (message.anchor) {
+            line = getHeadings(document).find(heading => heading.anchor === message.anchor)?.line;
+        }
+        if (line === undefined && typeof message.ratio === 'number') {
+            line = Math.round(Math.min(Math.max(message.ratio, 0), 1) * (document.lineCount - 1));
+        }
+        if (line === undefined) {
+            return;
+        }
+
+        this.suppressScrollUntil = Date.now() + REVEAL_SUPPRESSION;
+        const position = new vscode.Position(line, 0);
+        const visibleEditor = vscode.window.visibleTextEditors.find(editor => editor.document === document);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: visibleEditor?.viewColumn ?? vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position),
+            preserveFocus: false,
+        });
+    }
+
+    /**
+     * Navigates the preview to a URL path of the site, e.g. for a page picked in the Pages view.
+     */
+    public navigate(url: string): void {
+        if (url !== this.currentPath) {
+            this.currentPath = url;
+            this.panel.webview.postMessage({ command: 'navigate', path: url });
+        }
+    }
+
+    private navigateTo(document: vscode.TextDocument): boolean {
+        const url = getPageUrl(this.projectRoot, document.uri.fsPath, parseFrontMatter(document.getText()));
+        if (!url) {
+            return false;
+        }
+        if (url !== this.currentPath) {
+            this.logChannel.info(`Preview following ${vscode.workspace.asRelativePath(document.uri)} at ${url}`);
+            this.navigate(url);
+        }
+        return true;
+    }
+
+    private scheduleScroll(editor: vscode.TextEditor): void {
+        if (Date.now() < this.suppressScrollUntil) {
+            return;
+        }
+        if (this.scrollTimer) {
+            clearTimeout(this.scrollTimer);
+        }
+        this.scrollTimer = setTimeout(() => {
+            this.scrollTimer = undefined;
+            const topLine = editor.visibleRanges[0]?.start.line ?? 0;
+            const headings = getHeadings(editor.document).filter(heading => heading.line <= topLine);
+            this.panel.webview.postMessage({
+                command: 'scrollTo',
+                anchor: headings.length > 0 ? headings[headings.length - 1].anchor : undefined,
+                ratio: topLine / Math.max(editor.document.lineCount - 1, 1),
+            });
+        }, SCROLL_DELAY);
+    }
+
+    private isEnabled(setting: 'followActiveEditor' | 'syncScroll'): boolean {
+        return vscode.workspace.getConfiguration('allay.preview').get<boolean>(setting, true);
+    }
+
+    dispose(): void {
+        if (this.scrollTimer) {
+            clearTimeout(this.scrollTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Finds Markdown (`## Title`) and HTML (`<h2 id="...">`) headings together with their anchors.
+ */
+function getHeadings(document: vscode.TextDocument): Heading[] {
+    const headings: Heading[] = [];
+    let inFence = false;
+    for (let line = 0; line < document.lineCount; line++) {
+        const text = document.lineAt(line).text;
+        if (/^\s*(```|~~~)/.test(text)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) {
+            continue;
+        }
+        const markdown = text.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (markdown) {
+            headings.push({ line, anchor: slugify(markdown[1]) });
+            continue;
+        }
+        const html = text.match(/<h[1-6][^>]*\bid\s*=\s*["']([^"']+)["']/i);
+        if (html) {
+            headings.push({ line, anchor: html[1] });
+        }
+    }
+    return headings;
+}
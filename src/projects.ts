@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_FILE, findMissingDirectories, findProjectRoot } from './site';
+import { WorkspaceIndex } from './workspaceIndex';
+
+/**
+ * An Allay project: a folder containing an `allay.toml`, possibly nested in a workspace folder.
+ */
+export interface AllayProject {
+    root: string;
+    /** Name shown to the user, the path relative to its workspace folder. */
+    name: string;
+}
+
+/**
+ * Keeps track of the Allay projects in the workspace by locating their `allay.toml` files.
+ */
+export class AllayProjects implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private projects: AllayProject[] = [];
+    private loading: Promise<void>;
+
+    /** Fired when a project is added or removed. */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly index: WorkspaceIndex) {
+        this.loading = this.load();
+        this.disposables.push(index.onDidChange(kind => {
+            if (kind === 'config') {
+                this.loading = this.load();
+            }
+        }));
+    }
+
+    public async getProjects(): Promise<AllayProject[]> {
+        await this.loading;
+        return this.projects;
+    }
+
+    /**
+     * Returns the innermost known project containing a file.
+     */
+    public findProject(uri: vscode.Uri): AllayProject | undefined {
+        const root = findProjectRoot(this.projects.map(project => project.root), uri.fsPath);
+        return this.projects.find(project => project.root === root);
+    }
+
+    /**
+     * Picks a project: the one containing the active file, the only one, or the one the user selects.
+     * Shows an error and returns undefined if the workspace has no project.
+     */
+    public async pick(placeHolder: string): Promise<AllayProject | undefined> {
+        const projects = await this.getProjects();
+        if (projects.length === 0) {
+            vscode.window.showErrorMessage(`No Allay project found. Open a folder containing an ${CONFIG_FILE} file to use Allay.`);
+            return undefined;
+        }
+
+        const activeDocument = vscode.window.activeTextEditor?.document;
+        const activeProject = activeDocument?.uri.scheme === 'file' ? this.findProject(activeDocument.uri) : undefined;
+        if (activeProject) {
+            return activeProject;
+        }
+        if (projects.length === 1) {
+            return projects[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            projects.map(project => ({ label: project.name, description: project.root, project })),
+            { placeHolder }
+        );
+        return picked?.project;
+    }
+
+    private async load(): Promise<void> {
+        const projects = (await this.index.findConfigs())
+            .map(config => config.root)
+            .sort()
+            .map(root => ({ root, name: getProjectName(root) }));
+        // Edits to an allay.toml are reported as well, but only added, removed or renamed projects matter here
+        const describe = (list: AllayProject[]) => list.map(project => `${project.root}:${project.name}`).join('\n');
+        if (describe(projects) === describe(this.projects)) {
+            return;
+        }
+        this.projects = projects;
+        this.changeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Returns the path of a project relative to its workspace folder, prefixed with the folder name
+ * in multi-root workspaces.
+ */
+export function getProjectName(projectRoot: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectRoot));
+    if (!folder) {
+        return path.basename(projectRoot);
+    }
+    const relative = path.relative(folder.uri.fsPath, projectRoot).split(path.sep).join('/');
+    if (!relative) {
+        return folder.name;
+    }
+    return (vscode.workspace.workspaceFolders?.length ?? 0) > 1 ? `${folder.name}/${relative}` : relative;
+}
+
+/**
+ * Checks that a project has the expected directories. If some are missing, explains what they are for
+ * and lets the user create them or continue anyway. Returns false if the user cancelled.
+ */
+export async function checkProjectStructure(project: AllayProject, logChannel: vscode.LogOutputChannel): Promise<boolean> {
+    const missing = await findMissingDirectories(project.root);
+    if (missing.length === 0) {
+        return true;
+    }
+
+    const list = missing.map(directory => `\`${directory.name}/\` for ${directory.purpose}`).join(', ');
+    logChannel.warn(`Allay project ${project.root} is missing ${missing.map(directory => directory.name).join(', ')}.`);
+    const choice = await vscode.window.showWarningMessage(
+        `The Allay project "${project.name}" is missing ${list}. The site may not build until ${missing.length === 1 ? 'it is' : 'they are'} added.`,
+        'Create Missing Folders',
+        'Continue Anyway'
+    );
+    if (choice === 'Create Missing Folders') {
+        for (const directory of missing) {
+            await fs.promises.mkdir(path.join(project.root, directory.name), { recursive: true });
+        }
+        return true;
+    }
+    return choice === 'Continue Anyway';
+}
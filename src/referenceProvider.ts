@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayDocument, toRange } from './allayDocument';
+import { findSymbolAt, getShortcodeReferences, getTemplateReferences, getVariableOccurrences } from './parser';
+import { findVersions, getAncestors, getDescendants, readTemplate } from './inheritance';
+import { SourceFile, getFileStem } from './workspace';
+import { findSourceFiles } from './workspaceIndex';
+
+/**
+ * Finds the pages and templates of the same project that use a shortcode or template, the uses of
+ * a `$var` and the versions of a `block` along the `extends` chain.
+ * Invoked inside a template or shortcode file without a symbol under the cursor, it lists the
+ * uses of that file.
+ */
+export class AllayReferenceProvider implements vscode.ReferenceProvider {
+
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+        const allayDocument = getAllayDocument(document);
+        const symbol = findSymbolAt(allayDocument, document.offsetAt(position));
+
+        if (symbol?.kind === 'variable') {
+            return getVariableOccurrences(allayDocument, symbol.name)
+                .map(variable => new vscode.Location(document.uri, toRange(document, variable.span)));
+        }
+
+        if (symbol?.kind === 'template') {
+            return findTemplateUses(symbol.name, document.uri, token);
+        }
+        if (symbol?.kind === 'shortcode') {
+            return findShortcodeUses(symbol.name, document.uri, token);
+        }
+
+        if (symbol?.kind === 'block') {
+            return findBlockVersions(document.uri, symbol.name, true);
+        }
+
+        if (!symbol) {
+            const directory = path.basename(path.dirname(document.uri.fsPath));
+            if (directory === 'templates') {
+                return findTemplateUses(getFileStem(document.uri), document.uri, token);
+            }
+            if (directory === 'shortcodes') {
+                return findShortcodeUses(getFileStem(document.uri), document.uri, token);
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Returns the definitions of a block along the inheritance chain of a template: the versions
+ * in its ancestors (if `includeAncestors`), its own and those in templates extending it.
+ */
+export async function findBlockVersions(uri: vscode.Uri, name: string, includeAncestors: boolean): Promise<vscode.Location[]> {
+    const template = await readTemplate(uri);
+    const templates = [template, ...await getDescendants(template)];
+    if (includeAncestors) {
+        templates.unshift(...(await getAncestors(template)).ancestors.reverse());
+    }
+    return findVersions(templates, name).map(version => version.template.file.locationOf(version.block.span));
+}
+
+/**
+ * Finds the uses of a template in the project containing `near`; other projects may have their own
+ * template of that name.
+ */
+export async function findTemplateUses(name: string, near: vscode.Uri, token?: vscode.CancellationToken): Promise<vscode.Location[]> {
+    return collectLocations(near, token, file => getTemplateReferences(file.allayDocument)
+        .filter(reference => reference.name === name)
+        .map(reference => file.locationOf(reference.span)));
+}
+
+/**
+ * Finds the uses of a shortcode in the project containing `near`.
+ */
+export async function findShortcodeUses(name: string, near: vscode.Uri, token?: vscode.CancellationToken): Promise<vscode.Location[]> {
+    return collectLocations(near, token, file => getShortcodeReferences(file.allayDocument)
+        .filter(reference => reference.name === name)
+        .map(reference => file.locationOf(reference.span)));
+}
+
+async function collectLocations(near: vscode.Uri, token: vscode.CancellationToken | undefined, collect: (file: SourceFile) => vscode.Location[]): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = [];
+    for (const uri of await findSourceFiles(near)) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+        locations.push(...collect(await SourceFile.read(uri)));
+    }
+    return locations;
+}
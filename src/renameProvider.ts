@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayDocument, toRange } from './allayDocument';
+import { IMPLICIT_LOOP_VARIABLES, Span, findScopedVariable, findSymbolAt, getScopedOccurrences, getVisibleVariables } from './parser';
+import { TemplateInfo, findVersions, getAncestors, getDescendants, getTemplateLabel, readTemplate } from './inheritance';
+import { findShortcodeUses, findTemplateUses } from './referenceProvider';
+import { SHORTCODE_NAME, SourceFile, TEMPLATE_NAME, isInSameProject } from './workspace';
+import { findShortcodeFiles, findTemplateFiles, getWorkspaceIndex } from './workspaceIndex';
+
+const VARIABLE_NAME = /^\$[A-Za-z_][A-Za-z0-9_]*$/;
+const BLOCK_NAME = /^[^"'\s]+$/;
+
+/**
+ * Renames `$vars` within their scope, shortcodes across all content together with their file in
+ * `shortcodes/`, templates in `include`/`extends` and `template:` front matter together with their
+ * file, and `block`s along the whole `extends` chain. Changes outside the current document ask
+ * for confirmation, so they are shown in the refactor preview. Names that would collide with an
+ * existing variable, shortcode, template or block are rejected.
+ */
+export class AllayRenameProvider implements vscode.RenameProvider {
+
+    public prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+        const symbol = findSymbolAt(getAllayDocument(document), document.offsetAt(position));
+        switch (symbol?.kind) {
+            case 'variable':
+                if (IMPLICIT_LOOP_VARIABLES.includes(symbol.name) && !findScopedVariable(getAllayDocument(document), symbol.name, symbol.span.start)?.binding) {
+                    throw new Error(`\`${symbol.name}\` is defined by the loop and cannot be renamed.`);
+                }
+                return { range: toRange(document, symbol.span), placeholder: symbol.name };
+            case 'shortcode':
+                return { range: toRange(document, symbol.span), placeholder: symbol.name };
+            case 'template':
+            case 'block':
+                return { range: toRange(document, unquote(symbol.span)), placeholder: symbol.name };
+            case 'builtin':
+                throw new Error(`\`${symbol.name}\` is built in and cannot be renamed.`);
+            default:
+                throw new Error('Only variables, shortcodes, templates and blocks can be renamed.');
+        }
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const allayDocument = getAllayDocument(document);
+        const symbol = findSymbolAt(allayDocument, document.offsetAt(position));
+        newName = newName.trim();
+
+        switch (symbol?.kind) {
+            case 'variable': {
+                // `$` may be left out when typing the new name
+                const name = newName.startsWith('$') ? newName : `$${newName}`;
+                if (!VARIABLE_NAME.test(name)) {
+                    throw new Error(`\`${newName}\` is not a valid variable name.`);
+                }
+                const variable = findScopedVariable(allayDocument, symbol.name, symbol.span.start);
+                if (!variable) {
+                    throw new Error(`\`${symbol.name}\` is not defined here, so there is nothing to rename.`);
+                }
+                const occurrences = getScopedOccurrences(allayDocument, variable);
+                // Renaming onto a visible variable would merge the two
+                const clash = [variable.scope.start, ...occurrences.map(occurrence => occurrence.span.start)]
+                    .some(offset => getVisibleVariables(allayDocument, offset).some(visible => visible.name === name && visible.scope.start !== variable.scope.start));
+                if (clash || IMPLICIT_LOOP_VARIABLES.includes(name)) {
+                    throw new Error(`A variable named \`${name}\` is already in scope.`);
+                }
+                const edit = new vscode.WorkspaceEdit();
+                for (const occurrence of occurrences) {
+                    edit.replace(document.uri, toRange(document, occurrence.span), name);
+                }
+                return edit;
+            }
+            case 'shortcode':
+                if (!SHORTCODE_NAME.test(newName)) {
+                    throw new Error(`\`${newName}\` is not a valid shortcode name.`);
+                }
+                return renameShortcode(document.uri, symbol.name, newName, token);
+            case 'template':
+                if (!TEMPLATE_NAME.test(newName)) {
+                    throw new Error(`\`${newName}\` is not a valid template name.`);
+                }
+                return renameTemplate(document.uri, symbol.name, newName, token);
+            case 'block':
+                if (!BLOCK_NAME.test(newName)) {
+                    throw new Error(`\`${newName}\` is not a valid block name.`);
+                }
+                return renameBlock(document.uri, symbol.name, newName);
+        }
+        return undefined;
+    }
+}
+
+async function renameShortcode(near: vscode.Uri, name: string, newName: string, token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit> {
+    // Projects can each have a shortcode of that name; only the one `near` uses is renamed
+    const files = (await findShortcodeFiles(name)).filter(file => isInSameProject(file, near));
+    if (files.length === 0) {
+        throw new Error(`Shortcode \`${name}\` has no file in \`shortcodes/\` to rename.`);
+    }
+    const existing = (await findShortcodeFiles(newName)).find(file => isInSameProject(file, near));
+    if (existing) {
+        throw new Error(`A shortcode named \`${newName}\` already exists: ${vscode.workspace.asRelativePath(existing)}.`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const uses = await findShortcodeUses(name, near, token);
+    for (const use of uses) {
+        edit.replace(use.uri, use.range, newName, metadata(near, use.uri, 'Shortcode uses'));
+    }
+    for (const file of files) {
+        edit.renameFile(file, withStem(file, newName), { overwrite: false }, metadata(near, file, 'Shortcode files'));
+    }
+    return edit;
+}
+
+async function renameTemplate(near: vscode.Uri, name: string, newName: string, token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit> {
+    const files = (await findTemplateFiles(name)).filter(file => isInSameProject(file, near));
+    if (files.length === 0) {
+        throw new Error(`Template \`${name}\` has no file in \`templates/\` to rename.`);
+    }
+    const existing = (await findTemplateFiles(newName)).find(file => isInSameProject(file, near));
+    if (existing) {
+        throw new Error(`A template named \`${newName}\` already exists: ${vscode.workspace.asRelativePath(existing)}.`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const uses = await findTemplateUses(name, near, token);
+    for (const use of uses) {
+        const range = new vscode.Range(use.range.start.translate(0, 1), use.range.end.translate(0, -1));
+        edit.replace(use.uri, range, newName, metadata(near, use.uri, 'Template uses'));
+    }
+
+    // Pages choose their template with `template:` in the front matter
+    const root = path.dirname(path.dirname(files[0].fsPath));
+    for (const page of await getWorkspaceIndex().findPages(root)) {
+        const entry = page.frontMatter?.entries.find(candidate => candidate.key === 'template');
+        if (entry?.value !== name) {
+            continue;
+        }
+        const line = (await SourceFile.read(page.uri)).text.split(/\r?\n/)[entry.line];
+        const start = line.indexOf(name, entry.column + entry.key.length + 1);
+        if (start !== -1) {
+            edit.replace(page.uri, new vscode.Range(entry.line, start, entry.line, start + name.length), newName, metadata(near, page.uri, 'Page front matter'));
+        }
+    }
+
+    for (const file of files) {
+        edit.renameFile(file, withStem(file, newName), { overwrite: false }, metadata(near, file, 'Template files'));
+    }
+    return edit;
+}
+
+async function renameBlock(uri: vscode.Uri, name: string, newName: string): Promise<vscode.WorkspaceEdit> {
+    const template = await readTemplate(uri);
+    const { ancestors } = await getAncestors(template);
+
+    // Start at the template that introduces the block, so sibling templates overriding it follow
+    const root = [...ancestors].reverse().find(ancestor => ancestor.blocks.some(block => block.name === name)) ?? template;
+    const rootAncestors = ancestors.slice(ancestors.indexOf(root) + 1);
+    const templates: TemplateInfo[] = [root, ...await getDescendants(root)];
+
+    const clash = findVersions([...rootAncestors, ...templates], newName)[0];
+    if (clash) {
+        throw new Error(`Block "${newName}" is already defined in ${getTemplateLabel(clash.template)}.`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const version of findVersions(templates, name)) {
+        const fileUri = version.template.file.uri;
+        edit.replace(fileUri, version.template.file.rangeOf(unquote(version.block.span)), newName, metadata(uri, fileUri, 'Block definitions'));
+    }
+    return edit;
+}
+
+/**
+ * Edits in other files are confirmed in the refactor preview.
+ */
+function metadata(current: vscode.Uri, target: vscode.Uri, label: string): vscode.WorkspaceEditEntryMetadata {
+    return { label, needsConfirmation: current.toString() !== target.toString() };
+}
+
+function withStem(uri: vscode.Uri, stem: string): vscode.Uri {
+    return vscode.Uri.joinPath(uri, '..', stem + path.extname(uri.fsPath));
+}
+
+/**
+ * The span of a string literal's contents.
+ */
+function unquote(span: Span): Span {
+    return { start: span.start + 1, end: span.end - 1 };
+}
@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAncestors, readTemplate } from './inheritance';
+import { AllayProject } from './projects';
+import { CONFIG_FILE, CONTENT_DIR } from './site';
+import {
+    PageDetails, SCAFFOLDS_DIR, fillScaffold, formatDate, getChildTemplateSkeleton, getLayoutSkeleton, getPageSkeleton,
+    getPageSlug, getPageValues, getParameterDeclarations, getShortcodeSkeleton
+} from './skeletons';
+import { SHORTCODE_NAME, TEMPLATE_NAME, getFileStem, isInSameProject } from './workspace';
+import { PageInfo, findShortcodeFiles, findTemplateFiles, getWorkspaceIndex } from './workspaceIndex';
+
+const PARAMETER_LIST = /^\s*(?:[A-Za-z_]\w*(?:\s*,\s*|\s+|\s*$))*$/;
+
+/**
+ * Creates a content page after asking for its title, section, template and tags, with the front
+ * matter filled in. `folder` is the section when the command is run on a folder below `content/`.
+ */
+export async function newPage(project: AllayProject, folder?: vscode.Uri): Promise<void> {
+    const title = (await vscode.window.showInputBox({
+        title: 'New Page',
+        prompt: 'Title of the page',
+        validateInput: value => value.trim() ? undefined : 'Enter a title.',
+    }))?.trim();
+    if (!title) {
+        return;
+    }
+
+    const contentDir = path.join(project.root, CONTENT_DIR);
+    const pages = await getWorkspaceIndex().findPages(project.root);
+    const fromFolder = folder && path.relative(contentDir, folder.fsPath);
+    const section = fromFolder !== undefined && !fromFolder.startsWith('..') && !path.isAbsolute(fromFolder)
+        ? fromFolder
+        : await pickSection(contentDir, pages);
+    if (section === undefined) {
+        return;
+    }
+
+    const template = await pickTemplate(project, 'New Page', 'Template to render the page with');
+    if (template === undefined) {
+        return;
+    }
+    const tags = await pickTags(pages);
+    if (!tags) {
+        return;
+    }
+
+    const page: PageDetails = { title, date: formatDate(new Date()), tags, template: template ?? undefined };
+    const uri = vscode.Uri.file(path.join(contentDir, section, `${getPageSlug(title)}.md`));
+    // A scaffold named after the top-level section, e.g. `scaffolds/posts.md`, wins over `page.md`
+    const sectionName = section.split(path.sep)[0];
+    const scaffold = await readScaffold(project, [...(sectionName ? [`${sectionName}.md`] : []), 'page.md']);
+    await createFile(uri, scaffold !== undefined ? fillScaffold(scaffold, getPageValues(page)) : getPageSkeleton(page));
+}
+
+/**
+ * Creates a template in `templates/`, either a full layout or one extending another template
+ * that overrides the blocks of its parents.
+ */
+export async function newTemplate(project: AllayProject): Promise<void> {
+    const name = await askName(project, 'template');
+    if (!name) {
+        return;
+    }
+    const parent = await pickTemplate(project, 'New Template', 'Template to extend', 'No parent, a full page layout');
+    if (parent === undefined) {
+        return;
+    }
+
+    let contents: string;
+    const scaffold = await readScaffold(project, ['template.html']);
+    if (scaffold !== undefined) {
+        contents = fillScaffold(scaffold, { name, date: formatDate(new Date()), parent: parent ?? '' });
+    } else if (parent) {
+        contents = getChildTemplateSkeleton(parent, await getInheritedBlocks(project, parent));
+    } else {
+        contents = getLayoutSkeleton([]);
+    }
+    await createFile(vscode.Uri.file(path.join(project.root, 'templates', `${name}.html`)), contents);
+}
+
+/**
+ * Creates a shortcode in `shortcodes/` declaring the parameters it is asked for.
+ */
+export async function newShortcode(project: AllayProject): Promise<void> {
+    const name = await askName(project, 'shortcode');
+    if (!name) {
+        return;
+    }
+    const parameterList = await vscode.window.showInputBox({
+        title: `New Shortcode "${name}"`,
+        prompt: 'Parameters, separated by commas (optional)',
+        placeHolder: 'src, caption',
+        validateInput: value => PARAMETER_LIST.test(value) ? undefined : 'Parameter names consist of letters, digits and underscores.',
+    });
+    if (parameterList === undefined) {
+        return;
+    }
+
+    const parameters = parameterList.split(/[\s,]+/).filter(Boolean);
+    const scaffold = await readScaffold(project, ['shortcode.html']);
+    const contents = scaffold !== undefined
+        ? fillScaffold(scaffold, { name, date: formatDate(new Date()), parameters: getParameterDeclarations(parameters) })
+        : getShortcodeSkeleton(name, parameters);
+    await createFile(vscode.Uri.file(path.join(project.root, 'shortcodes', `${name}.html`)), contents);
+}
+
+async function askName(project: AllayProject, kind: 'template' | 'shortcode'): Promise<string | undefined> {
+    const directory = kind === 'template' ? 'templates' : 'shortcodes';
+    return vscode.window.showInputBox({
+        title: kind === 'template' ? 'New Template' : 'New Shortcode',
+        prompt: `Name of the ${kind}, the file name in ${directory}/ without extension`,
+        validateInput: async value => {
+            if (!(kind === 'template' ? TEMPLATE_NAME : SHORTCODE_NAME).test(value)) {
+                return `\`${value}\` is not a valid ${kind} name.`;
+            }
+            const existing = kind === 'template' ? await findTemplateFiles(value) : await findShortcodeFiles(value);
+            return existing.some(file => isInSameProject(file, getConfigUri(project))) ? `${directory}/${value} already exists.` : undefined;
+        },
+    });
+}
+
+/**
+ * Asks for the folder below `content/` a page goes to, listing the folders that have pages.
+ * Resolves to `''` for `content/` itself and to undefined when cancelled.
+ */
+async function pickSection(contentDir: string, pages: PageInfo[]): Promise<string | undefined> {
+    const counts = new Map<string, number>([['', 0]]);
+    for (const page of pages) {
+        const section = path.relative(contentDir, path.dirname(page.uri.fsPath));
+        if (!section.startsWith('..')) {
+            counts.set(section, (counts.get(section) ?? 0) + 1);
+        }
+    }
+
+    const items: (vscode.QuickPickItem & { section?: string })[] = [...counts]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .map(([section, count]) => ({
+            label: `${CONTENT_DIR}/${section.split(path.sep).join('/')}${section ? '/' : ''}`,
+            description: `${count} page${count === 1 ? '' : 's'}`,
+            section,
+        }));
+    items.push({ label: '$(new-folder) New Section...' });
+
+    const picked = await vscode.window.showQuickPick(items, { title: 'New Page', placeHolder: 'Section to create the page in' });
+    if (!picked || picked.section !== undefined) {
+        return picked?.section;
+    }
+    const created = await vscode.window.showInputBox({
+        title: 'New Section',
+        prompt: `Folder below ${CONTENT_DIR}/, e.g. posts or docs/guides`,
+        validateInput: value => /^[\w-]+(?:\/[\w-]+)*$/.test(value) ? undefined : 'Use letters, digits, `-` and `_`, with `/` between folders.',
+    });
+    return created?.split('/').join(path.sep);
+}
+
+/**
+ * Asks for a template of the project. Resolves to its name, to null for the "none" entry and to
+ * undefined when cancelled.
+ */
+async function pickTemplate(project: AllayProject, title: string, placeHolder: string, noneLabel = 'No template'): Promise<string | null | undefined> {
+    const files = (await findTemplateFiles()).filter(file => isInSameProject(file, getConfigUri(project)));
+    const items: (vscode.QuickPickItem & { template: string | null })[] = [
+        { label: `$(circle-slash) ${noneLabel}`, template: null },
+        ...files.map(file => ({ label: getFileStem(file), description: vscode.workspace.asRelativePath(file), template: getFileStem(file) })),
+    ];
+    return (await vscode.window.showQuickPick(items, { title, placeHolder }))?.template;
+}
+
+/**
+ * Asks for the tags of a page, offering the tags of other pages, most used first. Typing a tag
+ * that no page uses yet offers it as well. Resolves to undefined when cancelled.
+ */
+async function pickTags(pages: PageInfo[]): Promise<string[] | undefined> {
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+        const tags = page.frontMatter?.data.tags;
+        for (const tag of new Set(Array.isArray(tags) ? tags : [tags])) {
+            if (typeof tag === 'string' && tag) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+        }
+    }
+    const known: vscode.QuickPickItem[] = [...counts]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .map(([tag, count]) => ({ label: tag, description: `${count} page${count === 1 ? '' : 's'}` }));
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.title = 'New Page';
+    quickPick.placeholder = 'Tags of the page (type to add a new one)';
+    quickPick.canSelectMany = true;
+    quickPick.items = known;
+
+    const added: vscode.QuickPickItem[] = [];
+    quickPick.onDidChangeValue(value => {
+        const tag = value.trim();
+        const selected = quickPick.selectedItems;
+        const items = [...added, ...known];
+        if (tag && !items.some(item => item.label === tag)) {
+            items.unshift({ label: tag, description: 'New tag' });
+        }
+        quickPick.items = items;
+        quickPick.selectedItems = items.filter(item => selected.some(candidate => candidate.label === item.label));
+    });
+    // Keep typed tags once they are ticked, so the next one can be typed
+    quickPick.onDidChangeSelection(selection => {
+        for (const item of selection) {
+            if (!known.includes(item) && !added.some(candidate => candidate.label === item.label)) {
+                added.push({ label: item.label, description: 'New tag' });
+            }
+        }
+    });
+
+    return new Promise(resolve => {
+        let accepted = false;
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            resolve(quickPick.selectedItems.map(item => item.label));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!accepted) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * Returns the blocks a template and its ancestors define, which a child can override.
+ */
+async function getInheritedBlocks(project: AllayProject, parent: string): Promise<string[]> {
+    const uri = (await findTemplateFiles(parent)).find(file => isInSameProject(file, getConfigUri(project)));
+    if (!uri) {
+        return [];
+    }
+    const template = await readTemplate(uri);
+    const templates = [template, ...(await getAncestors(template)).ancestors];
+    return [...new Set(templates.flatMap(candidate => candidate.blocks.map(block => block.name)))];
+}
+
+/**
+ * Reads the first scaffold of the project that exists among `names`.
+ */
+async function readScaffold(project: AllayProject, names: string[]): Promise<string | undefined> {
+    for (const name of names) {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(project.root, SCAFFOLDS_DIR, name)));
+            return new TextDecoder().decode(bytes);
+        } catch {
+            // Not provided by the project
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Writes a new file and opens it, refusing to overwrite an existing one.
+ */
+async function createFile(uri: vscode.Uri, contents: string): Promise<void> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        const action = await vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(uri)} already exists.`, 'Open');
+        if (action) {
+            await vscode.window.showTextDocument(uri);
+        }
+        return;
+    } catch {
+        // The file does not exist yet
+    }
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(contents));
+    const editor = await vscode.window.showTextDocument(uri);
+    const end = editor.document.lineAt(editor.document.lineCount - 1).range.end;
+    editor.selection = new vscode.Selection(end, end);
+}
+
+function getConfigUri(project: AllayProject): vscode.Uri {
+    return vscode.Uri.file(path.join(project.root, CONFIG_FILE));
+}
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { getAllayDocument } from './allayDocument';
+import { SEMANTIC_TOKEN_MODIFIERS, SEMANTIC_TOKEN_TYPES, getSemanticTokens } from './parser';
+import { getFileStem, isInSameProject } from './workspace';
+import { findShortcodeFiles } from './workspaceIndex';
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend([...SEMANTIC_TOKEN_TYPES], [...SEMANTIC_TOKEN_MODIFIERS]);
+
+/**
+ * Semantic highlighting for Allay blocks on top of the injected grammar: keywords, built-ins,
+ * variables (marking declarations and undefined uses), fields, shortcodes (marking unknown ones)
+ * and comments.
+ */
+export class AllaySemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeSemanticTokens = this.changeEmitter.event;
+
+    /**
+     * Re-highlights open documents, e.g. after shortcode files were added or removed.
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public async provideDocumentSemanticTokens(document: vscode.TextDocument): Promise<vscode.SemanticTokens> {
+        const shortcodes = new Set((await findShortcodeFiles()).filter(file => isInSameProject(file, document.uri)).map(getFileStem));
+        const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+
+        for (const token of getSemanticTokens(getAllayDocument(document), name => shortcodes.has(name))) {
+            const start = document.positionAt(token.span.start);
+            const end = document.positionAt(token.span.end);
+            // Tokens cannot span lines, so multi-line comments are pushed line by line
+            for (let line = start.line; line <= end.line; line++) {
+                const from = line === start.line ? start.character : 0;
+                const to = line === end.line ? end.character : document.lineAt(line).text.length;
+                if (to > from) {
+                    builder.push(new vscode.Range(line, from, line, to), token.type, token.modifiers);
+                }
+            }
+        }
+        return builder.build();
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
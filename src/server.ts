@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { getAllayCli } from './allayCli';
+import { ServerProblems } from './serverProblems';
+import { findFreePort, isPortAvailable, waitForPort } from './ports';
+
+// How long to wait for `allay serve` to accept connections
+const READY_TIMEOUT = 20 * 1000;
+
+/**
+ * Lifecycle state of an Allay server. `crashed` covers both failed starts and unexpected exits.
+ */
+export type ServerState = 'stopped' | 'starting' | 'running' | 'crashed';
+
+/**
+ * Thrown when the Allay server cannot be started.
+ */
+export class ServerStartError extends Error { }
+
+/**
+ * An `allay serve` process for one project.
+ */
+export class AllayServer implements vscode.Disposable {
+    private process: ChildProcess | null = null;
+    private disposed = false;
+    private startCount = 0;
+    private readonly stateEmitter = new vscode.EventEmitter<ServerState>();
+
+    /** Fired whenever `state` changes. */
+    public readonly onDidChangeState = this.stateEmitter.event;
+
+    public state: ServerState = 'stopped';
+
+    /** Port the server listens on, set once `start` picked one. */
+    public port: number | undefined;
+
+    /** When the server became ready, for the uptime. */
+    public startedAt: number | undefined;
+
+    /** Why the server is `crashed`. */
+    public lastError: string | undefined;
+
+    constructor(
+        public readonly projectRoot: string,
+        private readonly logChannel: vscode.LogOutputChannel,
+        private readonly problems: ServerProblems
+    ) { }
+
+    public get isRunning(): boolean {
+        return this.process !== null;
+    }
+
+    /** Local URL of the server, once a port is known. */
+    public get url(): string | undefined {
+        return this.port === undefined ? undefined : `http://localhost:${this.port}`;
+    }
+
+    /**
+     * Picks a port, spawns the server and waits until it accepts connections.
+     * Rejects with a `ServerStartError` (and moves to `crashed`) if it cannot be started; a start
+     * superseded by another `start` or `stop` resolves to false without changing the state.
+     */
+    public async start(): Promise<boolean> {
+        const startId = ++this.startCount;
+
+        // If a server process is already running, kill it
+        this.killProcess();
+        this.lastError = undefined;
+        this.setState('starting');
+
+        try {
+            const port = await this.resolvePort();
+            if (startId !== this.startCount || this.disposed) {
+                return false;
+            }
+            this.port = port;
+            const serverProcess = this.spawn(port);
+
+            const ready = await waitForPort(port, READY_TIMEOUT, () => this.process !== serverProcess);
+            if (startId !== this.startCount) {
+                return false;
+            }
+            if (!ready) {
+                // The exit handler already recorded why a process died while starting
+                throw new ServerStartError(this.lastError ?? `The Allay server did not start listening on port ${port}. See the Allay log for details.`);
+            }
+
+            this.logChannel.info(`Allay server is listening on port ${port}.`);
+            this.startedAt = Date.now();
+            this.setState('running');
+            return true;
+        } catch (error) {
+            if (startId !== this.startCount) {
+                return false;
+            }
+            this.killProcess();
+            this.lastError = error instanceof Error ? error.message : String(error);
+            this.logChannel.error(this.lastError);
+            this.setState('crashed');
+            throw error instanceof ServerStartError ? error : new ServerStartError(this.lastError);
+        }
+    }
+
+    public stop(): void {
+        this.startCount++;
+        this.killProcess();
+        this.setState('stopped');
+    }
+
+    private spawn(port: number): ChildProcess {
+        // Get the path to the Allay server executable and the configured arguments and environment
+        const cli = getAllayCli(this.projectRoot);
+        const allayExecutable = cli.executable;
+        this.logChannel.info('Using Allay executable at: ' + allayExecutable);
+        this.logChannel.info(`Starting Allay server for ${this.projectRoot} on port ${port}.`);
+
+        this.problems.reset(this.projectRoot);
+
+        // Start a new Allay server process
+        const serverProcess = spawn(allayExecutable, cli.getArgs('serve', '--port', String(port)), {
+            cwd: this.projectRoot,
+            env: { ...process.env, ...cli.env },
+            shell: false // Set to false for security, and because we don't need shell features
+        });
+        this.process = serverProcess;
+
+        serverProcess.stdout?.on('data', (data) => {
+            this.logChannel.info(`Allay stdout: ${data}`);
+            this.problems.handleOutput('stdout', data.toString(), this.projectRoot);
+        });
+
+        serverProcess.stderr?.on('data', (data) => {
+            this.logChannel.error(`Allay stderr: ${data}`);
+            this.problems.handleOutput('stderr', data.toString(), this.projectRoot);
+        });
+
+        serverProcess.on('error', (error) => {
+            this.logChannel.error(`Failed to start Allay: ${error.message}`);
+            if (this.process === serverProcess) {
+                this.handleUnexpectedExit(`Failed to run ${allayExecutable}: ${error.message}`);
+            }
+        });
+
+        serverProcess.on('exit', (code, signal) => {
+            this.logChannel.info(`Allay server exited (code ${code}, signal ${signal}).`);
+            if (this.process === serverProcess) {
+                this.problems.flush(this.projectRoot);
+                this.handleUnexpectedExit(`The Allay server exited unexpectedly (${code !== null ? `code ${code}` : `signal ${signal}`}).`);
+            }
+        });
+
+        return serverProcess;
+    }
+
+    /**
+     * The current process ended without `stop` being called.
+     */
+    private handleUnexpectedExit(message: string): void {
+        this.process = null;
+        this.startedAt = undefined;
+        this.lastError = message;
+        // A start in progress notices the exit and reports it itself
+        if (this.state === 'running') {
+            this.logChannel.error(message);
+            this.setState('crashed');
+        }
+    }
+
+    private killProcess(): void {
+        this.startedAt = undefined;
+        if (this.process) {
+            this.logChannel.info('Killing existing Allay server process.');
+            const serverProcess = this.process;
+            this.process = null;
+            serverProcess.kill();
+        }
+    }
+
+    private setState(state: ServerState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this.stateEmitter.fire(state);
+        }
+    }
+
+    /**
+     * Uses the `allay.port` setting if set, otherwise a free port chosen by the system.
+     */
+    private async resolvePort(): Promise<number> {
+        const configured = vscode.workspace.getConfiguration('allay').get<number | null>('port');
+        if (configured) {
+            if (!await isPortAvailable(configured)) {
+                throw new ServerStartError(`Port ${configured} is already in use. Change the \`allay.port\` setting or clear it to pick a free port automatically.`);
+            }
+            return configured;
+        }
+        return findFreePort();
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.startCount++;
+        this.killProcess();
+        this.stateEmitter.dispose();
+    }
+}
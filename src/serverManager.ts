@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { AllayServer } from './server';
+import { ServerProblems } from './serverProblems';
+import { getProjectName } from './projects';
+
+/**
+ * Owns one Allay server per project, reports unexpected exits and tells the status bar, the
+ * Allay Control view and the previews when a server changes state.
+ */
+export class ServerManager implements vscode.Disposable {
+    private readonly servers = new Map<string, { server: AllayServer; subscription: vscode.Disposable }>();
+    private readonly changeEmitter = new vscode.EventEmitter<AllayServer | undefined>();
+    private activeRoot: string | undefined;
+    private lastStarted: AllayServer | undefined;
+
+    /** Fired when a server is added, changes state, or the active project changes. */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private readonly logChannel: vscode.LogOutputChannel,
+        private readonly problems: ServerProblems
+    ) { }
+
+    /**
+     * The server of the active project, falling back to the server started last.
+     */
+    public get current(): AllayServer | undefined {
+        return (this.activeRoot ? this.get(this.activeRoot) : undefined) ?? this.lastStarted;
+    }
+
+    /**
+     * Sets the project whose server the status bar shows, e.g. the one containing the active editor.
+     */
+    public setActiveProject(projectRoot: string | undefined): void {
+        if (projectRoot !== this.activeRoot) {
+            this.activeRoot = projectRoot;
+            this.changeEmitter.fire(this.current);
+        }
+    }
+
+    public get all(): AllayServer[] {
+        return [...this.servers.values()].map(entry => entry.server);
+    }
+
+    public get(projectRoot: string): AllayServer | undefined {
+        return this.servers.get(projectRoot)?.server;
+    }
+
+    /**
+     * Returns the server of a project, creating it (stopped) if needed.
+     */
+    public getServer(projectRoot: string): AllayServer {
+        const existing = this.get(projectRoot);
+        if (existing) {
+            return existing;
+        }
+
+        const server = new AllayServer(projectRoot, this.logChannel, this.problems);
+        const subscription = server.onDidChangeState(state => {
+            this.changeEmitter.fire(server);
+            if (state === 'crashed') {
+                this.reportCrash(server);
+            }
+        });
+        this.servers.set(projectRoot, { server, subscription });
+        this.changeEmitter.fire(server);
+        return server;
+    }
+
+    /**
+     * Starts a server without throwing; failures are reported through the `crashed` state.
+     */
+    public async start(server: AllayServer): Promise<void> {
+        this.lastStarted = server;
+        try {
+            await server.start();
+        } catch {
+            // Reported by reportCrash
+        }
+    }
+
+    private async reportCrash(server: AllayServer): Promise<void> {
+        const message = server.lastError ?? 'The Allay server stopped unexpectedly.';
+        const prefix = this.servers.size > 1 ? `${getProjectName(server.projectRoot)}: ` : '';
+        const choice = await vscode.window.showErrorMessage(prefix + message, 'Restart', 'Show Log');
+        if (choice === 'Restart' && this.get(server.projectRoot) === server) {
+            await this.start(server);
+        } else if (choice === 'Show Log') {
+            this.logChannel.show();
+        }
+    }
+
+    dispose(): void {
+        this.servers.forEach(({ server, subscription }) => {
+            subscription.dispose();
+            server.dispose();
+        });
+        this.servers.clear();
+        this.changeEmitter.dispose();
+    }
+}
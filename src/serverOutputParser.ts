@@ -0,0 +1,154 @@
+/**
+ * An error reported by the Allay server. Line and column are 1-based as printed by the server.
+ */
+export interface ServerError {
+    file?: string;
+    line?: number;
+    column?: number;
+    message: string;
+}
+
+export type ServerOutputEvent =
+    | { kind: 'error'; error: ServerError }
+    | { kind: 'success' };
+
+// Escape sequences used for colored terminal output
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+// Log prefixes such as "[2025-01-01T00:00:00Z ERROR allay::build]" or "ERROR allay:"
+const LOG_PREFIX_PATTERN = /^\s*(?:\[[^\]]*\]\s*)?(?:\d{4}-\d\d-\d\d\S*\s+)?(?:(?:ERROR|WARN|INFO|DEBUG|TRACE)\s+)?(?:[\w:]+:\s+)?/;
+
+// "content/posts/a.md:12:5: message" anywhere in a line
+const FILE_LOCATION_PATTERN = /([^\s:'"`()]+\.(?:md|markdown|html?|toml)):(\d+)(?::(\d+))?/;
+
+// Pest-style location marker: " --> 12:5" or " --> templates/base.html:12:5"
+const ARROW_PATTERN = /^\s*-->\s*(?:(.+?):)?(\d+):(\d+)\s*$/;
+
+// Pest-style snippet lines: "  |", "12 | {- if -}", "  |     ^---"
+const SNIPPET_PATTERN = /^\s*(?:\d+\s*)?\|/;
+
+const NOTE_PATTERN = /^\s*=\s*(.+)$/;
+
+const FILE_MENTION_PATTERN = /([^\s:'"`()]+\.(?:md|markdown|html?|toml))/;
+
+const ERROR_PATTERN = /\b(?:error|panic(?:ked)?|failed)\b/i;
+
+const SUCCESS_PATTERN = /\b(?:rebuilt|built successfully|build (?:succeeded|finished|completed?)|generated \d+|serving (?:at|on)|listening (?:at|on))\b/i;
+
+/**
+ * Removes the color codes from a line of terminal output.
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Turns the raw stdout/stderr stream of `allay serve` into structured errors.
+ * Output arrives in arbitrary chunks, so incomplete lines are buffered until the next write.
+ */
+export class ServerOutputParser {
+    private buffer = '';
+    private lastMessage: string | undefined;
+    private lastFile: string | undefined;
+    private pending: ServerError | undefined;
+
+    public write(chunk: string): ServerOutputEvent[] {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+
+        const events: ServerOutputEvent[] = [];
+        lines.forEach(line => this.parseLine(line, events));
+        return events;
+    }
+
+    /**
+     * Processes any buffered partial line and pending error, e.g. when the process exits.
+     */
+    public flush(): ServerOutputEvent[] {
+        const events: ServerOutputEvent[] = [];
+        if (this.buffer) {
+            this.parseLine(this.buffer, events);
+            this.buffer = '';
+        }
+        this.emitPending(events);
+        return events;
+    }
+
+    public reset(): void {
+        this.buffer = '';
+        this.lastMessage = undefined;
+        this.lastFile = undefined;
+        this.pending = undefined;
+    }
+
+    private parseLine(rawLine: string, events: ServerOutputEvent[]): void {
+        const line = stripAnsi(rawLine);
+
+        // Continuation of a pest-style error report
+        if (this.pending) {
+            const note = line.match(NOTE_PATTERN);
+            if (note) {
+                this.pending.message = note[1].trim();
+                this.emitPending(events);
+                return;
+            }
+            if (SNIPPET_PATTERN.test(line)) {
+                return;
+            }
+            this.emitPending(events);
+        }
+
+        if (!line.trim()) {
+            return;
+        }
+
+        if (SUCCESS_PATTERN.test(line)) {
+            this.lastMessage = undefined;
+            this.lastFile = undefined;
+            events.push({ kind: 'success' });
+            return;
+        }
+
+        const arrow = line.match(ARROW_PATTERN);
+        if (arrow) {
+            this.pending = {
+                file: arrow[1] ?? this.lastFile,
+                line: Number(arrow[2]),
+                column: Number(arrow[3]),
+                message: this.lastMessage ?? 'Allay error',
+            };
+            return;
+        }
+
+        const message = line.replace(LOG_PREFIX_PATTERN, '').trim();
+        const location = line.match(FILE_LOCATION_PATTERN);
+        if (location) {
+            const rest = line.slice(line.indexOf(location[0]) + location[0].length).replace(/^[\s:\-]+/, '').trim();
+            events.push({
+                kind: 'error',
+                error: {
+                    file: location[1],
+                    line: Number(location[2]),
+                    column: location[3] ? Number(location[3]) : undefined,
+                    message: rest || message,
+                },
+            });
+            return;
+        }
+
+        if (ERROR_PATTERN.test(line)) {
+            // The location may follow on a later line, keep the context around
+            this.lastMessage = message;
+            this.lastFile = line.match(FILE_MENTION_PATTERN)?.[1];
+            events.push({ kind: 'error', error: { file: this.lastFile, message } });
+        }
+    }
+
+    private emitPending(events: ServerOutputEvent[]): void {
+        if (this.pending) {
+            events.push({ kind: 'error', error: this.pending });
+            this.pending = undefined;
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ServerError, ServerOutputEvent, ServerOutputParser } from './serverOutputParser';
+
+interface ProjectProblems {
+    parsers: { stdout: ServerOutputParser; stderr: ServerOutputParser };
+    errors: Map<string, vscode.Diagnostic[]>;
+    unlocatedErrors: number;
+}
+
+// Minimum time between two error notifications
+const NOTIFICATION_INTERVAL = 30 * 1000;
+
+/**
+ * Maps errors printed by `allay serve` or `allay build` to Problems-panel diagnostics.
+ * Diagnostics are kept until the command reports a successful rebuild; instead of a popup per
+ * stderr chunk, a status bar item shows the current error count. The server and builds each get
+ * their own instance, so a build neither clears nor mixes into the output of a running server.
+ */
+export class ServerProblems implements vscode.Disposable {
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    private readonly projects = new Map<string, ProjectProblems>();
+    private lastNotification = 0;
+
+    constructor(
+        private readonly logChannel: vscode.LogOutputChannel,
+        private readonly command: 'serve' | 'build' = 'serve'
+    ) {
+        this.collection = vscode.languages.createDiagnosticCollection(command === 'serve' ? 'allay-server' : 'allay-build');
+        this.statusItem.command = 'workbench.actions.view.problems';
+        this.statusItem.name = command === 'serve' ? 'Allay Errors' : 'Allay Build Errors';
+    }
+
+    /**
+     * Clears the errors of a project, e.g. when its server is (re)started or a build begins.
+     */
+    public reset(projectRoot: string): void {
+        const problems = this.getProject(projectRoot);
+        problems.parsers.stdout.reset();
+        problems.parsers.stderr.reset();
+        this.clear(projectRoot);
+    }
+
+    public handleOutput(stream: 'stdout' | 'stderr', data: string, projectRoot: string): void {
+        this.handleEvents(this.getProject(projectRoot).parsers[stream].write(data), projectRoot);
+    }
+
+    /**
+     * Processes output still buffered when the process exits.
+     */
+    public flush(projectRoot: string): void {
+        const { parsers } = this.getProject(projectRoot);
+        this.handleEvents([...parsers.stdout.flush(), ...parsers.stderr.flush()], projectRoot);
+    }
+
+    private getProject(projectRoot: string): ProjectProblems {
+        let problems = this.projects.get(projectRoot);
+        if (!problems) {
+            problems = {
+                parsers: { stdout: new ServerOutputParser(), stderr: new ServerOutputParser() },
+                errors: new Map(),
+                unlocatedErrors: 0,
+            };
+            this.projects.set(projectRoot, problems);
+        }
+        return problems;
+    }
+
+    private handleEvents(events: ServerOutputEvent[], projectRoot: string): void {
+        if (events.length === 0) {
+            return;
+        }
+        for (const event of events) {
+            if (event.kind === 'success') {
+                this.clear(projectRoot);
+            } else {
+                this.addError(event.error, projectRoot);
+            }
+        }
+        this.update();
+    }
+
+    private addError(error: ServerError, projectRoot: string): void {
+        const problems = this.getProject(projectRoot);
+        if (!error.file || error.line === undefined) {
+            problems.unlocatedErrors++;
+            this.notify(error.message);
+            return;
+        }
+
+        const filePath = path.isAbsolute(error.file) ? error.file : path.join(projectRoot, error.file);
+        const uri = vscode.Uri.file(filePath);
+        const line = Math.max(error.line - 1, 0);
+        const column = Math.max((error.column ?? 1) - 1, 0);
+        const range = new vscode.Range(line, column, line, error.column === undefined ? Number.MAX_SAFE_INTEGER : column + 1);
+
+        const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = `allay ${this.command}`;
+
+        const key = uri.toString();
+        const existing = problems.errors.get(key) ?? [];
+        if (!existing.some(d => d.range.isEqual(range) && d.message === diagnostic.message)) {
+            existing.push(diagnostic);
+            problems.errors.set(key, existing);
+            this.collection.set(uri, existing);
+            this.notify(`${vscode.workspace.asRelativePath(uri)}:${error.line}: ${error.message}`);
+        }
+    }
+
+    private clear(projectRoot: string): void {
+        const problems = this.getProject(projectRoot);
+        if (problems.errors.size > 0 || problems.unlocatedErrors > 0) {
+            this.logChannel.info(`Allay rebuilt successfully, clearing \`allay ${this.command}\` errors.`);
+        }
+        problems.errors.forEach((_, key) => this.collection.delete(vscode.Uri.parse(key)));
+        problems.errors.clear();
+        problems.unlocatedErrors = 0;
+        this.update();
+    }
+
+    private update(): void {
+        let count = 0;
+        this.projects.forEach(problems => {
+            count += problems.unlocatedErrors;
+            problems.errors.forEach(diagnostics => count += diagnostics.length);
+        });
+
+        if (count === 0) {
+            this.statusItem.hide();
+            return;
+        }
+        this.statusItem.text = this.command === 'serve' ? `$(error) Allay: ${count}` : `$(error) Allay build: ${count}`;
+        this.statusItem.tooltip = `${count} error(s) reported by ${this.command === 'serve' ? 'the Allay server' : '`allay build`'}`;
+        this.statusItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+        this.statusItem.show();
+    }
+
+    /**
+     * Shows at most one error notification per interval, the rest only update the status bar.
+     */
+    private async notify(message: string): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastNotification < NOTIFICATION_INTERVAL) {
+            return;
+        }
+        this.lastNotification = now;
+
+        const choice = await vscode.window.showErrorMessage(`Allay error: ${message}`, 'Show Problems', 'Show Log');
+        if (choice === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else if (choice === 'Show Log') {
+            this.logChannel.show();
+        }
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+        this.statusItem.dispose();
+    }
+}
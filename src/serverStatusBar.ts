@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { ServerManager } from './serverManager';
+import { AllayProjects, getProjectName } from './projects';
+
+/**
+ * Status bar item showing whether the Allay server is stopped, starting, running or crashed.
+ * Clicking it starts or stops the server. It is only shown while the workspace has an Allay
+ * project, or a server is still running.
+ */
+export class ServerStatusBar implements vscode.Disposable {
+    private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    private readonly subscriptions: vscode.Disposable[];
+
+    constructor(private readonly manager: ServerManager, private readonly projects: AllayProjects) {
+        this.item.name = 'Allay Server';
+        this.item.command = 'allay.toggleServer';
+        this.subscriptions = [
+            manager.onDidChange(() => {
+                this.update();
+                this.updateVisibility();
+            }),
+            projects.onDidChange(() => this.updateVisibility()),
+        ];
+        this.update();
+        this.updateVisibility();
+    }
+
+    private async updateVisibility(): Promise<void> {
+        const projects = await this.projects.getProjects();
+        if (projects.length > 0 || this.manager.all.some(server => server.state !== 'stopped')) {
+            this.item.show();
+        } else {
+            this.item.hide();
+        }
+    }
+
+    private update(): void {
+        const server = this.manager.current;
+        // Name the project once several have a server
+        const label = server && this.manager.all.length > 1 ? `Allay (${getProjectName(server.projectRoot)})` : 'Allay';
+        this.item.backgroundColor = undefined;
+        switch (server?.state ?? 'stopped') {
+            case 'starting':
+                this.item.text = `$(loading~spin) ${label}: Starting`;
+                this.item.tooltip = 'The Allay server is starting. Click to stop it.';
+                break;
+            case 'running':
+                this.item.text = `$(radio-tower) ${label}: ${server?.port}`;
+                this.item.tooltip = `The Allay server is running at ${server?.url}. Click to stop it.`;
+                break;
+            case 'crashed':
+                this.item.text = `$(error) ${label}: Crashed`;
+                this.item.tooltip = `${server?.lastError ?? 'The Allay server stopped unexpectedly.'} Click to restart it.`;
+                this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                break;
+            default:
+                this.item.text = `$(circle-slash) ${label}: Stopped`;
+                this.item.tooltip = 'The Allay server is stopped. Click to start it.';
+                break;
+        }
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.item.dispose();
+    }
+}
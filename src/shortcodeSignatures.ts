@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { toRange } from './allayDocument';
+import { AllayDocument, ShortcodeParameter, ShortcodeSignature, getShortcodeSignature, matchArguments } from './parser';
+import { SourceFile, preferSameProject } from './workspace';
+import { findShortcodeFiles } from './workspaceIndex';
+
+/**
+ * A shortcode file with the parameters it reads.
+ */
+export interface ShortcodeInfo {
+    name: string;
+    file: SourceFile;
+    signature: ShortcodeSignature;
+}
+
+/**
+ * Reads the signature of a shortcode, preferring the shortcode of the project containing `near`.
+ */
+export async function readShortcode(name: string, near: vscode.Uri): Promise<ShortcodeInfo | undefined> {
+    const uri = preferSameProject(await findShortcodeFiles(name), near);
+    if (!uri) {
+        return undefined;
+    }
+    const file = await SourceFile.read(uri);
+    return { name, file, signature: getShortcodeSignature(file.allayDocument) };
+}
+
+/**
+ * Describes a parameter for completion and signature help, e.g. `required` or `default: ""`.
+ */
+export function describeParameter(parameter: ShortcodeParameter): string {
+    if (parameter.defaultValue !== undefined) {
+        return `default: ${parameter.defaultValue}`;
+    }
+    return parameter.required ? 'required' : 'optional';
+}
+
+/**
+ * Warns about shortcode calls passing parameters the shortcode does not read, or leaving out
+ * parameters it always reads.
+ */
+export async function validateShortcodeCalls(document: vscode.TextDocument, allayDocument: AllayDocument): Promise<vscode.Diagnostic[]> {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const shortcodes = new Map<string, Promise<ShortcodeInfo | undefined>>();
+
+    for (const block of allayDocument.blocks) {
+        if (block.kind !== 'shortcode' || block.closing || !block.name || !block.close) {
+            continue;
+        }
+        const name = block.name.name;
+        if (!shortcodes.has(name)) {
+            shortcodes.set(name, readShortcode(name, document.uri));
+        }
+        const shortcode = await shortcodes.get(name);
+        if (!shortcode) {
+            continue;
+        }
+
+        const warn = (range: vscode.Range, message: string, code: string) => {
+            const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'allay';
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        const match = matchArguments(shortcode.signature, block.args);
+        for (const arg of match.unknown) {
+            if (arg.name) {
+                warn(toRange(document, arg.name.span), `Shortcode "${name}" has no parameter "${arg.name.name}".`, 'unknown-parameter');
+            }
+        }
+        for (const arg of match.extra) {
+            const count = shortcode.signature.parameters.length;
+            warn(toRange(document, arg.span), `Shortcode "${name}" takes ${count} parameter${count === 1 ? '' : 's'}.`, 'extra-argument');
+        }
+        if (match.missing.length > 0) {
+            const names = match.missing.map(parameter => `"${parameter.name}"`).join(', ');
+            warn(toRange(document, block.name.span), `Shortcode "${name}" is missing required parameter${match.missing.length === 1 ? '' : 's'} ${names}.`, 'missing-parameter');
+        }
+    }
+    return diagnostics;
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { getAllayDocument } from './allayDocument';
+import { findBlockAt, getActiveArgument } from './parser';
+import { describeParameter, readShortcode } from './shortcodeSignatures';
+
+/**
+ * Shows the parameters of a shortcode while typing its arguments, e.g.
+ * `{< figure src caption="" >}` with the parameter under the cursor highlighted.
+ * Positional arguments bind to the parameters in order, named ones by name.
+ */
+export class AllaySignatureHelpProvider implements vscode.SignatureHelpProvider {
+
+    public async provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.SignatureHelp | undefined> {
+        const offset = document.offsetAt(position);
+        const block = findBlockAt(getAllayDocument(document), offset);
+        if (block?.kind !== 'shortcode' || block.closing || !block.name || offset <= block.name.span.end) {
+            return undefined;
+        }
+
+        const shortcode = await readShortcode(block.name.name, document.uri);
+        if (!shortcode || shortcode.signature.parameters.length === 0) {
+            return undefined;
+        }
+        const parameters = shortcode.signature.parameters;
+
+        // Build the label while recording where each parameter sits in it
+        let label = `{< ${block.name.name}`;
+        const parameterInfos = parameters.map(parameter => {
+            label += ' ';
+            const start = label.length;
+            label += parameter.defaultValue !== undefined ? `${parameter.name}=${parameter.defaultValue}` : parameter.name;
+            return new vscode.ParameterInformation([start, label.length], describeParameter(parameter));
+        });
+        label += ' >}';
+
+        const signature = new vscode.SignatureInformation(label, new vscode.MarkdownString(
+            `Shortcode defined in \`${vscode.workspace.asRelativePath(shortcode.file.uri)}\`.\n\n` +
+            'Pass arguments by position in this order, or by name as `name=value`.'
+        ));
+        signature.parameters = parameterInfos;
+
+        const active = getActiveArgument(block, offset);
+        const index = active.name !== undefined
+            ? parameters.findIndex(parameter => parameter.name === active.name)
+            : active.position;
+        signature.activeParameter = index >= 0 && index < parameters.length ? index : parameters.length;
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        return help;
+    }
+}
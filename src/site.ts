@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FrontMatter } from './frontMatter';
+import { AllayType, Field, ObjectType, mergeTypes, UNKNOWN } from './parser';
+import { TomlDocument, TomlEntry, findTomlEntry } from './toml';
+
+/**
+ * Directory of an Allay project holding the pages.
+ */
+export const CONTENT_DIR = 'content';
+
+/**
+ * File marking the root of an Allay project.
+ */
+export const CONFIG_FILE = 'allay.toml';
+
+export interface ProjectDirectory {
+    name: string;
+    purpose: string;
+}
+
+/**
+ * Directories every Allay project is expected to have, with what they are for.
+ */
+export const PROJECT_DIRECTORIES: ProjectDirectory[] = [
+    { name: 'templates', purpose: 'page layouts used to render the content' },
+    { name: 'shortcodes', purpose: 'shortcodes used in pages' },
+    { name: CONTENT_DIR, purpose: 'the Markdown and HTML pages of the site' },
+];
+
+/**
+ * Resolves a path below `site`, e.g. `['Params', 'social']` for `site.Params.social`, to its entry
+ * in `allay.toml`. Keys of the `[Params]` table are also available directly on `site`, but root
+ * keys take precedence.
+ */
+export function findSiteEntry(config: TomlDocument, path: string[]): TomlEntry | undefined {
+    return findTomlEntry(config.entries, path) ?? findTomlEntry(getParams(config), path);
+}
+
+/**
+ * Lists the fields of `site` or of a table below it.
+ */
+export function getSiteFields(config: TomlDocument, path: string[]): TomlEntry[] {
+    if (path.length === 0) {
+        const rootKeys = new Set(config.entries.map(entry => entry.key));
+        return [...config.entries, ...getParams(config).filter(entry => !rootKeys.has(entry.key))];
+    }
+    const entry = findSiteEntry(config, path);
+    return entry?.type === 'table' ? entry.children : [];
+}
+
+/**
+ * Returns the type of `site`, with the type and value of each key of `allay.toml`.
+ */
+export function getSiteType(config: TomlDocument): ObjectType {
+    return { kind: 'object', name: 'site', fields: toFields(getSiteFields(config, [])) };
+}
+
+// Longest config value shown next to a field
+const MAX_VALUE_LENGTH = 40;
+
+function toFields(entries: TomlEntry[]): { [name: string]: Field } {
+    const fields: { [name: string]: Field } = {};
+    for (const entry of entries) {
+        const value = entry.raw.replace(/\s+/g, ' ');
+        fields[entry.key] = {
+            type: typeOfTomlEntry(entry),
+            detail: value && entry.type !== 'table'
+                ? `${entry.type} = ${value.length > MAX_VALUE_LENGTH ? value.slice(0, MAX_VALUE_LENGTH) + '…' : value}`
+                : entry.type,
+            documentation: `Set in \`${CONFIG_FILE}\` on line ${entry.line + 1}.`,
+        };
+    }
+    return fields;
+}
+
+function typeOfTomlEntry(entry: TomlEntry): AllayType {
+    switch (entry.type) {
+        case 'table':
+            return { kind: 'object', fields: toFields(entry.children) };
+        case 'array':
+            return { kind: 'list', element: entry.items.map(typeOfTomlEntry).reduce(mergeTypes, UNKNOWN) };
+        case 'integer':
+        case 'float':
+            return { kind: 'scalar', name: 'number' };
+        case 'datetime':
+            return { kind: 'scalar', name: 'date' };
+        default:
+            return { kind: 'scalar', name: entry.type };
+    }
+}
+
+function getParams(config: TomlDocument): TomlEntry[] {
+    return config.entries.find(entry => entry.key.toLowerCase() === 'params' && entry.type === 'table')?.children ?? [];
+}
+
+const PAGE_EXTENSIONS = ['.md', '.markdown', '.html', '.htm'];
+
+/**
+ * Returns the URL path of the page generated from a content file, e.g. `content/posts/foo.md`
+ * becomes `/posts/foo/` and `content/posts/index.md` becomes `/posts/`. A `url` in the front
+ * matter takes precedence. Returns undefined for files outside the content directory.
+ */
+export function getPageUrl(projectRoot: string, filePath: string, frontMatter?: FrontMatter): string | undefined {
+    const relative = path.relative(path.join(projectRoot, CONTENT_DIR), filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+
+    const url = frontMatter?.data.url;
+    if (typeof url === 'string' && url.trim()) {
+        return normalizeUrl(url.trim());
+    }
+
+    const parsed = path.parse(relative);
+    if (!PAGE_EXTENSIONS.includes(parsed.ext.toLowerCase())) {
+        return undefined;
+    }
+    const segments = parsed.dir ? parsed.dir.split(path.sep) : [];
+    if (parsed.name !== 'index') {
+        segments.push(parsed.name);
+    }
+    return segments.length === 0 ? '/' : `/${segments.map(encodeURIComponent).join('/')}/`;
+}
+
+/**
+ * Makes a URL path absolute; external URLs are returned unchanged.
+ */
+export function normalizeUrl(url: string): string {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+        return url;
+    }
+    return url.startsWith('/') ? url : `/${url}`;
+}
+
+/**
+ * Converts a heading into the anchor id used for it, e.g. `Getting Started!` becomes `getting-started`.
+ */
+export function slugify(text: string): string {
+    return text
+        .trim()
+        .toLowerCase()
+        .replace(/<[^>]*>/g, '')
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .replace(/\s+/g, '-');
+}
+
+/**
+ * Returns the innermost project root containing a file, or undefined if no root does.
+ */
+export function findProjectRoot(projectRoots: string[], filePath: string): string | undefined {
+    let best: string | undefined;
+    for (const root of projectRoots) {
+        const relative = path.relative(root, filePath);
+        const inside = !relative.startsWith('..') && !path.isAbsolute(relative);
+        if (inside && (!best || root.length > best.length)) {
+            best = root;
+        }
+    }
+    return best;
+}
+
+/**
+ * Lists the expected project directories missing from a project root.
+ */
+export async function findMissingDirectories(projectRoot: string): Promise<ProjectDirectory[]> {
+    const missing: ProjectDirectory[] = [];
+    for (const directory of PROJECT_DIRECTORIES) {
+        try {
+            const stat = await fs.promises.stat(path.join(projectRoot, directory.name));
+            if (!stat.isDirectory()) {
+                missing.push(directory);
+            }
+        } catch {
+            missing.push(directory);
+        }
+    }
+    return missing;
+}
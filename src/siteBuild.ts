@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { getAllayCli } from './allayCli';
+import { DEFAULT_OUTPUT_DIR, findOutputDirectory } from './cliParser';
+import { AllayProject } from './projects';
+import { stripAnsi } from './serverOutputParser';
+import { ServerProblems } from './serverProblems';
+
+// Longest progress message shown in the notification
+const MAX_PROGRESS_LENGTH = 80;
+
+/**
+ * Runs `allay build` for a project with a progress notification showing the latest output line.
+ * Errors go to the Problems panel through the build's own `problems`; on success the output folder is
+ * reported with an offer to reveal it. Resolves to whether the build succeeded.
+ */
+export async function buildSite(project: AllayProject, logChannel: vscode.LogOutputChannel, problems: ServerProblems): Promise<boolean> {
+    const cli = getAllayCli(project.root);
+    const args = cli.getArgs('build');
+    const outputDir = path.resolve(project.root, findOutputDirectory(args) ?? DEFAULT_OUTPUT_DIR);
+    const startedAt = Date.now();
+
+    logChannel.info(`Building ${project.root}: ${cli.executable} ${args.join(' ')}`);
+    problems.reset(project.root);
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Building ${project.name}`,
+        cancellable: true,
+    }, (progress, token) => new Promise<{ code: number | null; cancelled: boolean; reason?: string }>(resolve => {
+        const buildProcess = spawn(cli.executable, args, { cwd: project.root, env: { ...process.env, ...cli.env }, shell: false });
+        token.onCancellationRequested(() => buildProcess.kill());
+
+        const handle = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+            const text = data.toString();
+            if (stream === 'stdout') {
+                logChannel.info(`Allay build stdout: ${text}`);
+            } else {
+                logChannel.error(`Allay build stderr: ${text}`);
+            }
+            problems.handleOutput(stream, text, project.root);
+            const last = stripAnsi(text).split(/\r?\n/).map(line => line.trim()).filter(Boolean).pop();
+            if (last) {
+                progress.report({ message: last.length > MAX_PROGRESS_LENGTH ? `${last.slice(0, MAX_PROGRESS_LENGTH - 1)}…` : last });
+            }
+        };
+        buildProcess.stdout?.on('data', handle('stdout'));
+        buildProcess.stderr?.on('data', handle('stderr'));
+        // A process that cannot be spawned reports `error` first, so the later `close` changes nothing
+        buildProcess.on('error', error => resolve({ code: null, cancelled: false, reason: `could not run ${cli.executable}: ${error.message}` }));
+        buildProcess.on('close', (code, signal) => resolve({
+            code,
+            cancelled: token.isCancellationRequested,
+            reason: code !== null ? `exit code ${code}` : `signal ${signal}`,
+        }));
+    }));
+    problems.flush(project.root);
+
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+    if (result.code === 0) {
+        const relative = path.relative(project.root, outputDir).split(path.sep).join('/') || '.';
+        logChannel.info(`Built ${project.root} into ${outputDir} in ${seconds} s.`);
+        vscode.window.showInformationMessage(`Built ${project.name} into ${relative}/ in ${seconds} s.`, 'Reveal in Explorer').then(action => {
+            if (action) {
+                vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(outputDir));
+            }
+        });
+        return true;
+    }
+
+    if (result.cancelled) {
+        logChannel.info(`Build of ${project.root} was cancelled.`);
+        return false;
+    }
+    logChannel.error(`Build of ${project.root} failed: ${result.reason}.`);
+    vscode.window.showErrorMessage(`Building ${project.name} failed: ${result.reason}.`, 'Show Problems', 'Show Log').then(action => {
+        if (action === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        } else if (action === 'Show Log') {
+            logChannel.show();
+        }
+    });
+    return false;
+}
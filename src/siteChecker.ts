@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isAllayDocument } from './allayDocument';
+import { parseFrontMatter } from './frontMatter';
+import { findLinks, isPagePath, isPageSourceLink, normalizePagePath, resolveLinkPath } from './links';
+import { getShortcodeReferences, getTemplateReferences } from './parser';
+import { AllayProject, AllayProjects } from './projects';
+import { CONTENT_DIR, findProjectRoot, getPageUrl } from './site';
+import { SourceFile, getFileKind, isInSameProject } from './workspace';
+import { WorkspaceIndex } from './workspaceIndex';
+
+/**
+ * Folder of a project whose files are copied to the site as they are, e.g. `static/img/logo.png`
+ * is served at `/img/logo.png`.
+ */
+export const STATIC_DIR = 'static';
+
+/**
+ * What links of one project are checked against, gathered once per check.
+ */
+interface SiteInfo {
+    project: AllayProject;
+    /** Normalized URL paths of the pages. */
+    pageUrls: Set<string>;
+    /** Whether a file exists, by path, so each file is looked up once. */
+    files: Map<string, Promise<boolean>>;
+}
+
+/**
+ * Checks that links lead to a page or file of the site, that images and other assets exist in
+ * `static/` or `content/`, and that `include`/`extends` targets and shortcodes exist. Files are
+ * checked when saved and all at once with `Allay: Check Site`; the results go to the Problems panel.
+ */
+export class SiteChecker implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('allay-links');
+    private readonly disposables: vscode.Disposable[] = [this.collection];
+
+    constructor(
+        private readonly projects: AllayProjects,
+        private readonly index: WorkspaceIndex,
+        private readonly logChannel: vscode.LogOutputChannel
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.checkDocument(document).catch(error => {
+                this.logChannel.warn(`Could not check links of ${document.uri.fsPath}: ${error instanceof Error ? error.message : error}`);
+            })),
+            // A deleted folder is reported once, so drop the results of the files below it as well
+            index.onDidDelete(deleted => this.collection.forEach(uri => {
+                if (uri.fsPath === deleted.fsPath || uri.fsPath.startsWith(deleted.fsPath + path.sep)) {
+                    this.collection.delete(uri);
+                }
+            }))
+        );
+    }
+
+    public async checkDocument(document: vscode.TextDocument): Promise<void> {
+        const project = document.uri.scheme === 'file' && isAllayDocument(document) ? this.projects.findProject(document.uri) : undefined;
+        if (!project || getFileKind(document.uri) === 'other') {
+            return;
+        }
+        const site = await this.readSite(project);
+        this.collection.set(document.uri, await this.checkFile(await SourceFile.read(document.uri), site));
+    }
+
+    /**
+     * Checks every page, template and shortcode of a project. Resolves to the number of files
+     * checked and problems found, or undefined when cancelled.
+     */
+    public async checkSite(project: AllayProject): Promise<{ files: number; problems: number } | undefined> {
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Checking ${project.name}`,
+            cancellable: true,
+        }, async (progress, token) => {
+            const site = await this.readSite(project);
+            const roots = (await this.projects.getProjects()).map(candidate => candidate.root);
+            const files = (await this.index.findSourceFiles()).filter(uri => findProjectRoot(roots, uri.fsPath) === project.root);
+
+            const results: [vscode.Uri, vscode.Diagnostic[]][] = [];
+            for (const uri of files) {
+                if (token.isCancellationRequested) {
+                    return undefined;
+                }
+                progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+                results.push([uri, await this.checkFile(await SourceFile.read(uri), site)]);
+            }
+
+            // Replace the results of earlier checks of this project, including files that are gone
+            this.collection.forEach(uri => {
+                if (findProjectRoot(roots, uri.fsPath) === project.root) {
+                    this.collection.delete(uri);
+                }
+            });
+            this.collection.set(results);
+            return { files: files.length, problems: results.reduce((sum, [, diagnostics]) => sum + diagnostics.length, 0) };
+        });
+    }
+
+    private async readSite(project: AllayProject): Promise<SiteInfo> {
+        const pageUrls = new Set<string>();
+        for (const page of await this.index.findPages(project.root)) {
+            const url = getPageUrl(project.root, page.uri.fsPath, page.frontMatter);
+            if (url) {
+                pageUrls.add(normalizePagePath(url));
+            }
+        }
+        return { project, pageUrls, files: new Map() };
+    }
+
+    private async checkFile(file: SourceFile, site: SiteInfo): Promise<vscode.Diagnostic[]> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const warn = (start: number, end: number, message: string, code: string) => {
+            const diagnostic = new vscode.Diagnostic(file.rangeOf({ start, end }), message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'allay';
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        // Relative links are resolved against the page's URL; templates and shortcodes render on many pages
+        const pageUrl = getPageUrl(site.project.root, file.uri.fsPath, parseFrontMatter(file.text));
+        const directory = path.dirname(file.uri.fsPath);
+        const blocks = file.allayDocument.blocks;
+        const links = findLinks(file.text, /\.(?:md|markdown)$/i.test(file.uri.fsPath))
+            .filter(link => !blocks.some(block => block.span.start <= link.start && link.start < block.span.end));
+
+        for (const link of links) {
+            const target = link.target.replace(/[?#].*$/, '');
+            if (isPageSourceLink(link.target) && !/^[a-z][a-z0-9+.-]*:/i.test(link.target)) {
+                if (pageUrl === undefined && !target.startsWith('/')) {
+                    continue;
+                }
+                const source = target.startsWith('/')
+                    ? path.join(site.project.root, CONTENT_DIR, ...decode(target).split('/'))
+                    : path.resolve(directory, decode(target));
+                if (!await this.exists(site, source)) {
+                    warn(link.start, link.end, `\`${link.target}\` was not found.`, 'broken-link');
+                }
+                continue;
+            }
+
+            const urlPath = pageUrl !== undefined || target.startsWith('/') ? resolveLinkPath(link.target, pageUrl ?? '/') : undefined;
+            if (urlPath === undefined || isPagePath(site.pageUrls, urlPath)) {
+                continue;
+            }
+            // A folder is served through its `index.html`; the folder alone serves nothing
+            const filePath = urlPath.endsWith('/') ? `${urlPath}index.html` : urlPath;
+            const candidates = [STATIC_DIR, CONTENT_DIR].map(folder => path.join(site.project.root, folder, ...filePath.split('/')));
+            if (!target.startsWith('/')) {
+                // Files next to the page's source, as written in the editor
+                candidates.push(path.resolve(directory, decode(target)));
+            }
+            if (await this.existsAny(site, candidates)) {
+                continue;
+            }
+            if (link.kind === 'asset') {
+                warn(link.start, link.end, `\`${urlPath}\` was not found in \`${STATIC_DIR}/\` or \`${CONTENT_DIR}/\`.`, 'missing-asset');
+            } else {
+                warn(link.start, link.end, `No page or file of the site is served at \`${urlPath}\`.`, 'broken-link');
+            }
+        }
+
+        const templates = new Map<string, Promise<boolean>>();
+        for (const reference of getTemplateReferences(file.allayDocument)) {
+            if (!templates.has(reference.name)) {
+                templates.set(reference.name, this.index.findTemplateFiles(reference.name).then(found => found.some(uri => isInSameProject(uri, file.uri))));
+            }
+            if (!await templates.get(reference.name)) {
+                warn(reference.span.start, reference.span.end, `Template \`${reference.name}\` was not found in \`templates/\`.`, 'missing-template');
+            }
+        }
+        const shortcodes = new Map<string, Promise<boolean>>();
+        for (const reference of getShortcodeReferences(file.allayDocument)) {
+            if (!shortcodes.has(reference.name)) {
+                shortcodes.set(reference.name, this.index.findShortcodeFiles(reference.name).then(found => found.some(uri => isInSameProject(uri, file.uri))));
+            }
+            if (!reference.closing && !await shortcodes.get(reference.name)) {
+                warn(reference.span.start, reference.span.end, `Shortcode \`${reference.name}\` was not found in \`shortcodes/\`.`, 'missing-shortcode');
+            }
+        }
+        return diagnostics.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    private async existsAny(site: SiteInfo, paths: string[]): Promise<boolean> {
+        for (const candidate of paths) {
+            if (await this.exists(site, candidate)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private exists(site: SiteInfo, filePath: string): Promise<boolean> {
+        let result = site.files.get(filePath);
+        if (!result) {
+            result = Promise.resolve(vscode.workspace.fs.stat(vscode.Uri.file(filePath))).then(stat => (stat.type & vscode.FileType.File) !== 0, () => false);
+            site.files.set(filePath, result);
+        }
+        return result;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function decode(target: string): string {
+    try {
+        return decodeURIComponent(target);
+    } catch {
+        return target;
+    }
+}
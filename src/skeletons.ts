@@ -0,0 +1,173 @@
+import { slugify } from './site';
+
+/**
+ * Starter contents for new pages, templates and shortcodes, written by the `Allay: New ...`
+ * commands and by quick fixes creating a file that an `include`, `extends` or shortcode tag
+ * refers to. Projects can replace them with their own scaffolds in `scaffolds/`.
+ */
+
+/**
+ * Folder of a project holding its own scaffolds: `page.md` (or `<section>.md` for a section of
+ * `content/`), `template.html` and `shortcode.html`.
+ */
+export const SCAFFOLDS_DIR = 'scaffolds';
+
+/**
+ * What a new page is created with.
+ */
+export interface PageDetails {
+    title: string;
+    /** `YYYY-MM-DD`. */
+    date: string;
+    tags: string[];
+    template?: string;
+}
+
+/**
+ * A page layout defining the given blocks, for templates other templates extend.
+ */
+export function getLayoutSkeleton(blocks: string[]): string {
+    const names = blocks.length > 0 ? blocks : ['content'];
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '    <meta charset="utf-8">',
+        '    <title>{: block "title" :}{: site.title :}{- end -}</title>',
+        '</head>',
+        '<body>',
+        ...names.filter(name => name !== 'title').map(name => `    {: block "${name}" :}{- end -}`),
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * A template rendering a page, for `template:` in the front matter.
+ */
+export function getPageTemplateSkeleton(): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '    <meta charset="utf-8">',
+        '    <title>{: this.title :}</title>',
+        '</head>',
+        '<body>',
+        '    <h1>{: this.title :}</h1>',
+        '    {: this.content :}',
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * A fragment for `{- include "name" -}`.
+ */
+export function getPartialSkeleton(name: string): string {
+    return `<div class="${name}">\n</div>\n`;
+}
+
+/**
+ * A shortcode declaring the parameters it is called with.
+ */
+export function getShortcodeSkeleton(name: string, parameters: string[]): string {
+    return [
+        ...(parameters.length > 0 ? [getParameterDeclarations(parameters)] : []),
+        `<div class="${name}">`,
+        ...parameters.map(parameter => `    {: param.${parameter} :}`),
+        '</div>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * The `{- param x = "" -}` lines declaring the parameters of a shortcode, one per line.
+ */
+export function getParameterDeclarations(parameters: string[]): string {
+    return parameters.map(parameter => `{- param ${parameter} = "" -}`).join('\n');
+}
+
+/**
+ * A template extending `parent` that overrides the given blocks.
+ */
+export function getChildTemplateSkeleton(parent: string, blocks: string[]): string {
+    return [`{- extends "${parent}" -}`, ...blocks.map(block => `\n{: block "${block}" :}\n{- end -}`), ''].join('\n');
+}
+
+/**
+ * A content page with its front matter filled in.
+ */
+export function getPageSkeleton(page: PageDetails): string {
+    return [
+        '---',
+        ...getFrontMatterLines(page),
+        '---',
+        '',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Fills the `{{name}}` placeholders of a project scaffold. For pages these are `title`, `date`,
+ * `tags` (an inline YAML list), `template` and `slug`; for templates and shortcodes `name` and
+ * `date`, plus `parent` for templates and `parameters` (the `{- param x = "" -}` lines) for
+ * shortcodes. Unknown placeholders are kept.
+ */
+export function fillScaffold(scaffold: string, values: { [name: string]: string }): string {
+    return scaffold.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * The values for the placeholders of a page scaffold.
+ */
+export function getPageValues(page: PageDetails): { [name: string]: string } {
+    return {
+        title: formatYamlString(page.title),
+        date: page.date,
+        tags: formatYamlList(page.tags),
+        template: page.template ?? '',
+        slug: getPageSlug(page.title),
+    };
+}
+
+/**
+ * The file name (without extension) of a page with the given title, e.g. `hello-world`.
+ */
+export function getPageSlug(title: string): string {
+    return slugify(title).replace(/-{2,}/g, '-').replace(/^-|-$/g, '') || 'untitled';
+}
+
+/**
+ * Formats a date as `YYYY-MM-DD` in local time.
+ */
+export function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function getFrontMatterLines(page: PageDetails): string[] {
+    const lines = [`title: ${formatYamlString(page.title)}`, `date: ${page.date}`];
+    if (page.template) {
+        lines.push(`template: ${formatYamlString(page.template)}`);
+    }
+    if (page.tags.length > 0) {
+        lines.push(`tags: ${formatYamlList(page.tags)}`);
+    }
+    return lines;
+}
+
+/**
+ * Quotes a string when YAML would read it as something else.
+ */
+function formatYamlString(value: string): string {
+    const plain = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^:#]*$/.test(value) && value.trim() === value
+        && !/^(?:true|false|yes|no|null|~|[-+]?\d[\d._:eE+-]*)$/i.test(value);
+    return plain ? value : JSON.stringify(value);
+}
+
+function formatYamlList(values: string[]): string {
+    return `[${values.map(value => /[,[\]{}]/.test(value) ? JSON.stringify(value) : formatYamlString(value)).join(', ')}]`;
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { getAllayDocument, toRange } from './allayDocument';
+import { OutlineItem, OutlineKind, getOutline } from './parser';
+
+const SYMBOL_KINDS: Record<OutlineKind, vscode.SymbolKind> = {
+    if: vscode.SymbolKind.Boolean,
+    else: vscode.SymbolKind.Boolean,
+    for: vscode.SymbolKind.Array,
+    with: vscode.SymbolKind.Object,
+    block: vscode.SymbolKind.Namespace,
+    include: vscode.SymbolKind.File,
+    extends: vscode.SymbolKind.File,
+    shortcode: vscode.SymbolKind.Function,
+};
+
+/**
+ * Lists control regions, `block` definitions, includes/extends and shortcode pairs for the
+ * Outline view and breadcrumbs.
+ */
+export class AllayDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+
+    public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const toSymbol = (item: OutlineItem): vscode.DocumentSymbol => {
+            const symbol = new vscode.DocumentSymbol(
+                item.name,
+                item.detail,
+                SYMBOL_KINDS[item.kind],
+                toRange(document, item.span),
+                toRange(document, item.selectionSpan)
+            );
+            symbol.children = item.children.map(toSymbol);
+            return symbol;
+        };
+        return getOutline(getAllayDocument(document)).map(toSymbol);
+    }
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayCli, getSubcommands } from './allayCli';
+import { AllayProjects } from './projects';
+
+export const ALLAY_TASK_TYPE = 'allay';
+
+/**
+ * An `allay` task in `tasks.json`.
+ */
+export interface AllayTaskDefinition extends vscode.TaskDefinition {
+    /** The Allay subcommand, e.g. `build`. */
+    command: string;
+    /** Project root relative to the workspace folder of the task, the folder itself if left out. */
+    root?: string;
+    /** Arguments after those from the `allay.args` setting. */
+    args?: string[];
+}
+
+/**
+ * Contributes a task for each subcommand of the Allay executable and each project, e.g.
+ * "allay: build". `serve` runs in the background; all tasks report errors with the `$allay`
+ * problem matchers.
+ */
+export class AllayTaskProvider implements vscode.TaskProvider {
+
+    constructor(private readonly projects: AllayProjects) { }
+
+    public async provideTasks(): Promise<vscode.Task[]> {
+        const projects = await this.projects.getProjects();
+        const tasks: vscode.Task[] = [];
+        for (const project of projects) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(project.root));
+            if (!folder) {
+                continue;
+            }
+            const root = path.relative(folder.uri.fsPath, project.root).split(path.sep).join('/');
+            for (const subcommand of await getSubcommands(getAllayCli(project.root).executable)) {
+                const definition: AllayTaskDefinition = { type: ALLAY_TASK_TYPE, command: subcommand.name, ...(root ? { root } : {}) };
+                const name = projects.length > 1 ? `${subcommand.name} (${project.name})` : subcommand.name;
+                const task = createTask(definition, folder, name);
+                task.detail = subcommand.description;
+                tasks.push(task);
+            }
+        }
+        return tasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as AllayTaskDefinition;
+        if (!definition.command || !task.scope || typeof task.scope === 'number') {
+            return undefined;
+        }
+        return createTask(definition, task.scope, task.name);
+    }
+}
+
+function createTask(definition: AllayTaskDefinition, folder: vscode.WorkspaceFolder, name: string): vscode.Task {
+    const projectRoot = path.resolve(folder.uri.fsPath, definition.root ?? '.');
+    const cli = getAllayCli(projectRoot);
+    const background = definition.command === 'serve';
+    const execution = new vscode.ProcessExecution(cli.executable, cli.getArgs(definition.command, ...(definition.args ?? [])), {
+        cwd: projectRoot,
+        env: cli.env,
+    });
+
+    const task = new vscode.Task(definition, folder, name, ALLAY_TASK_TYPE, execution, background ? '$allay-watch' : '$allay');
+    task.isBackground = background;
+    if (definition.command === 'build') {
+        task.group = vscode.TaskGroup.Build;
+    }
+    return task;
+}
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { findOutputDirectory, parseSubcommands } from '../cliParser';
+
+suite('CLI Parser Test Suite', () => {
+
+	test('Lists the subcommands from the help output', () => {
+		const help = [
+			'A static site generator',
+			'',
+			'Usage: allay [OPTIONS] <COMMAND>',
+			'',
+			'Commands:',
+			'  build  Build the site',
+			'  serve  Serve the site with live reload',
+			'  clean',
+			'  help   Print this message or the help of the given subcommand(s)',
+			'',
+			'Options:',
+			'  -r, --root <ROOT>  Project root',
+		].join('\n');
+		assert.deepStrictEqual(parseSubcommands(help), [
+			{ name: 'build', description: 'Build the site' },
+			{ name: 'serve', description: 'Serve the site with live reload' },
+			{ name: 'clean', description: '' },
+		]);
+		assert.deepStrictEqual(parseSubcommands('SUBCOMMANDS:\n    deploy    Upload the site\n'), [{ name: 'deploy', description: 'Upload the site' }]);
+		assert.deepStrictEqual(parseSubcommands('allay 0.1.0'), []);
+	});
+
+	test('Finds the output folder in the build arguments', () => {
+		assert.strictEqual(findOutputDirectory(['--root', '/site', 'build']), undefined);
+		assert.strictEqual(findOutputDirectory(['--root', '/site', 'build', '--output', 'dist']), 'dist');
+		assert.strictEqual(findOutputDirectory(['build', '-o', 'a', '--out-dir=b']), 'b');
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { buildTemplateTree, countTags, groupPages, toContentPage } from '../contentTree';
+import { parseFrontMatter } from '../frontMatter';
+
+suite('Content Tree Test Suite', () => {
+	const pages = [
+		toContentPage('posts/hello.md', parseFrontMatter('---\ntitle: Hello\ndate: 2024-03-09T10:00:00+08:00\ntags: [news, intro]\n---\n')),
+		toContentPage('posts/draft.md', parseFrontMatter('---\ntitle: Upcoming\ndraft: true\ntags: news\n---\n')),
+		toContentPage('posts/older.md', parseFrontMatter('---\ntitle: Older\ndate: 2024-03-01\n---\n')),
+		toContentPage('about.md'),
+	];
+
+	test('Groups pages by section, date and draft state', () => {
+		assert.deepStrictEqual(pages.map(page => [page.title, page.date, page.draft]), [
+			['Hello', '2024-03-09', false],
+			['Upcoming', undefined, true],
+			['Older', '2024-03-01', false],
+			['about', undefined, false],
+		]);
+
+		const summarize = (by: 'section' | 'date' | 'draft') => groupPages(pages, by).map(group => [group.label, group.pages.map(page => page.title)]);
+		assert.deepStrictEqual(summarize('section'), [['posts', ['Hello', 'Older', 'Upcoming']], ['(top level)', ['about']]]);
+		assert.deepStrictEqual(summarize('date'), [['2024-03', ['Hello', 'Older']], ['No date', ['about', 'Upcoming']]]);
+		assert.deepStrictEqual(summarize('draft'), [['Drafts', ['Upcoming']], ['Published', ['about', 'Hello', 'Older']]]);
+	});
+
+	test('Counts tags and nests templates below their parent', () => {
+		assert.deepStrictEqual(countTags(pages).map(({ tag, pages: tagged }) => [tag, tagged.length]), [['news', 2], ['intro', 1]]);
+
+		const tree = buildTemplateTree([
+			{ name: 'post', parent: 'base' },
+			{ name: 'base' },
+			{ name: 'gallery', parent: 'post' },
+			{ name: 'orphan', parent: 'missing' },
+			{ name: 'a', parent: 'b' },
+			{ name: 'b', parent: 'a' },
+		]);
+		const names = (nodes: typeof tree): unknown[] => nodes.map(node => node.children.length > 0 ? [node.name, names(node.children)] : node.name);
+		assert.deepStrictEqual(names(tree), [['base', [['post', ['gallery']]]], 'orphan', ['a', ['b']]]);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { findFrontMatterEntry, parseFrontMatter } from '../frontMatter';
+
+suite('Front Matter Test Suite', () => {
+
+	test('Parses scalars, lists and nested maps', () => {
+		const frontMatter = parseFrontMatter([
+			'---',
+			'title: "Hello: World" # comment',
+			'date: 2025-01-02',
+			'tags: [allay, "a, b"]',
+			'draft: false',
+			'authors:',
+			'  - alice',
+			'  - bob',
+			'author:',
+			'  name: Alice',
+			'  social:',
+			'    github: alice',
+			'---',
+			'Body'
+		].join('\n'))!;
+
+		assert.deepStrictEqual(frontMatter.errors, []);
+		assert.strictEqual(frontMatter.endLine, 12);
+		assert.deepStrictEqual(frontMatter.data, {
+			title: 'Hello: World',
+			date: '2025-01-02',
+			tags: ['allay', 'a, b'],
+			draft: false,
+			authors: ['alice', 'bob'],
+			author: { name: 'Alice', social: { github: 'alice' } },
+		});
+		assert.strictEqual(findFrontMatterEntry(frontMatter, 'author.social.github')?.line, 11);
+	});
+
+	test('Parses block scalars and escaped quotes', () => {
+		const frontMatter = parseFrontMatter([
+			'---',
+			'description: >',
+			'  A long description',
+			'  over two lines.',
+			'',
+			'  Second paragraph.',
+			'summary: |-',
+			'  Line one',
+			'    indented: not a key',
+			'quote: \'it\'\'s\'',
+			'tags: [\'don\'\'t\', b]',
+			'---',
+		].join('\n'))!;
+
+		assert.deepStrictEqual(frontMatter.errors, []);
+		assert.deepStrictEqual(frontMatter.data, {
+			description: 'A long description over two lines.\nSecond paragraph.\n',
+			summary: 'Line one\n  indented: not a key',
+			quote: 'it\'s',
+			tags: ['don\'t', 'b'],
+		});
+		assert.strictEqual(findFrontMatterEntry(frontMatter, 'quote')?.line, 9);
+	});
+
+	test('Reports malformed front matter', () => {
+		assert.strictEqual(parseFrontMatter('# Title'), undefined);
+		const frontMatter = parseFrontMatter('---\ntitle: a\ntitle: b\njust text\n')!;
+		assert.deepStrictEqual(frontMatter.errors.map(e => e.line), [2, 3, 0]);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseFrontMatter } from '../frontMatter';
+import { buildSchema, getFieldsAt, validateFrontMatter } from '../frontMatterSchema';
+
+suite('Front Matter Schema Test Suite', () => {
+
+	test('Extends the built-in schema from allay.toml and a JSON schema', () => {
+		const schema = buildSchema(
+			{ frontmatter: { fields: { series: { type: 'string', values: ['intro', 'advanced'], required: true }, rating: 'number' } } },
+			{ properties: { author: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } }, additionalProperties: false }
+		);
+		assert.strictEqual(schema.strict, true);
+		assert.deepStrictEqual(schema.fields.series, { type: 'string', values: ['intro', 'advanced'], required: true });
+		assert.strictEqual(schema.fields.rating.type, 'number');
+		assert.strictEqual(schema.fields.tags.type, 'list');
+		assert.deepStrictEqual(schema.fields.author.fields, { name: { type: 'string', required: true } });
+
+		const frontMatter = parseFrontMatter('---\nauthor:\n  \n---\n')!;
+		assert.deepStrictEqual(Object.keys(getFieldsAt(schema, frontMatter.entries, 2, 2)), ['name']);
+		assert.ok('title' in getFieldsAt(schema, frontMatter.entries, 2, 0));
+	});
+
+	test('Reports unknown, mistyped and missing keys', () => {
+		const schema = buildSchema({ frontmatter: { fields: { series: { type: 'string', required: true } } } });
+		const text = [
+			'---',
+			'titel: Hello',
+			'date: last week',
+			'tags: allay',
+			'draft: yes',
+			'author: Ann',
+			'---',
+		].join('\n');
+		const problems = validateFrontMatter(text, schema);
+		assert.deepStrictEqual(problems.map(problem => [problem.code, problem.line, problem.start, problem.end]), [
+			['unknown-key', 1, 0, 5],
+			['invalid-value', 2, 6, 15],
+			['invalid-value', 3, 6, 11],
+			['invalid-value', 4, 7, 10],
+			['missing-key', 0, 0, 3],
+		]);
+		assert.strictEqual(problems[0].message, 'Unknown front-matter key `titel`. Did you mean `title`?');
+		assert.strictEqual(validateFrontMatter('---\ndate: 2025-01-31T09:00:00+08:00\ntags: [a, b]\nseries: intro\n---', schema).length, 0);
+		assert.strictEqual(validateFrontMatter('---\nseries: intro\nauthor: Ann\n---', { ...schema, strict: true })[0].code, 'unknown-key');
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { findLinks, isPagePath, isPageSourceLink, normalizePagePath, resolveLinkPath } from '../links';
+
+suite('Links Test Suite', () => {
+
+	test('Finds links and assets in Markdown and HTML', () => {
+		const text = [
+			'See [the intro](../intro/ "Intro") and ![logo](</img/my logo.png>).',
+			'',
+			'```',
+			'[not a link](/nowhere/)',
+			'```',
+			'Inline `[code](/code/)` is skipped.',
+			'',
+			'[docs]: /docs/',
+			'<a href="/about/">About</a> <img src=\'cat.jpg\'>',
+		].join('\n');
+		const links = findLinks(text, true);
+		assert.deepStrictEqual(links.map(link => [link.target, link.kind]), [
+			['../intro/', 'link'],
+			['/img/my logo.png', 'asset'],
+			['/docs/', 'link'],
+			['/about/', 'link'],
+			['cat.jpg', 'asset'],
+		]);
+		for (const link of links) {
+			assert.strictEqual(text.slice(link.start, link.end), link.target);
+		}
+		assert.deepStrictEqual(findLinks('[a](/b/)', false), []);
+	});
+
+	test('Resolves link targets against the URLs of pages', () => {
+		assert.strictEqual(resolveLinkPath('../intro/#setup', '/posts/hello/'), '/posts/intro/');
+		assert.strictEqual(resolveLinkPath('cat%20photo.jpg?v=2', '/posts/hello/'), '/posts/hello/cat photo.jpg');
+		assert.strictEqual(resolveLinkPath('https://example.com/', '/'), undefined);
+		assert.strictEqual(resolveLinkPath('mailto:me@example.com', '/'), undefined);
+		assert.strictEqual(resolveLinkPath('#top', '/'), undefined);
+		assert.strictEqual(resolveLinkPath('{: $post.url :}', '/'), undefined);
+
+		const pageUrls = new Set(['/posts/hello/', '/about-me/'].map(normalizePagePath));
+		assert.ok(isPagePath(pageUrls, '/about-me'));
+		assert.ok(isPagePath(pageUrls, '/posts/hello/index.html'));
+		assert.ok(!isPagePath(pageUrls, '/posts/'));
+		assert.ok(!isPagePath(pageUrls, '/posts/missing/'));
+		assert.ok(isPagePath(new Set([...pageUrls, '/posts/']), '/posts'));
+		assert.ok(!isPagePath(pageUrls, '/feed.xml'));
+
+		assert.ok(isPageSourceLink('../posts/hello.md#intro'));
+		assert.ok(!isPageSourceLink('/posts/hello/'));
+	});
+});
@@ -0,0 +1,290 @@
+import * as assert from 'assert';
+import { CommandBlock, ControlNode, ExpressionBlock, OutlineItem, ShortcodeBlock, ShortcodeNode, TextEdit, TypeEnvironment, UNKNOWN, analyzeVariables, checkExtraction, describeType, findBlockAt, findScopedVariable, findMemberAt, findSymbolAt, getAccessPath, getActiveArgument, getBlockDefinitions, getClosingInsertion, getExtendsTarget, getExtractedText, getFields, formatDocument, getFoldingRegions, getOutline, getSemanticTokens, getPageType, getScopeType, getScopedOccurrences, getSetInsertion, getShortcodeSignature, getVisibleVariables, inferType, matchArguments, parse, typeOfValue } from '../parser';
+
+suite('Parser Test Suite', () => {
+
+	test('Parses the four block kinds', () => {
+		const doc = parse('<p>{- set $x = 1 -}{: $x :}{< note />}{% hi %}</p>');
+		assert.deepStrictEqual(doc.blocks.map(b => b.kind), ['command', 'expression', 'shortcode', 'comment']);
+		assert.deepStrictEqual(doc.errors, []);
+		const set = (doc.blocks[0] as CommandBlock).command;
+		assert.strictEqual(set.kind, 'set');
+		assert.strictEqual(set.kind === 'set' && set.targets[0].name, '$x');
+	});
+
+	test('Handles multi-line blocks and braces inside strings', () => {
+		const doc = parse('{- if\n  $a == "}-}" &&\n  !$b -}{- end -}');
+		assert.deepStrictEqual(doc.errors, []);
+		const command = (doc.blocks[0] as CommandBlock).command;
+		assert.strictEqual(command.kind, 'if');
+		assert.strictEqual(command.kind === 'if' && command.condition?.kind, 'binary');
+	});
+
+	test('Parses literals, operators and access chains', () => {
+		const doc = parse('{: $post.author.name + 1.5 * -2 :}{: #t || null :}{: .title :}');
+		assert.deepStrictEqual(doc.errors, []);
+		const first = doc.blocks[0] as ExpressionBlock;
+		assert.strictEqual(first.value?.kind, 'binary');
+		assert.strictEqual(first.value?.kind === 'binary' && getAccessPath(first.value.left), '$post.author.name');
+		const third = doc.blocks[2] as ExpressionBlock;
+		assert.strictEqual(getAccessPath(third.value), '.title');
+	});
+
+	test('Distinguishes `-` from the command close delimiter', () => {
+		const doc = parse('{- set $x = $a - $b -}');
+		assert.deepStrictEqual(doc.errors, []);
+		assert.strictEqual((doc.blocks[0] as CommandBlock).close?.start, 20);
+	});
+
+	test('Parses shortcode arguments', () => {
+		const doc = parse('{< figure "a.png" caption="Hi" width=3 />}');
+		const block = doc.blocks[0] as ShortcodeBlock;
+		assert.strictEqual(block.name?.name, 'figure');
+		assert.strictEqual(block.selfClosing, true);
+		assert.deepStrictEqual(block.args.map(a => a.name?.name), [undefined, 'caption', 'width']);
+	});
+
+	test('Nests control flow and shortcode pairs', () => {
+		const doc = parse('{- if $a -}x{- else if $b -}{< box >}{< box >}y{</ box >}{</ box >}{- else -}z{- end -}');
+		assert.strictEqual(doc.nodes.length, 1);
+		const control = doc.nodes[0] as ControlNode;
+		assert.strictEqual(control.type, 'if');
+		assert.strictEqual(control.branches.length, 3);
+		assert.ok(control.end);
+		const outer = control.branches[1].children[0] as ShortcodeNode;
+		assert.strictEqual(outer.kind, 'shortcode');
+		assert.ok(outer.close);
+		assert.strictEqual((outer.children[0] as ShortcodeNode).kind, 'shortcode');
+	});
+
+	test('Treats `{: block :}` as a region closed by `end`', () => {
+		const doc = parse('{: block "main" :}body{- end -}');
+		const control = doc.nodes[0] as ControlNode;
+		assert.strictEqual(control.type, 'block');
+		assert.ok(control.end);
+	});
+
+	test('Recovers from a half-typed block', () => {
+		const text = '{- include "hea\n<div>{: site. :}</div>';
+		const doc = parse(text);
+		assert.ok(doc.errors.length > 0);
+		assert.strictEqual(doc.blocks.length, 2);
+
+		const include = findBlockAt(doc, text.indexOf('hea') + 3) as CommandBlock;
+		assert.strictEqual(include.command.kind, 'include');
+
+		const dotOffset = text.indexOf('site.') + 5;
+		const member = findMemberAt(findBlockAt(doc, dotOffset)!, dotOffset);
+		assert.strictEqual(getAccessPath(member?.object), 'site');
+	});
+
+	test('Reports unbalanced structure', () => {
+		const codes = (text: string) => parse(text).errors.map(e => e.code);
+		assert.deepStrictEqual(codes('{- if $a -}x'), ['unclosed-control']);
+		assert.deepStrictEqual(codes('{- for $p : pages -}{- end -}{- end -}'), ['unmatched-end']);
+		assert.deepStrictEqual(codes('{< note >}text'), ['unclosed-shortcode']);
+		assert.deepStrictEqual(codes('{</ note >}'), ['unmatched-shortcode-close']);
+		assert.deepStrictEqual(codes('{- else -}'), ['misplaced-else']);
+		assert.deepStrictEqual(codes('{- if $a -}{- else -}{- else if $b -}{- end -}'), ['misplaced-else']);
+		assert.deepStrictEqual(codes('{- if $a -}{< note >}{- else -}{- end -}'), ['unclosed-shortcode']);
+	});
+
+	test('Reports an unterminated expression block at its opening delimiter', () => {
+		const doc = parse('<p>{: $title</p>\n');
+		assert.strictEqual(doc.errors.length, 1);
+		assert.deepStrictEqual(doc.errors[0].span, { start: 3, end: 5 });
+	});
+
+	test('Builds the outline and folding regions', () => {
+		const text = '{- extends "base" -}\n{: block "main" :}\n{- if $x -}\n{< note >}\nhi\n{</ note >}\n{- else -}\nno\n{- end -}\n{- end -}\n';
+		const doc = parse(text);
+		const describe = (item: OutlineItem): unknown => [item.kind, item.name, item.children.map(describe)];
+		assert.deepStrictEqual(getOutline(doc).map(describe), [
+			['extends', 'base', []],
+			['block', 'main', [['if', 'if $x', [['shortcode', 'note', []], ['else', 'else', []]]]]],
+		]);
+		const lines = getFoldingRegions(doc).map(region => [text.slice(0, region.start).split('\n').length - 1, text.slice(0, region.end).split('\n').length - 1]);
+		assert.deepStrictEqual(lines, [[1, 9], [2, 6], [3, 5], [6, 8]]);
+	});
+
+	test('Finds block definitions and the extended template', () => {
+		const doc = parse('{- extends "base" -}{: block "title" :}Hi{- end -}{: block "main" :}{- end -}');
+		assert.strictEqual(getExtendsTarget(doc)?.name, 'base');
+		assert.deepStrictEqual(getBlockDefinitions(doc).map(block => block.name), ['title', 'main']);
+		const offset = doc.text.indexOf('title');
+		assert.deepStrictEqual(findSymbolAt(doc, offset), { kind: 'block', name: 'title', span: { start: offset - 1, end: offset + 6 } });
+	});
+
+	test('Discovers shortcode parameters and matches call arguments', () => {
+		const signature = getShortcodeSignature(parse('{- param caption = "" -}<img src="{: param.src :}">{- if param.alt -}{: param.alt :}{- end -}{- get "width" -}'));
+		assert.deepStrictEqual(signature.parameters.map(p => [p.name, p.defaultValue, p.required]), [
+			['caption', '""', false],
+			['src', undefined, true],
+			['alt', undefined, false],
+			['width', undefined, true],
+		]);
+		assert.strictEqual(signature.dynamic, false);
+
+		const call = parse('{< figure "a.png" "x" size=2 >}').blocks[0] as ShortcodeBlock;
+		const match = matchArguments(signature, call.args);
+		assert.deepStrictEqual(match.unknown.map(arg => arg.name?.name), ['size']);
+		assert.deepStrictEqual(match.missing.map(p => p.name), ['width']);
+		assert.deepStrictEqual(getActiveArgument(call, call.span.end - 2), { position: 2 });
+		assert.deepStrictEqual(getActiveArgument(call, call.args[2].span.start + 1), { name: 'size', position: 2 });
+	});
+
+	test('Infers types of pages, loop variables and with scopes', () => {
+		const page = getPageType([{ author: { name: 'Ann' } }, { author: { url: '/ann' }, draft: true }]);
+		const environment: TypeEnvironment = {
+			site: typeOfValue({ author: { name: 'Ann', email: 'ann@example.com' } }),
+			page,
+			current: page,
+			param: UNKNOWN,
+		};
+		const doc = parse('{- for $i, $post : pages -}{: $post.author.name :}{- end -}{- with site.author -}{: this.email :}{: .x :}{- end -}');
+		const typeAt = (marker: string) => {
+			const offset = doc.text.indexOf(marker) + marker.length;
+			const member = findMemberAt(findBlockAt(doc, offset)!, offset)!;
+			return member.object ? inferType(doc, member.object, environment) : getScopeType(doc, offset, environment);
+		};
+
+		assert.deepStrictEqual(Object.keys(getFields(typeAt('$post.'))), ['title', 'date', 'description', 'tags', 'template', 'url', 'head', 'content', 'author', 'draft']);
+		assert.deepStrictEqual(Object.keys(getFields(typeAt('$post.author.'))), ['name', 'url']);
+		assert.strictEqual(describeType(getFields(typeAt('$post.author.')).name.type), 'string');
+		assert.deepStrictEqual(Object.keys(getFields(typeAt('this.'))), ['name', 'email']);
+		assert.deepStrictEqual(Object.keys(getFields(typeAt('{: .'))), ['name', 'email']);
+		assert.strictEqual(page.fields.draft.detail, 'Front-matter variable used in 1 page');
+	});
+
+	test('Scopes variables to their loop or branch', () => {
+		const doc = parse('{: $early :}{- set $a = 1 -}{- for $post : pages -}{- if $a -}{- set $b = $post -}{- end -}{: $b :}|{- end -}{: $index :}{- set $unused = 2 -}');
+		const visibleAt = (marker: string) => getVisibleVariables(doc, doc.text.indexOf(marker)).map(variable => variable.name);
+		assert.deepStrictEqual(visibleAt('{: $b'), ['$a', '$post', '$index']);
+		assert.deepStrictEqual(visibleAt('|'), ['$a', '$post', '$index']);
+		assert.deepStrictEqual(visibleAt('{- if'), ['$a', '$post', '$index']);
+		assert.deepStrictEqual(visibleAt('{: $index'), ['$a']);
+		assert.deepStrictEqual(visibleAt('{- set $a'), []);
+
+		const { undefinedUses, unusedVariables } = analyzeVariables(doc);
+		assert.deepStrictEqual(undefinedUses.map(use => use.name), ['$early', '$b', '$index']);
+		assert.deepStrictEqual(unusedVariables.map(variable => variable.name), ['$b', '$unused']);
+	});
+
+	test('Finds the occurrences of one variable, leaving out others of the same name', () => {
+		const doc = parse('{- for $p : pages -}{: $p.title :}{- end -}{- for $p : site.posts -}{: $p :}{- end -}{- set $p = 1 -}{: $p :}');
+		const occurrencesAt = (offset: number) => getScopedOccurrences(doc, findScopedVariable(doc, '$p', offset)!).map(variable => variable.span.start);
+		const starts = [...doc.text.matchAll(/\$p/g)].map(match => match.index!);
+		assert.deepStrictEqual(occurrencesAt(starts[1]), starts.slice(0, 2));
+		assert.deepStrictEqual(occurrencesAt(starts[2]), starts.slice(2, 4));
+		assert.deepStrictEqual(occurrencesAt(starts[4]), starts.slice(4));
+	});
+
+	test('Computes quick fixes for unclosed regions and undefined variables', () => {
+		const apply = (text: string, edit: TextEdit) => text.slice(0, edit.span.start) + edit.newText + text.slice(edit.span.end);
+		const text = [
+			'<ul>',
+			'  {- for $p : pages -}',
+			'    {< card >}',
+			'      <li>{: $p.title :}</li>',
+			'',
+			'  {- if $shown -}<b>{: $label :}</b>',
+			'</ul>',
+		].join('\n');
+		const doc = parse(text);
+		const header = (marker: string) => doc.blocks.find(block => block.span.start === text.indexOf(marker))!;
+
+		assert.strictEqual(apply(text, getClosingInsertion(doc, header('{- for'))!), text.replace('</li>\n', '</li>\n  {- end -}\n'));
+		assert.strictEqual(apply(text, getClosingInsertion(doc, header('{< card'))!), text.replace('</li>\n', '</li>\n    {</ card >}\n'));
+		assert.strictEqual(apply(text, getClosingInsertion(doc, header('{- if'))!), text.replace('</b>', '</b>{- end -}'));
+		assert.strictEqual(getClosingInsertion(doc, header('{: $p')), undefined);
+
+		const use = analyzeVariables(doc).undefinedUses.find(variable => variable.name === '$label')!;
+		assert.strictEqual(apply(text, getSetInsertion(doc, use)), text.replace('  {- if', '  {- set $label = null -}\n  {- if'));
+	});
+
+	test('Checks and dedents markup extracted into a new file', () => {
+		const text = '<main>\n  {- if $a -}\n    <p>{: $a :}</p>\n  {- end -}\n  <footer></footer>\n</main>';
+		const doc = parse(text);
+		const span = (from: string, to: string) => ({ start: text.indexOf(from), end: text.indexOf(to) + to.length });
+		assert.strictEqual(checkExtraction(doc, span('{- if', '{- end -}')), undefined);
+		assert.strictEqual(getExtractedText(doc, span('{- if', '</footer>')), '{- if $a -}\n  <p>{: $a :}</p>\n{- end -}\n<footer></footer>\n');
+		assert.ok(checkExtraction(doc, span('{- if', '</p>')));
+		assert.ok(checkExtraction(doc, span('<p>', '{- end -}')));
+		assert.ok(checkExtraction(doc, span('$a -}', '</p>')));
+	});
+
+	test('Formats block spacing and control-flow indentation', () => {
+		const apply = (text: string, edits: TextEdit[]) => edits.reduceRight((result, edit) => result.slice(0, edit.span.start) + edit.newText + result.slice(edit.span.end), text);
+		const text = [
+			'<ul>',
+			'  {-for $p:pages-}',
+			'  {-if !$p.draft&&($p.tags!=null)-}',
+			'  <li>{:$p.title:}{<badge  kind = "new"/>}</li>',
+			'  {- else -}',
+			'    <li class="draft">',
+			'      {: -1 :}',
+			'    </li>',
+			'{-end-}',
+			'{-end-}',
+			'</ul>',
+		].join('\n');
+		const doc = parse(text);
+
+		assert.strictEqual(apply(text, formatDocument(doc, { tabSize: 2, insertSpaces: true, indent: 'blocks' })), [
+			'<ul>',
+			'  {- for $p : pages -}',
+			'    {- if !$p.draft && ($p.tags != null) -}',
+			'  <li>{: $p.title :}{< badge kind="new" />}</li>',
+			'    {- else -}',
+			'    <li class="draft">',
+			'      {: -1 :}',
+			'    </li>',
+			'    {- end -}',
+			'  {- end -}',
+			'</ul>',
+		].join('\n'));
+
+		assert.strictEqual(apply(text, formatDocument(doc, { tabSize: 4, insertSpaces: true, indent: 'all' })).split('\n').slice(3, 9).join('\n'), [
+			'          <li>{: $p.title :}{< badge kind="new" />}</li>',
+			'      {- else -}',
+			'          <li class="draft">',
+			'            {: -1 :}',
+			'          </li>',
+			'      {- end -}',
+		].join('\n'));
+
+		const range = { start: text.indexOf('{-if'), end: text.indexOf('{-if') + 4 };
+		assert.deepStrictEqual(formatDocument(doc, { tabSize: 2, insertSpaces: false, indent: 'commands' }, range).map(edit => edit.newText), ['\t\t']);
+
+		const include = '{-set $t=1-}{-include "card"  title = $t-}';
+		assert.strictEqual(apply(include, formatDocument(parse(include), { tabSize: 2, insertSpaces: true, indent: 'blocks' })), '{- set $t = 1 -}{- include "card" title=$t -}');
+
+		const param = '{-param caption="" -}{-param alt  =  ""-}';
+		assert.strictEqual(apply(param, formatDocument(parse(param), { tabSize: 2, insertSpaces: true, indent: 'blocks' })), '{- param caption = "" -}{- param alt = "" -}');
+	});
+
+	test('Classifies names for semantic highlighting', () => {
+		const doc = parse('{% note %}{- for $p : pages -}{: $p.title :}{: $index :}{- end -}{- else if $q == 1 -}{< figure src="a" >}{< missing />}');
+		const tokens = getSemanticTokens(doc, name => name === 'figure').map(token => [doc.text.slice(token.span.start, token.span.end), token.type, ...token.modifiers].join(' '));
+		assert.deepStrictEqual(tokens, [
+			'{% note %} comment',
+			'for keyword',
+			'$p variable declaration',
+			': operator',
+			'pages variable readonly defaultLibrary',
+			'$p variable',
+			'title property',
+			'$index variable readonly defaultLibrary',
+			'end keyword',
+			'else keyword',
+			'if keyword',
+			'$q variable undefined',
+			'== operator',
+			'1 number',
+			'figure function',
+			'src parameter',
+			'"a" string',
+			'missing function unknown',
+		]);
+	});
+});
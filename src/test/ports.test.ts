@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { findFreePort, isPortAvailable, waitForPort } from '../ports';
+
+suite('Ports Test Suite', () => {
+	test('Finds a free port and detects when it is taken', async () => {
+		const port = await findFreePort();
+		assert.ok(port > 0);
+		assert.strictEqual(await isPortAvailable(port), true);
+
+		const server = net.createServer();
+		await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+		try {
+			assert.strictEqual(await isPortAvailable(port), false);
+			assert.strictEqual(await waitForPort(port, 1000), true);
+		} finally {
+			await new Promise(resolve => server.close(resolve));
+		}
+	});
+
+	test('Stops waiting when nothing listens', async () => {
+		const port = await findFreePort();
+		assert.strictEqual(await waitForPort(port, 300), false);
+		assert.strictEqual(await waitForPort(port, 5000, () => true), false);
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { ServerOutputParser } from '../serverOutputParser';
+
+suite('Server Output Parser Test Suite', () => {
+
+	test('Parses file:line:column errors split across chunks', () => {
+		const parser = new ServerOutputParser();
+		assert.deepStrictEqual(parser.write('[ERROR allay] content/posts/a.md:12'), []);
+		const events = parser.write(':5: unknown variable $x\n');
+		assert.deepStrictEqual(events, [{
+			kind: 'error',
+			error: { file: 'content/posts/a.md', line: 12, column: 5, message: 'unknown variable $x' }
+		}]);
+	});
+
+	test('Parses pest-style error reports', () => {
+		const parser = new ServerOutputParser();
+		const events = parser.write([
+			'Error: failed to parse templates/base.html',
+			' --> 3:5',
+			'  |',
+			'3 | {- if -}',
+			'  |     ^---',
+			'  |',
+			'  = expected expression',
+			''
+		].join('\n'));
+		assert.strictEqual(events.length, 2);
+		assert.deepStrictEqual(events[1], {
+			kind: 'error',
+			error: { file: 'templates/base.html', line: 3, column: 5, message: 'expected expression' }
+		});
+	});
+
+	test('Detects successful rebuilds', () => {
+		const parser = new ServerOutputParser();
+		assert.deepStrictEqual(parser.write('\x1b[32mINFO\x1b[0m Site rebuilt in 12ms\n'), [{ kind: 'success' }]);
+	});
+});
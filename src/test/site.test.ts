@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseFrontMatter } from '../frontMatter';
+import { findMissingDirectories, findProjectRoot, findSiteEntry, getPageUrl, getSiteFields, slugify } from '../site';
+import { parseToml } from '../toml';
+
+suite('Site Test Suite', () => {
+	const root = path.join(path.sep, 'blog');
+
+	test('Derives page URLs from content paths', () => {
+		assert.strictEqual(getPageUrl(root, path.join(root, 'content', 'posts', 'foo.md')), '/posts/foo/');
+		assert.strictEqual(getPageUrl(root, path.join(root, 'content', 'posts', 'index.md')), '/posts/');
+		assert.strictEqual(getPageUrl(root, path.join(root, 'content', 'index.md')), '/');
+		assert.strictEqual(getPageUrl(root, path.join(root, 'templates', 'base.html')), undefined);
+	});
+
+	test('Prefers the url from the front matter', () => {
+		const frontMatter = parseFrontMatter('---\ntitle: About\nurl: about-me/\n---\n');
+		assert.strictEqual(getPageUrl(root, path.join(root, 'content', 'about.md'), frontMatter), '/about-me/');
+	});
+
+	test('Slugifies headings', () => {
+		assert.strictEqual(slugify('Getting Started!'), 'getting-started');
+		assert.strictEqual(slugify('  `code` & <em>more</em> '), 'code-more');
+	});
+
+	test('Finds the innermost project containing a file', () => {
+		const nested = path.join(root, 'docs');
+		const roots = [root, nested];
+		assert.strictEqual(findProjectRoot(roots, path.join(nested, 'content', 'index.md')), nested);
+		assert.strictEqual(findProjectRoot(roots, path.join(root, 'content', 'index.md')), root);
+		assert.strictEqual(findProjectRoot(roots, path.join(path.sep, 'elsewhere', 'index.md')), undefined);
+	});
+
+	test('Lists missing project directories', async () => {
+		const project = fs.mkdtempSync(path.join(os.tmpdir(), 'allay-'));
+		try {
+			fs.mkdirSync(path.join(project, 'templates'));
+			const missing = await findMissingDirectories(project);
+			assert.deepStrictEqual(missing.map(directory => directory.name), ['shortcodes', 'content']);
+		} finally {
+			fs.rmSync(project, { recursive: true, force: true });
+		}
+	});
+
+	test('Resolves site fields from allay.toml', () => {
+		const config = parseToml('title = "Blog"\n[params]\ntitle = "Shadowed"\nauthor = "Alice"\n[params.social]\ngithub = "alice"\n');
+		assert.deepStrictEqual(getSiteFields(config, []).map(entry => entry.key), ['title', 'params', 'author', 'social']);
+		assert.deepStrictEqual(getSiteFields(config, ['params', 'social']).map(entry => entry.key), ['github']);
+		assert.deepStrictEqual(getSiteFields(config, ['social']).map(entry => entry.key), ['github']);
+		assert.strictEqual(findSiteEntry(config, ['title'])?.value, 'Blog');
+		assert.strictEqual(findSiteEntry(config, ['author'])?.line, 3);
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { fillScaffold, getChildTemplateSkeleton, getPageSkeleton, getPageSlug, getPageValues, getParameterDeclarations } from '../skeletons';
+
+suite('Skeletons Test Suite', () => {
+
+	test('Fills in the front matter of a new page', () => {
+		const page = { title: 'Hello: World', date: '2024-03-09', tags: ['news', 'c++, c#'], template: 'post' };
+		assert.strictEqual(getPageSkeleton(page), [
+			'---',
+			'title: "Hello: World"',
+			'date: 2024-03-09',
+			'template: post',
+			'tags: [news, "c++, c#"]',
+			'---',
+			'',
+			'',
+		].join('\n'));
+		assert.strictEqual(getPageSkeleton({ title: 'Notes', date: '2024-03-09', tags: [] }), '---\ntitle: Notes\ndate: 2024-03-09\n---\n\n');
+
+		assert.strictEqual(getPageSlug('Hello: World!'), 'hello-world');
+		assert.strictEqual(getPageSlug('???'), 'untitled');
+	});
+
+	test('Fills the placeholders of project scaffolds', () => {
+		const values = getPageValues({ title: 'Release Notes', date: '2024-03-09', tags: ['news'] });
+		const scaffold = '---\ntitle: {{ title }}\ndate: {{date}}\ntags: {{tags}}\nlayout: {{layout}}\n---\n# {{slug}}\n';
+		assert.strictEqual(fillScaffold(scaffold, values), '---\ntitle: Release Notes\ndate: 2024-03-09\ntags: [news]\nlayout: {{layout}}\n---\n# release-notes\n');
+
+		const shortcode = fillScaffold('{{parameters}}\n<figure class="{{name}}"></figure>\n', { name: 'figure', parameters: getParameterDeclarations(['src', 'alt']) });
+		assert.strictEqual(shortcode, '{- param src = "" -}\n{- param alt = "" -}\n<figure class="figure"></figure>\n');
+
+		assert.strictEqual(getChildTemplateSkeleton('base', ['title', 'content']), [
+			'{- extends "base" -}',
+			'',
+			'{: block "title" :}',
+			'{- end -}',
+			'',
+			'{: block "content" :}',
+			'{- end -}',
+			'',
+		].join('\n'));
+	});
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { findTomlEntry, parseToml } from '../toml';
+
+suite('TOML Test Suite', () => {
+
+	test('Parses tables, dotted keys and value types', () => {
+		const toml = parseToml([
+			'title = "My Blog" # comment',
+			'baseUrl = \'https://example.com\'',
+			'pageSize = 1_000',
+			'ratio = 0.5',
+			'draft = false',
+			'published = 1979-05-27 07:32:00Z',
+			'tags = [ "a", "b]",',
+			'  "c" ]',
+			'',
+			'[Params]',
+			'author.name = "Alice"',
+			'menu = { home = "/", about = "/about/" }',
+			'',
+			'[Params.social]',
+			'github = "alice"',
+			'',
+			'[[links]]',
+			'url = "/one"',
+			'[[links]]',
+			'url = "/two"',
+			'bio = """',
+			'Line one \\',
+			'   continued"""',
+		].join('\n'));
+
+		assert.deepStrictEqual(toml.errors, []);
+		assert.deepStrictEqual(toml.data, {
+			title: 'My Blog',
+			baseUrl: 'https://example.com',
+			pageSize: 1000,
+			ratio: 0.5,
+			draft: false,
+			published: '1979-05-27 07:32:00Z',
+			tags: ['a', 'b]', 'c'],
+			Params: {
+				author: { name: 'Alice' },
+				menu: { home: '/', about: '/about/' },
+				social: { github: 'alice' },
+			},
+			links: [{ url: '/one' }, { url: '/two', bio: 'Line one continued' }],
+		});
+		const github = findTomlEntry(toml.entries, ['Params', 'social', 'github']);
+		assert.deepStrictEqual([github?.type, github?.raw, github?.line, github?.column], ['string', '"alice"', 14, 0]);
+		assert.deepStrictEqual(findTomlEntry(toml.entries, ['published'])?.type, 'datetime');
+		assert.deepStrictEqual(findTomlEntry(toml.entries, ['Params', 'social'])?.line, 13);
+	});
+
+	test('Reports syntax errors and keeps reading', () => {
+		const toml = parseToml([
+			'title = My Blog',
+			'name = "unclosed',
+			'a = 1',
+			'a = 2',
+			'[a]',
+			'[Params',
+			'x = 1',
+			'list = [1, 2',
+			'ok = true',
+		].join('\n'));
+		assert.deepStrictEqual(toml.errors.map(error => [error.line, error.column]), [[0, 8], [1, 7], [3, 0], [4, 1], [5, 7], [8, 0]]);
+		assert.strictEqual(toml.data.a, 1);
+		assert.strictEqual(toml.data.x, undefined);
+	});
+});
@@ -0,0 +1,505 @@
+/**
+ * A reader for `allay.toml`. It follows TOML 1.0 closely enough for site configuration: tables,
+ * arrays of tables, dotted keys, inline tables, arrays and all scalar types. Positions are kept
+ * so tooling can point at keys, and syntax errors are collected instead of thrown.
+ */
+
+export type TomlType = 'string' | 'integer' | 'float' | 'boolean' | 'datetime' | 'array' | 'table';
+
+/** Dates and times are kept as their source text. */
+export type TomlValue = string | number | boolean | TomlValue[] | { [key: string]: TomlValue };
+
+export interface TomlEntry {
+    /** The key, or the index for array elements. */
+    key: string;
+    type: TomlType;
+    value: TomlValue;
+    /** Source text of the value, empty for tables opened by a header or a dotted key. */
+    raw: string;
+    /** 0-based line and column of the key, or of the value for array elements. */
+    line: number;
+    column: number;
+    /** Keys of a table. */
+    children: TomlEntry[];
+    /** Elements of an array, including each table of an array of tables. */
+    items: TomlEntry[];
+}
+
+export interface TomlError {
+    message: string;
+    line: number;
+    column: number;
+}
+
+export interface TomlDocument {
+    entries: TomlEntry[];
+    data: { [key: string]: TomlValue };
+    errors: TomlError[];
+}
+
+export function parseToml(text: string): TomlDocument {
+    return new TomlReader(text).read();
+}
+
+/**
+ * Finds an entry by its key path, e.g. `['Params', 'social', 'github']`.
+ */
+export function findTomlEntry(entries: TomlEntry[], path: string[]): TomlEntry | undefined {
+    let entry: TomlEntry | undefined;
+    for (const key of path) {
+        entry = entries.find(candidate => candidate.key === key);
+        if (!entry) {
+            return undefined;
+        }
+        entries = entry.children;
+    }
+    return entry;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const SCALAR = /[^\s,\]}#]+/y;
+const LINE_END = /[ \t]*\r?\n/y;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME = /^(\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}:\d{2}(\.\d+)?)$/;
+const DECIMAL = /^[+-]?(0|[1-9](_?\d)*)$/;
+const PREFIXED = /^0(x[0-9A-Fa-f](_?[0-9A-Fa-f])*|o[0-7](_?[0-7])*|b[01](_?[01])*)$/;
+const FLOAT = /^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?$/;
+const SPECIAL_FLOAT = /^[+-]?(inf|nan)$/;
+const ESCAPES: { [char: string]: string } = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+interface KeyPart {
+    name: string;
+    offset: number;
+}
+
+class TomlSyntaxError extends Error {
+    constructor(message: string, public readonly offset: number) {
+        super(message);
+    }
+}
+
+class TomlReader {
+    private pos = 0;
+    private readonly root: TomlEntry[] = [];
+    private readonly errors: TomlError[] = [];
+    private readonly lineStarts = [0];
+    // Tables opened by a header, which may not be opened again
+    private readonly headerTables = new Set<TomlEntry>();
+    private readonly arraysOfTables = new Set<TomlEntry>();
+    // Inline tables and arrays are complete once written
+    private readonly sealed = new Set<TomlEntry>();
+
+    constructor(private readonly text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    public read(): TomlDocument {
+        let table = this.root;
+        for (this.skipBlank(); this.pos < this.text.length; this.skipBlank()) {
+            const isHeader = this.text[this.pos] === '[';
+            try {
+                if (isHeader) {
+                    table = this.readHeader();
+                } else {
+                    this.readKeyValue(table);
+                }
+                this.expectLineEnd();
+            } catch (error) {
+                if (!(error instanceof TomlSyntaxError)) {
+                    throw error;
+                }
+                this.report(error.message, error.offset);
+                this.skipLine();
+                // Keys after a broken header would land in the wrong table
+                if (isHeader) {
+                    table = [];
+                }
+            }
+        }
+        this.root.forEach(finish);
+        return { entries: this.root, data: toObject(this.root), errors: this.errors };
+    }
+
+    private readHeader(): TomlEntry[] {
+        const isArray = this.text.startsWith('[[', this.pos);
+        this.pos += isArray ? 2 : 1;
+        const key = this.readKey();
+        const close = isArray ? ']]' : ']';
+        if (!this.text.startsWith(close, this.pos)) {
+            throw new TomlSyntaxError(`Expected \`${close}\` to close the table header.`, this.pos);
+        }
+        this.pos += close.length;
+
+        let table = this.root;
+        for (const part of key.slice(0, -1)) {
+            table = this.descend(table, part);
+        }
+        const last = key[key.length - 1];
+        const name = key.map(part => part.name).join('.');
+        const existing = table.find(entry => entry.key === last.name);
+
+        if (isArray) {
+            let array = existing;
+            if (!array) {
+                array = this.createEntry(last, 'array', '', []);
+                this.arraysOfTables.add(array);
+                table.push(array);
+            } else if (!this.arraysOfTables.has(array)) {
+                throw new TomlSyntaxError(`\`${name}\` is already defined and is not an array of tables.`, last.offset);
+            }
+            const element = this.createEntry({ name: String(array.items.length), offset: last.offset }, 'table', '', {});
+            array.items.push(element);
+            return element.children;
+        }
+
+        if (existing) {
+            if (existing.type !== 'table' || this.headerTables.has(existing) || this.sealed.has(existing)) {
+                throw new TomlSyntaxError(`\`${name}\` is already defined.`, last.offset);
+            }
+            this.headerTables.add(existing);
+            return existing.children;
+        }
+        const created = this.createEntry(last, 'table', '', {});
+        this.headerTables.add(created);
+        table.push(created);
+        return created.children;
+    }
+
+    private readKeyValue(table: TomlEntry[]): void {
+        const key = this.readKey();
+        if (this.text[this.pos] !== '=') {
+            throw new TomlSyntaxError('Expected `=` after the key.', this.pos);
+        }
+        this.pos++;
+        this.skipSpaces();
+
+        let target = table;
+        for (const part of key.slice(0, -1)) {
+            target = this.descend(target, part);
+        }
+        const last = key[key.length - 1];
+        const entry = this.readValue(last);
+        if (target.some(existing => existing.key === last.name)) {
+            this.report(`Duplicate key \`${key.map(part => part.name).join('.')}\`.`, last.offset);
+        } else {
+            target.push(entry);
+        }
+    }
+
+    /**
+     * Follows one part of a dotted key or table header, creating the table if needed.
+     */
+    private descend(table: TomlEntry[], part: KeyPart): TomlEntry[] {
+        const entry = table.find(candidate => candidate.key === part.name);
+        if (!entry) {
+            const created = this.createEntry(part, 'table', '', {});
+            table.push(created);
+            return created.children;
+        }
+        if (this.arraysOfTables.has(entry)) {
+            return entry.items[entry.items.length - 1].children;
+        }
+        if (entry.type !== 'table' || this.sealed.has(entry)) {
+            throw new TomlSyntaxError(`\`${part.name}\` is ${describeType(entry.type)}, so no keys can be added to it.`, part.offset);
+        }
+        return entry.children;
+    }
+
+    private readKey(): KeyPart[] {
+        const parts: KeyPart[] = [];
+        for (;;) {
+            this.skipSpaces();
+            const offset = this.pos;
+            const char = this.text[this.pos];
+            let name: string;
+            if (char === '"') {
+                name = this.readBasicString();
+            } else if (char === '\'') {
+                name = this.readLiteralString();
+            } else {
+                BARE_KEY.lastIndex = this.pos;
+                const match = BARE_KEY.exec(this.text);
+                if (!match) {
+                    throw new TomlSyntaxError('Expected a key.', this.pos);
+                }
+                name = match[0];
+                this.pos += name.length;
+            }
+            parts.push({ name, offset });
+            this.skipSpaces();
+            if (this.text[this.pos] !== '.') {
+                return parts;
+            }
+            this.pos++;
+        }
+    }
+
+    private readValue(key: KeyPart): TomlEntry {
+        const start = this.pos;
+        const char = this.text[this.pos];
+
+        if (char === '"' || char === '\'') {
+            const value = char === '"' ? this.readBasicString() : this.readLiteralString();
+            return this.createEntry(key, 'string', this.text.slice(start, this.pos), value);
+        }
+        if (char === '[') {
+            const items = this.readArray();
+            const entry = this.createEntry(key, 'array', this.text.slice(start, this.pos), []);
+            entry.items = items;
+            this.sealed.add(entry);
+            return entry;
+        }
+        if (char === '{') {
+            const children = this.readInlineTable();
+            const entry = this.createEntry(key, 'table', this.text.slice(start, this.pos), {});
+            entry.children = children;
+            this.sealed.add(entry);
+            return entry;
+        }
+
+        SCALAR.lastIndex = this.pos;
+        let token = SCALAR.exec(this.text)?.[0];
+        if (!token) {
+            throw new TomlSyntaxError('Expected a value.', this.pos);
+        }
+        // A date and a time may be separated by a space
+        if (DATE.test(token) && /^ \d{2}:/.test(this.text.slice(this.pos + token.length, this.pos + token.length + 4))) {
+            SCALAR.lastIndex = this.pos + token.length + 1;
+            token = `${token} ${SCALAR.exec(this.text)?.[0]}`;
+        }
+        this.pos += token.length;
+
+        if (token === 'true' || token === 'false') {
+            return this.createEntry(key, 'boolean', token, token === 'true');
+        }
+        if (DATETIME.test(token)) {
+            return this.createEntry(key, 'datetime', token, token);
+        }
+        if (DECIMAL.test(token)) {
+            return this.createEntry(key, 'integer', token, Number(token.replace(/_/g, '')));
+        }
+        if (PREFIXED.test(token)) {
+            const radix = { x: 16, o: 8, b: 2 }[token[1] as 'x' | 'o' | 'b'];
+            return this.createEntry(key, 'integer', token, parseInt(token.slice(2).replace(/_/g, ''), radix));
+        }
+        if (FLOAT.test(token) || SPECIAL_FLOAT.test(token)) {
+            const value = token.endsWith('inf') ? (token.startsWith('-') ? -Infinity : Infinity)
+                : token.endsWith('nan') ? NaN : Number(token.replace(/_/g, ''));
+            return this.createEntry(key, 'float', token, value);
+        }
+        throw new TomlSyntaxError(`\`${token}\` is not a valid value. Strings must be quoted.`, start);
+    }
+
+    private readArray(): TomlEntry[] {
+        const open = this.pos++;
+        const items: TomlEntry[] = [];
+        for (;;) {
+            this.skipBlank();
+            if (this.pos >= this.text.length) {
+                throw new TomlSyntaxError('Array is not closed, expected `]`.', open);
+            }
+            if (this.text[this.pos] === ']') {
+                this.pos++;
+                return items;
+            }
+            items.push(this.readValue({ name: String(items.length), offset: this.pos }));
+            this.skipBlank();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+            } else if (this.text[this.pos] !== ']') {
+                throw new TomlSyntaxError('Expected `,` or `]` after an array element.', this.pos);
+            }
+        }
+    }
+
+    private readInlineTable(): TomlEntry[] {
+        this.pos++;
+        const children: TomlEntry[] = [];
+        this.skipSpaces();
+        if (this.text[this.pos] === '}') {
+            this.pos++;
+            return children;
+        }
+        for (;;) {
+            this.readKeyValue(children);
+            this.skipSpaces();
+            const char = this.text[this.pos++];
+            if (char === '}') {
+                return children;
+            }
+            if (char !== ',') {
+                throw new TomlSyntaxError('Expected `,` or `}` in an inline table, which must fit on one line.', this.pos - 1);
+            }
+        }
+    }
+
+    private readBasicString(): string {
+        const multiline = this.text.startsWith('"""', this.pos);
+        const start = this.pos;
+        this.pos += multiline ? 3 : 1;
+        if (multiline) {
+            this.skipNewline();
+        }
+
+        let value = '';
+        for (;;) {
+            const char = this.text[this.pos];
+            if (char === undefined || (!multiline && (char === '\n' || char === '\r'))) {
+                throw new TomlSyntaxError('String is not closed.', start);
+            }
+            if (multiline ? this.text.startsWith('"""', this.pos) : char === '"') {
+                break;
+            }
+            if (char !== '\\') {
+                value += char;
+                this.pos++;
+                continue;
+            }
+
+            const escape = this.text[this.pos + 1];
+            if (ESCAPES[escape]) {
+                value += ESCAPES[escape];
+                this.pos += 2;
+            } else if (escape === 'u' || escape === 'U') {
+                const length = escape === 'u' ? 4 : 8;
+                const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+                if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) {
+                    throw new TomlSyntaxError(`Invalid unicode escape \`\\${escape}${hex}\`.`, this.pos);
+                }
+                value += String.fromCodePoint(parseInt(hex, 16));
+                this.pos += 2 + length;
+            } else if (multiline && this.isLineEndingBackslash()) {
+                // A backslash at the end of a line trims the line break and the following whitespace
+                this.pos++;
+                while (/\s/.test(this.text[this.pos] ?? '')) {
+                    this.pos++;
+                }
+            } else {
+                throw new TomlSyntaxError(`Invalid escape sequence \`\\${escape ?? ''}\`.`, this.pos);
+            }
+        }
+        this.pos += multiline ? 3 : 1;
+        return value + this.readExtraQuotes('"', multiline);
+    }
+
+    private isLineEndingBackslash(): boolean {
+        LINE_END.lastIndex = this.pos + 1;
+        return LINE_END.test(this.text);
+    }
+
+    private readLiteralString(): string {
+        const multiline = this.text.startsWith('\'\'\'', this.pos);
+        const start = this.pos;
+        this.pos += multiline ? 3 : 1;
+        if (multiline) {
+            this.skipNewline();
+        }
+        const end = this.text.indexOf(multiline ? '\'\'\'' : '\'', this.pos);
+        const value = end < 0 ? undefined : this.text.slice(this.pos, end);
+        if (value === undefined || (!multiline && /[\r\n]/.test(value))) {
+            throw new TomlSyntaxError('String is not closed.', start);
+        }
+        this.pos = end + (multiline ? 3 : 1);
+        return value + this.readExtraQuotes('\'', multiline);
+    }
+
+    // Up to two quotes directly before the closing delimiter of a multi-line string belong to it
+    private readExtraQuotes(quote: string, multiline: boolean): string {
+        let extra = '';
+        while (multiline && extra.length < 2 && this.text[this.pos] === quote) {
+            extra += quote;
+            this.pos++;
+        }
+        return extra;
+    }
+
+    private expectLineEnd(): void {
+        this.skipSpaces();
+        if (this.text[this.pos] === '#') {
+            this.skipLine();
+            return;
+        }
+        if (this.pos < this.text.length && !this.skipNewline()) {
+            throw new TomlSyntaxError('Expected the end of the line.', this.pos);
+        }
+    }
+
+    private skipSpaces(): void {
+        while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') {
+            this.pos++;
+        }
+    }
+
+    private skipNewline(): boolean {
+        const match = /^\r?\n/.exec(this.text.slice(this.pos, this.pos + 2));
+        this.pos += match ? match[0].length : 0;
+        return !!match;
+    }
+
+    /** Skips whitespace, line breaks and comments. */
+    private skipBlank(): void {
+        for (;;) {
+            this.skipSpaces();
+            if (this.text[this.pos] === '#') {
+                this.skipLine();
+            } else if (!this.skipNewline()) {
+                return;
+            }
+        }
+    }
+
+    private skipLine(): void {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end < 0 ? this.text.length : end + 1;
+    }
+
+    private createEntry(key: KeyPart, type: TomlType, raw: string, value: TomlValue): TomlEntry {
+        const { line, column } = this.locate(key.offset);
+        return { key: key.name, type, value, raw, line, column, children: [], items: [] };
+    }
+
+    private report(message: string, offset: number): void {
+        this.errors.push({ message, ...this.locate(offset) });
+    }
+
+    private locate(offset: number): { line: number; column: number } {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { line: low, column: offset - this.lineStarts[low] };
+    }
+}
+
+/**
+ * Fills in the values of tables and arrays from their children.
+ */
+function finish(entry: TomlEntry): void {
+    entry.children.forEach(finish);
+    entry.items.forEach(finish);
+    if (entry.type === 'table') {
+        entry.value = toObject(entry.children);
+    } else if (entry.type === 'array') {
+        entry.value = entry.items.map(item => item.value);
+    }
+}
+
+function toObject(entries: TomlEntry[]): { [key: string]: TomlValue } {
+    const data: { [key: string]: TomlValue } = {};
+    entries.forEach(entry => data[entry.key] = entry.value);
+    return data;
+}
+
+function describeType(type: TomlType): string {
+    return type === 'array' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
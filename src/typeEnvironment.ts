@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { parseFrontMatter } from './frontMatter';
+import { AllayDocument, ObjectType, PAGE_FIELDS, TypeEnvironment, UNKNOWN, getPageType, getShortcodeSignature, typeOfValue } from './parser';
+import { describeParameter } from './shortcodeSignatures';
+import { getSiteType } from './site';
+import { getFileKind } from './workspace';
+import { findConfig, getWorkspaceIndex } from './workspaceIndex';
+
+/**
+ * Collects what the built-in names refer to in a document: `site` from the project's
+ * `allay.toml`, pages from the front matter of the project's pages (including unsaved changes
+ * to this document) and, in a shortcode file, `param` from the parameters it reads.
+ */
+export async function getTypeEnvironment(document: vscode.TextDocument, allayDocument: AllayDocument): Promise<TypeEnvironment> {
+    const config = await findConfig(document.uri);
+    const pages = await getWorkspaceIndex().findPages(config?.root);
+    const frontMatter = parseFrontMatter(document.getText())?.data ?? {};
+    const page = getPageType([
+        ...pages.filter(other => other.uri.toString() !== document.uri.toString()).map(other => other.frontMatter?.data ?? {}),
+        frontMatter,
+    ]);
+
+    // In a page, its own front-matter fields are known exactly
+    const current: ObjectType = { ...page, fields: { ...page.fields } };
+    for (const [name, value] of Object.entries(frontMatter)) {
+        const detail = PAGE_FIELDS[name] ? PAGE_FIELDS[name].detail : 'Front-matter variable from current file';
+        current.fields[name] = { ...current.fields[name], type: typeOfValue(value), detail };
+    }
+
+    const param: ObjectType = { kind: 'object', name: 'param', fields: {} };
+    if (getFileKind(document.uri) === 'shortcode') {
+        for (const parameter of getShortcodeSignature(allayDocument).parameters) {
+            param.fields[parameter.name] = { type: UNKNOWN, detail: `Shortcode parameter (${describeParameter(parameter)})` };
+        }
+    }
+
+    return {
+        site: config ? getSiteType(config.toml) : UNKNOWN,
+        page,
+        current,
+        param,
+    };
+}
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getAllayDocument } from './allayDocument';
+import { AllayDocument, Span, parse } from './parser';
+import { CONFIG_FILE, CONTENT_DIR, findProjectRoot } from './site';
+
+export const CONFIG_GLOB = `**/${CONFIG_FILE}`;
+export const SOURCE_GLOB = '**/*.{md,html}';
+// Build output and dependencies, never indexed
+const EXCLUDED_DIRECTORIES = ['node_modules', 'public', 'dist', '.git'];
+export const EXCLUDE_GLOB = `**/{${EXCLUDED_DIRECTORIES.join(',')}}/**`;
+
+/**
+ * Returns the name a template or shortcode file is referenced by: its file name without extension.
+ */
+export function getFileStem(uri: vscode.Uri): string {
+    return path.basename(uri.fsPath, path.extname(uri.fsPath));
+}
+
+/** Names a shortcode tag accepts, and so the stems of files in `shortcodes/`. */
+export const SHORTCODE_NAME = /^[A-Za-z_][A-Za-z0-9_]*(-[A-Za-z0-9_]+)*$/;
+/** Template names are file stems, so anything safe in a file name that needs no quoting. */
+export const TEMPLATE_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+/**
+ * What a file is to an Allay project, judging by its location.
+ */
+export type FileKind = 'template' | 'shortcode' | 'page' | 'config' | 'other';
+
+export function getFileKind(uri: vscode.Uri): FileKind {
+    const name = path.basename(uri.fsPath);
+    if (name === CONFIG_FILE) {
+        return 'config';
+    }
+    if (!['.md', '.html'].includes(path.extname(name))) {
+        return 'other';
+    }
+    const directory = path.basename(path.dirname(uri.fsPath));
+    if (directory === 'templates') {
+        return 'template';
+    }
+    if (directory === 'shortcodes') {
+        return 'shortcode';
+    }
+    return uri.fsPath.split(path.sep).includes(CONTENT_DIR) ? 'page' : 'other';
+}
+
+/**
+ * True for files inside build output or dependency folders, which file watchers still report.
+ */
+export function isExcluded(uri: vscode.Uri): boolean {
+    return uri.fsPath.split(path.sep).some(segment => EXCLUDED_DIRECTORIES.includes(segment));
+}
+
+/**
+ * Templates and shortcodes live in `<project>/templates/` and `<project>/shortcodes/`, so such a
+ * file is in the same project as another file when its project root contains that file.
+ */
+export function isInSameProject(projectFile: vscode.Uri, other: vscode.Uri): boolean {
+    const projectRoot = path.dirname(path.dirname(projectFile.fsPath));
+    return findProjectRoot([projectRoot], other.fsPath) !== undefined;
+}
+
+/**
+ * Picks the template or shortcode file of the project containing `near`, else the first candidate.
+ */
+export function preferSameProject(candidates: vscode.Uri[], near: vscode.Uri): vscode.Uri | undefined {
+    return candidates.find(candidate => isInSameProject(candidate, near)) ?? candidates[0];
+}
+
+// Parsed files that are not open in an editor, dropped by the workspace index when they change on disk
+const parsedFiles = new Map<string, SourceFile>();
+
+/**
+ * Drops the cached parse of a file that changed or was deleted on disk.
+ */
+export function forgetSourceFile(uri: vscode.Uri): void {
+    parsedFiles.delete(uri.toString());
+}
+
+/**
+ * A workspace file together with its parsed Allay AST.
+ * Uses the editor's copy when the file is open, so unsaved changes are taken into account.
+ */
+export class SourceFile {
+    private lineStarts: number[] | undefined;
+
+    private constructor(
+        public readonly uri: vscode.Uri,
+        public readonly text: string,
+        public readonly allayDocument: AllayDocument
+    ) { }
+
+    public static async read(uri: vscode.Uri): Promise<SourceFile> {
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (open) {
+            return new SourceFile(uri, open.getText(), getAllayDocument(open));
+        }
+        const cached = parsedFiles.get(uri.toString());
+        if (cached) {
+            return cached;
+        }
+        const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        const file = new SourceFile(uri, text, parse(text));
+        parsedFiles.set(uri.toString(), file);
+        return file;
+    }
+
+    public positionAt(offset: number): vscode.Position {
+        if (!this.lineStarts) {
+            this.lineStarts = [0];
+            for (let i = 0; i < this.text.length; i++) {
+                if (this.text[i] === '\n') {
+                    this.lineStarts.push(i + 1);
+                }
+            }
+        }
+        // Binary search for the last line starting at or before the offset
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return new vscode.Position(low, offset - this.lineStarts[low]);
+    }
+
+    public rangeOf(span: Span): vscode.Range {
+        return new vscode.Range(this.positionAt(span.start), this.positionAt(span.end));
+    }
+
+    public locationOf(span: Span): vscode.Location {
+        return new vscode.Location(this.uri, this.rangeOf(span));
+    }
+}
+
+/**
+ * Finds the line of a key in the YAML front matter at the top of a page.
+ */
+export function findFrontMatterKeyLine(text: string, key: string): number | undefined {
+    const lines = text.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+        return undefined;
+    }
+    const keyPattern = new RegExp(`^\\s*${escapeRegExp(key)}\\s*:`);
+    for (let i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+        if (keyPattern.test(lines[i])) {
+            return i;
+        }
+    }
+    return undefined;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,416 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FrontMatter, parseFrontMatter } from './frontMatter';
+import { DEFAULT_SCHEMA_FILE, FrontMatterSchema, JsonSchema, buildSchema, getSchemaFile } from './frontMatterSchema';
+import { CONFIG_FILE, findProjectRoot } from './site';
+import { TomlDocument, parseToml } from './toml';
+import {
+    CONFIG_GLOB, EXCLUDE_GLOB, FileKind, SOURCE_GLOB, forgetSourceFile, getFileKind, getFileStem, isExcluded
+} from './workspace';
+
+// Number of files read at once while building the index
+const READ_BATCH_SIZE = 64;
+
+/**
+ * The `allay.toml` of a project.
+ */
+export interface ConfigInfo {
+    uri: vscode.Uri;
+    /** The project root, the folder containing the file. */
+    root: string;
+    text: string;
+    toml: TomlDocument;
+}
+
+/**
+ * A page under `content/` with its front matter.
+ */
+export interface PageInfo {
+    uri: vscode.Uri;
+    /** Undefined when the page has no front matter. */
+    frontMatter?: FrontMatter;
+}
+
+/**
+ * The front-matter schema of a project.
+ */
+export interface LoadedSchema {
+    schema: FrontMatterSchema;
+    /** Why the JSON schema named in `allay.toml` could not be used. */
+    error?: string;
+}
+
+/**
+ * Counters for judging how the index performs on a workspace.
+ */
+export interface IndexStatistics {
+    sources: number;
+    templates: number;
+    shortcodes: number;
+    pages: number;
+    configs: number;
+    /** Milliseconds the last full build took. */
+    buildTime: number;
+    /** File updates applied since the last build and the milliseconds they took in total. */
+    updates: number;
+    updateTime: number;
+    /** Queries answered since the last build and the milliseconds they took in total. */
+    queries: number;
+    queryTime: number;
+}
+
+let current: WorkspaceIndex | undefined;
+
+/**
+ * Returns the index created on activation.
+ */
+export function getWorkspaceIndex(): WorkspaceIndex {
+    if (!current) {
+        throw new Error('The Allay workspace index has not been created.');
+    }
+    return current;
+}
+
+/**
+ * An in-memory index of the Allay files in the workspace: templates, shortcodes, the `allay.toml`
+ * of each project and the front matter of every page. It is built once and then kept up to date
+ * by file watchers, so providers do not search the workspace on every request.
+ */
+export class WorkspaceIndex implements vscode.Disposable {
+    private sources = new Map<string, vscode.Uri>();
+    private templates = new Map<string, vscode.Uri>();
+    private shortcodes = new Map<string, vscode.Uri>();
+    private pages = new Map<string, PageInfo>();
+    private configs = new Map<string, ConfigInfo>();
+    // Front-matter schemas by project root, with the JSON schema file they were read from
+    private schemas = new Map<string, { file: string; loaded: Promise<LoadedSchema> }>();
+    private ready: Promise<void>;
+    private statistics = { buildTime: 0, updates: 0, updateTime: 0, queries: 0, queryTime: 0 };
+    private readonly changeEmitter = new vscode.EventEmitter<FileKind>();
+    private readonly deleteEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fired with the kind of file that was added, changed or removed. */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    /** Fired with a deleted file or folder, after the files below it left the index. */
+    public readonly onDidDelete = this.deleteEmitter.event;
+
+    constructor(private readonly logChannel: vscode.LogOutputChannel) {
+        for (const glob of [SOURCE_GLOB, CONFIG_GLOB]) {
+            const watcher = vscode.workspace.createFileSystemWatcher(glob);
+            this.disposables.push(
+                watcher,
+                watcher.onDidCreate(uri => this.update(uri)),
+                watcher.onDidChange(uri => this.update(uri)),
+                watcher.onDidDelete(uri => this.remove(uri))
+            );
+        }
+        // JSON schemas are not indexed, but a change to one of them must reach the schemas read from it
+        const schemaWatcher = vscode.workspace.createFileSystemWatcher('**/*.json');
+        this.disposables.push(
+            schemaWatcher,
+            schemaWatcher.onDidCreate(uri => this.forgetSchemas(uri)),
+            schemaWatcher.onDidChange(uri => this.forgetSchemas(uri)),
+            schemaWatcher.onDidDelete(uri => this.forgetSchemas(uri))
+        );
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()));
+        this.ready = this.build();
+        current = this;
+    }
+
+    /**
+     * Rebuilds the index from scratch, e.g. after folders were moved outside of VS Code.
+     */
+    public rebuild(): Promise<void> {
+        this.ready = this.build();
+        return this.ready;
+    }
+
+    /**
+     * Returns the template files, optionally only those referenced by `name`.
+     */
+    public findTemplateFiles(name?: string): Promise<vscode.Uri[]> {
+        return this.query(() => filterByName(this.templates, name));
+    }
+
+    /**
+     * Returns the shortcode files, optionally only those referenced by `name`.
+     */
+    public findShortcodeFiles(name?: string): Promise<vscode.Uri[]> {
+        return this.query(() => filterByName(this.shortcodes, name));
+    }
+
+    /**
+     * Returns every Markdown and HTML file that may contain Allay markup.
+     */
+    /**
+     * Returns the source files of the project containing `near`, or of all projects.
+     */
+    public findSourceFiles(near?: vscode.Uri): Promise<vscode.Uri[]> {
+        return this.query(() => {
+            const sources = [...this.sources.values()];
+            if (!near) {
+                return sources;
+            }
+            const root = this.getRoot(near);
+            return sources.filter(uri => this.getRoot(uri) === root);
+        });
+    }
+
+    /**
+     * Returns the pages of the project rooted at `root`, or of all projects.
+     */
+    public findPages(root?: string): Promise<PageInfo[]> {
+        return this.query(() => {
+            const roots = [...this.configs.values()].map(config => config.root);
+            return [...this.pages.values()].filter(page => root === undefined || findProjectRoot(roots, page.uri.fsPath) === root);
+        });
+    }
+
+    public findConfigs(): Promise<ConfigInfo[]> {
+        return this.query(() => [...this.configs.values()]);
+    }
+
+    /**
+     * Returns the `allay.toml` of the project containing `near`, or the one nearest the workspace root.
+     * Unsaved changes to an open `allay.toml` are taken into account.
+     */
+    public findConfig(near?: vscode.Uri): Promise<ConfigInfo | undefined> {
+        return this.query(() => {
+            const configs = [...this.configs.values()];
+            const root = near && this.getRoot(near);
+            const config = configs.find(config => config.root === root)
+                ?? configs.sort((a, b) => a.root.length - b.root.length)[0];
+            const open = config && vscode.workspace.textDocuments.find(document => document.uri.toString() === config.uri.toString());
+            return open?.isDirty ? readConfig(open.uri, open.getText()) : config;
+        });
+    }
+
+    /**
+     * Returns the front-matter schema of the project containing `near`, built from its
+     * `allay.toml` and JSON schema. It is read once per project and again after either file changed;
+     * while `allay.toml` has unsaved changes it is built from the editor's copy every time.
+     */
+    public async getFrontMatterSchema(near: vscode.Uri): Promise<LoadedSchema> {
+        const config = await this.findConfig(near);
+        if (!config) {
+            return { schema: buildSchema() };
+        }
+        const file = path.resolve(config.root, getSchemaFile(config.toml.data) ?? DEFAULT_SCHEMA_FILE);
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === config.uri.toString());
+        if (open?.isDirty) {
+            return loadSchema(config, file);
+        }
+        let cached = this.schemas.get(config.root);
+        if (!cached || cached.file !== file) {
+            cached = { file, loaded: loadSchema(config, file) };
+            this.schemas.set(config.root, cached);
+        }
+        return cached.loaded;
+    }
+
+    public getStatistics(): IndexStatistics {
+        return {
+            sources: this.sources.size,
+            templates: this.templates.size,
+            shortcodes: this.shortcodes.size,
+            pages: this.pages.size,
+            configs: this.configs.size,
+            ...this.statistics,
+        };
+    }
+
+    private async query<T>(answer: () => T): Promise<T> {
+        await this.ready;
+        const start = Date.now();
+        const result = answer();
+        this.statistics.queries++;
+        this.statistics.queryTime += Date.now() - start;
+        return result;
+    }
+
+    private getRoot(uri: vscode.Uri): string | undefined {
+        return findProjectRoot([...this.configs.values()].map(config => config.root), uri.fsPath);
+    }
+
+    private async build(): Promise<void> {
+        const start = Date.now();
+        const [sourceFiles, configFiles] = await Promise.all([
+            vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB),
+            vscode.workspace.findFiles(CONFIG_GLOB, EXCLUDE_GLOB),
+        ]);
+
+        this.sources.forEach(uri => forgetSourceFile(uri));
+        this.sources = new Map();
+        this.templates = new Map();
+        this.shortcodes = new Map();
+        this.pages = new Map();
+        this.configs = new Map();
+        this.schemas = new Map();
+
+        // Read in batches so large sites do not open thousands of files at once
+        const files = [...configFiles, ...sourceFiles];
+        for (let i = 0; i < files.length; i += READ_BATCH_SIZE) {
+            await Promise.all(files.slice(i, i + READ_BATCH_SIZE).map(uri => this.add(uri)));
+        }
+
+        this.statistics = { buildTime: Date.now() - start, updates: 0, updateTime: 0, queries: 0, queryTime: 0 };
+        this.logChannel.info(
+            `Indexed ${this.sources.size} files (${this.templates.size} templates, ${this.shortcodes.size} shortcodes, ` +
+            `${this.pages.size} pages) and ${this.configs.size} ${CONFIG_FILE} files in ${this.statistics.buildTime} ms.`
+        );
+        (['template', 'shortcode', 'page', 'config'] as const).forEach(kind => this.changeEmitter.fire(kind));
+    }
+
+    /**
+     * Adds a file or refreshes its entry, reading it where its contents are indexed.
+     */
+    private async add(uri: vscode.Uri): Promise<FileKind | undefined> {
+        if (isExcluded(uri)) {
+            return undefined;
+        }
+        const key = uri.toString();
+        const kind = getFileKind(uri);
+        try {
+            if (kind === 'config') {
+                this.configs.set(key, readConfig(uri, await readText(uri)));
+                return kind;
+            }
+            this.sources.set(key, uri);
+            if (kind === 'template') {
+                this.templates.set(key, uri);
+            } else if (kind === 'shortcode') {
+                this.shortcodes.set(key, uri);
+            } else if (kind === 'page') {
+                this.pages.set(key, { uri, frontMatter: parseFrontMatter(await readText(uri)) });
+            }
+        } catch (error) {
+            // Deleted or unreadable meanwhile, the watcher reports the deletion separately
+            this.logChannel.warn(`Could not index ${uri.fsPath}: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        }
+        return kind;
+    }
+
+    private async update(uri: vscode.Uri): Promise<void> {
+        await this.ready;
+        const start = Date.now();
+        forgetSourceFile(uri);
+        const kind = await this.add(uri);
+        if (kind === 'config') {
+            this.schemas.delete(path.dirname(uri.fsPath));
+        }
+        this.recordUpdate(start);
+        if (kind) {
+            this.changeEmitter.fire(kind);
+        }
+    }
+
+    private async remove(uri: vscode.Uri): Promise<void> {
+        await this.ready;
+        const start = Date.now();
+        // A deleted folder is reported once, so drop everything below it as well
+        const removed = new Set<FileKind>();
+        const isRemoved = (file: vscode.Uri) => file.fsPath === uri.fsPath || file.fsPath.startsWith(uri.fsPath + path.sep);
+        const maps: Map<string, vscode.Uri | PageInfo | ConfigInfo>[] = [this.sources, this.templates, this.shortcodes, this.pages, this.configs];
+        for (const map of maps) {
+            for (const [key, value] of map) {
+                const file = value instanceof vscode.Uri ? value : value.uri;
+                if (isRemoved(file)) {
+                    map.delete(key);
+                    forgetSourceFile(file);
+                    removed.add(getFileKind(file));
+                }
+            }
+        }
+        for (const [root, cached] of this.schemas) {
+            if (isRemoved(vscode.Uri.file(root)) || isRemoved(vscode.Uri.file(cached.file))) {
+                this.schemas.delete(root);
+            }
+        }
+        this.recordUpdate(start);
+        removed.forEach(kind => this.changeEmitter.fire(kind));
+        this.deleteEmitter.fire(uri);
+    }
+
+    /**
+     * Drops the schemas read from a JSON file that was created, changed or deleted, and lets
+     * listeners re-validate against the new schema.
+     */
+    private forgetSchemas(uri: vscode.Uri): void {
+        let forgotten = false;
+        for (const [root, cached] of this.schemas) {
+            if (cached.file === uri.fsPath) {
+                this.schemas.delete(root);
+                forgotten = true;
+            }
+        }
+        if (forgotten) {
+            this.changeEmitter.fire('config');
+        }
+    }
+
+    private recordUpdate(start: number): void {
+        this.statistics.updates++;
+        this.statistics.updateTime += Date.now() - start;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.changeEmitter.dispose();
+        this.deleteEmitter.dispose();
+        if (current === this) {
+            current = undefined;
+        }
+    }
+}
+
+export function findTemplateFiles(name?: string): Promise<vscode.Uri[]> {
+    return getWorkspaceIndex().findTemplateFiles(name);
+}
+
+export function findShortcodeFiles(name?: string): Promise<vscode.Uri[]> {
+    return getWorkspaceIndex().findShortcodeFiles(name);
+}
+
+export function findSourceFiles(near?: vscode.Uri): Promise<vscode.Uri[]> {
+    return getWorkspaceIndex().findSourceFiles(near);
+}
+
+export function findConfig(near?: vscode.Uri): Promise<ConfigInfo | undefined> {
+    return getWorkspaceIndex().findConfig(near);
+}
+
+export function getFrontMatterSchema(near: vscode.Uri): Promise<LoadedSchema> {
+    return getWorkspaceIndex().getFrontMatterSchema(near);
+}
+
+function filterByName(files: Map<string, vscode.Uri>, name: string | undefined): vscode.Uri[] {
+    return [...files.values()]
+        .filter(file => name === undefined || getFileStem(file) === name)
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+async function loadSchema(config: ConfigInfo, file: string): Promise<LoadedSchema> {
+    const configured = getSchemaFile(config.toml.data);
+    let jsonSchema: JsonSchema | undefined;
+    let error: string | undefined;
+    try {
+        jsonSchema = JSON.parse(await readText(vscode.Uri.file(file)));
+    } catch (e) {
+        // The default file is optional, a configured one is not
+        if (configured) {
+            error = `The front-matter schema \`${configured}\` set in \`allay.toml\` could not be read: ${e instanceof Error ? e.message : e}`;
+        }
+    }
+    return { schema: buildSchema(config.toml.data, jsonSchema), error };
+}
+
+function readConfig(uri: vscode.Uri, text: string): ConfigInfo {
+    return { uri, root: path.dirname(uri.fsPath), text, toml: parseToml(text) };
+}
+
+async function readText(uri: vscode.Uri): Promise<string> {
+    return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+}